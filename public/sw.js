@@ -0,0 +1,66 @@
+// Amarsipahi Weather service worker: keeps the app shell available offline.
+// API responses are deliberately not cached here; the app persists its own last-known telemetry in IndexedDB.
+
+const SHELL_CACHE = 'amarsipahi-shell-v2';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// Written by `vite build` (build.manifest in vite.config.ts): every entry's hashed script, styles and assets
+const BUILD_MANIFEST_URL = '/asset-manifest.json';
+
+const buildAssetUrls = async () => {
+  const response = await fetch(BUILD_MANIFEST_URL, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Build manifest unavailable (HTTP ${response.status})`);
+  const manifest = await response.json();
+  const files = Object.values(manifest).flatMap((chunk) => [chunk.file, ...(chunk.css ?? []), ...(chunk.assets ?? [])]);
+  return [...new Set(files)].map((file) => `/${file}`);
+};
+
+// The whole build is cached up front, so the app works offline even for chunks not yet loaded
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(SHELL_CACHE), buildAssetUrls()])
+      .then(([cache, assetUrls]) => cache.addAll([...SHELL_URLS, ...assetUrls]))
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Navigations: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Hashed build assets and static files: cache first; anything the install missed is cached on first use
+  event.respondWith(
+    caches.match(request).then((cached) =>
+      cached ||
+      fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+    )
+  );
+});
@@ -0,0 +1,30 @@
+import path from 'path';
+import express from 'express';
+import { loadConfig } from './server/config.ts';
+import { createApp } from './server/app.ts';
+
+const startServer = async () => {
+  const config = loadConfig();
+  const { app, scheduler } = createApp(config);
+
+  if (process.env.NODE_ENV === 'production') {
+    // Serve the built client and let the SPA handle its own routes
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => res.sendFile(path.join(distPath, 'index.html')));
+  } else {
+    const { createServer } = await import('vite');
+    const vite = await createServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  }
+
+  app.listen(config.port, '0.0.0.0', () => {
+    console.log(`Amarsipahi Weather listening on http://localhost:${config.port}`);
+    scheduler.start();
+  });
+};
+
+startServer();
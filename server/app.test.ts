@@ -0,0 +1,238 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeClock, startApp, startStandIn, testConfig, type StandIn, type TestApp } from './testing.ts';
+
+const FORECAST = {
+  timezone: 'Asia/Kolkata',
+  current: {
+    temperature_2m: 24.3, relative_humidity_2m: 81, apparent_temperature: 26.1, is_day: 1, precipitation: 0.2,
+    weather_code: 61, surface_pressure: 1008, wind_speed_10m: 12.4, wind_gusts_10m: 20, uv_index: 3.2,
+  },
+  hourly: { time: [1792368000], temperature_2m: [24] },
+  daily: { time: [1792348200], weather_code: [61] },
+};
+
+const GEOCODE = {
+  results: [{ id: 1259229, name: 'Pune', latitude: 18.5196, longitude: 73.8554, country: 'India', country_code: 'IN' }],
+};
+
+const TELEMETRY = {
+  location: 'Pune, Maharashtra, India',
+  condition: 'Slight Rain',
+  weatherCode: 61,
+  temp: 24.3,
+  feelsLike: 26.1,
+  humidity: 81,
+  windSpeed: 12.4,
+  uvIndex: 3.2,
+  units: { temperature: 'celsius', wind: 'kmh', pressure: 'hPa', precipitation: 'mm' },
+  profile: 'runner',
+  language: 'en',
+};
+
+describe('upstream proxy', () => {
+  const clock = fakeClock(Date.parse('2026-10-19T06:00:00Z'));
+  let upstream: StandIn;
+  let app: TestApp;
+  // Answers for the next upstream requests, by path
+  let replies: Record<string, { status?: number; headers?: Record<string, string>; body?: unknown }>;
+
+  before(async () => {
+    upstream = await startStandIn((request) => replies[new URL(request.url, 'http://stand-in').pathname] ?? { status: 404 });
+    app = await startApp(testConfig({
+      GEOCODING_API_URL: upstream.url,
+      FORECAST_API_URL: upstream.url,
+      REVERSE_GEOCODING_API_URL: upstream.url,
+      CACHE_TTL_FORECAST: '600',
+    }), clock.now);
+  });
+
+  after(async () => {
+    await app.close();
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    replies = { '/v1/search': { body: GEOCODE }, '/v1/forecast': { body: FORECAST } };
+    upstream.requests.length = 0;
+  });
+
+  const get = async (path: string) => {
+    const res = await fetch(`${app.url}${path}`);
+    return { status: res.status, body: await res.json() };
+  };
+
+  it('proxies geocoding with the requested name, count and language', async () => {
+    const { status, body } = await get('/api/geocode?name=Pune&count=3&language=hi');
+    assert.equal(status, 200);
+    assert.deepEqual(body, GEOCODE);
+    assert.equal(upstream.requests.length, 1);
+    const params = new URL(upstream.requests[0].url, 'http://stand-in').searchParams;
+    assert.equal(params.get('name'), 'Pune');
+    assert.equal(params.get('count'), '3');
+    assert.equal(params.get('language'), 'hi');
+  });
+
+  it('rejects a geocoding request without a name', async () => {
+    const { status, body } = await get('/api/geocode?name=%20');
+    assert.equal(status, 400);
+    assert.match(body.error, /name/);
+    assert.equal(upstream.requests.length, 0);
+  });
+
+  it('reshapes reverse geocoding into the geocoding format', async () => {
+    replies['/reverse'] = {
+      body: { name: 'Shivajinagar', address: { town: 'Pune', state: 'Maharashtra', country: 'India', country_code: 'in' } },
+    };
+    const { body } = await get('/api/reverse-geocode?latitude=18.5196&longitude=73.8554&language=hi');
+    assert.deepEqual(body, {
+      results: [{ name: 'Pune', latitude: 18.5196, longitude: 73.8554, admin1: 'Maharashtra', country: 'India', country_code: 'IN' }],
+    });
+    assert.equal(new URL(upstream.requests[0].url, 'http://stand-in').searchParams.get('accept-language'), 'hi');
+
+    replies['/reverse'] = { body: { address: { city: 42 } } };
+    assert.deepEqual((await get('/api/reverse-geocode?latitude=0&longitude=0')).body, { results: [] });
+  });
+
+  it('proxies the forecast in local unix time and serves repeats from the cache', async () => {
+    const first = await get('/api/forecast?latitude=18.5196&longitude=73.8554');
+    assert.equal(first.status, 200);
+    assert.deepEqual(first.body, FORECAST);
+    const params = new URL(upstream.requests[0].url, 'http://stand-in').searchParams;
+    assert.equal(params.get('latitude'), '18.5196');
+    assert.equal(params.get('timezone'), 'auto');
+    assert.equal(params.get('timeformat'), 'unixtime');
+    assert.match(params.get('daily') ?? '', /sunrise/);
+
+    const second = await get('/api/forecast?latitude=18.5196&longitude=73.8554');
+    assert.deepEqual(second.body, FORECAST);
+    assert.equal(upstream.requests.length, 1);
+  });
+
+  it('rejects out-of-range coordinates', async () => {
+    const { status } = await get('/api/forecast?latitude=91&longitude=0');
+    assert.equal(status, 400);
+    assert.equal(upstream.requests.length, 0);
+  });
+
+  it('fetches again once the cache entry has expired', async () => {
+    const path = '/api/forecast?latitude=10&longitude=20';
+    await get(path);
+    clock.advance(599_000);
+    await get(path);
+    assert.equal(upstream.requests.length, 1);
+    clock.advance(2_000);
+    await get(path);
+    assert.equal(upstream.requests.length, 2);
+  });
+
+  it('reports upstream failures as 502 and rate limits as 429', async () => {
+    replies['/v1/forecast'] = { status: 500, body: { error: true, reason: 'Model run missing' } };
+    const failed = await get('/api/forecast?latitude=11&longitude=20');
+    assert.equal(failed.status, 502);
+    assert.match(failed.body.error, /Model run missing/);
+
+    replies['/v1/forecast'] = { status: 429, headers: { 'Retry-After': '30' }, body: { error: true, reason: 'Too many requests' } };
+    const limited = await fetch(`${app.url}/api/forecast?latitude=12&longitude=20`);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '30');
+  });
+
+  it('does not cache failed upstream answers', async () => {
+    replies['/v1/forecast'] = { status: 500, body: {} };
+    await get('/api/forecast?latitude=13&longitude=20');
+    replies['/v1/forecast'] = { body: FORECAST };
+    const retried = await get('/api/forecast?latitude=13&longitude=20');
+    assert.equal(retried.status, 200);
+    assert.equal(upstream.requests.length, 2);
+  });
+});
+
+describe('briefing without a Gemini key', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startApp(testConfig());
+  });
+
+  after(() => app.close());
+
+  const post = (body: unknown) =>
+    fetch(`${app.url}/api/briefing`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('streams a fallback briefing in the requested language and units', async () => {
+    const res = await post({ ...TELEMETRY, language: 'hi', units: { ...TELEMETRY.units, temperature: 'fahrenheit' } });
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get('content-type') ?? '', /application\/x-ndjson/);
+    const events = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+    assert.equal(events.length, 1);
+    const [done] = events;
+    assert.equal(done.type, 'done');
+    assert.equal(done.cached, false);
+    assert.equal(done.briefing.source, 'fallback');
+    assert.match(done.briefing.summary, /79°F/);
+    assert.match(done.briefing.summary, /हल्की बारिश/);
+  });
+
+  it('rejects telemetry without numeric readings', async () => {
+    const res = await post({ ...TELEMETRY, temp: '24' });
+    assert.equal(res.status, 400);
+  });
+
+  it('rejects location and condition text too long for the prompt', async () => {
+    assert.equal((await post({ ...TELEMETRY, location: 'Pune '.repeat(41) })).status, 400);
+    assert.equal((await post({ ...TELEMETRY, condition: 'x'.repeat(201) })).status, 400);
+  });
+});
+
+describe('briefing rate limit', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startApp(testConfig({ RATE_LIMIT_BRIEFING: '2' }));
+  });
+
+  after(() => app.close());
+
+  it('answers 429 with Retry-After once a client has used its briefings for the minute', async () => {
+    const send = () =>
+      fetch(`${app.url}/api/briefing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(TELEMETRY),
+      });
+    assert.equal((await send()).status, 200);
+    assert.equal((await send()).status, 200);
+    const limited = await send();
+    assert.equal(limited.status, 429);
+    const retryAfter = Number(limited.headers.get('retry-after'));
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+  });
+});
+
+describe('rate limits behind a proxy', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startApp(testConfig({ TRUST_PROXY: '1', RATE_LIMIT_BRIEFING: '1' }));
+  });
+
+  after(() => app.close());
+
+  const send = (client: string) =>
+    fetch(`${app.url}/api/briefing`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': client },
+      body: JSON.stringify(TELEMETRY),
+    });
+
+  it('counts each forwarded client address separately', async () => {
+    assert.equal((await send('203.0.113.7')).status, 200);
+    assert.equal((await send('198.51.100.23')).status, 200);
+    assert.equal((await send('203.0.113.7')).status, 429);
+  });
+});
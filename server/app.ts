@@ -0,0 +1,151 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import type { ServerConfig } from './config.ts';
+import { openDatabase } from './db.ts';
+import { createResponseCache } from './cache.ts';
+import { fetchJson, UpstreamError } from './upstream.ts';
+import { asyncHandler, badRequest, parseCoordinate, rateLimit } from './http.ts';
+import { createFavouritesRouter } from './favourites.ts';
+import { createArchiveRouter } from './archive.ts';
+import { createWeatherSource } from './weather.ts';
+import { createGeminiClient } from './gemini.ts';
+import { createBriefingService, parseBriefingTelemetry } from './briefing.ts';
+import { createChatService, parseChatRequest } from './chat.ts';
+import { createBriefingScheduler } from './scheduler.ts';
+import { createSubscriptionsRouter } from './subscriptions.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+// `now` is the clock for cache lifetimes and the briefing schedule; tests pass a fake one
+export const createApp = (config: ServerConfig, now: () => number = Date.now) => {
+  const db = openDatabase(config.databasePath);
+  const cache = createResponseCache(db, now);
+  const weather = createWeatherSource(config, cache);
+  const ai = createGeminiClient(config);
+  const briefings = createBriefingService(config, cache, ai);
+  const chat = createChatService(config, ai);
+  // Started by server.ts, so building the app never sets timers running
+  const scheduler = createBriefingScheduler(config, db, weather, briefings, now);
+
+  const app = express();
+  // Without it every client behind the proxy shares the proxy's address, and with it one rate-limit window
+  app.set('trust proxy', config.trustProxy);
+
+  // Registered ahead of the global body parser: conversations carry tool results and outgrow its limit.
+  // Every step spends the server's Gemini key, so steps are rate limited and conversations stay small.
+  app.post('/api/chat', rateLimit(config.rateLimit.chat, 60, now), express.json({ limit: '128kb' }), asyncHandler(async (req, res) => {
+    const request = parseChatRequest(req.body);
+    if (!request) return badRequest(res, 'Chat requires a conversation ending with a user turn.');
+    res.json({ turn: await chat.reply(request.turns, request.context) });
+  }));
+
+  app.use(express.json({ limit: '32kb' }));
+
+  app.get('/api/geocode', asyncHandler(async (req, res) => {
+    const name = String(req.query.name ?? '').trim();
+    if (!name) return badRequest(res, 'Query parameter "name" is required.');
+    const count = Math.min(Math.max(Number(req.query.count) || 1, 1), 20);
+    const language = String(req.query.language || 'en');
+
+    const params = new URLSearchParams({ name, count: String(count), language, format: 'json' });
+    const data = await cache.wrap(`geocode:${params}`, config.ttl.geocode, () =>
+      fetchJson(`${config.geocodingApiUrl}/v1/search?${params}`)
+    );
+    res.json(data);
+  }));
+
+  // Nominatim answers are reshaped into the Open-Meteo geocoding format so the client parses one shape
+  app.get('/api/reverse-geocode', asyncHandler(async (req, res) => {
+    const latitude = parseCoordinate(req.query.latitude, 90);
+    const longitude = parseCoordinate(req.query.longitude, 180);
+    if (latitude === null || longitude === null) {
+      return badRequest(res, 'Valid "latitude" and "longitude" query parameters are required.');
+    }
+    const language = String(req.query.language || 'en');
+
+    const params = new URLSearchParams({
+      lat: latitude.toFixed(4),
+      lon: longitude.toFixed(4),
+      format: 'jsonv2',
+      zoom: '10',
+      'accept-language': language,
+    });
+    const data = await cache.wrap(`reverse-geocode:${params}`, config.ttl.geocode, async () => {
+      const place = await fetchJson(`${config.reverseGeocodingApiUrl}/reverse?${params}`, {
+        headers: { 'User-Agent': 'AmarsipahiWeather/2.0' },
+      });
+      const address = isRecord(place) && isRecord(place.address) ? place.address : {};
+      const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+      const name = text(address.city) ?? text(address.town) ?? text(address.village) ?? text(address.hamlet) ??
+        text(address.county) ?? (isRecord(place) ? text(place.name) : undefined);
+      if (!name) return { results: [] };
+      return {
+        results: [{
+          name,
+          latitude,
+          longitude,
+          admin1: text(address.state),
+          country: text(address.country),
+          country_code: text(address.country_code)?.toUpperCase(),
+        }],
+      };
+    });
+    res.json(data);
+  }));
+
+  app.get('/api/forecast', asyncHandler(async (req, res) => {
+    const latitude = parseCoordinate(req.query.latitude, 90);
+    const longitude = parseCoordinate(req.query.longitude, 180);
+    if (latitude === null || longitude === null) {
+      return badRequest(res, 'Valid "latitude" and "longitude" query parameters are required.');
+    }
+    res.json(await weather.forecast(latitude, longitude));
+  }));
+
+  app.get('/api/air-quality', asyncHandler(async (req, res) => {
+    const latitude = parseCoordinate(req.query.latitude, 90);
+    const longitude = parseCoordinate(req.query.longitude, 180);
+    if (latitude === null || longitude === null) {
+      return badRequest(res, 'Valid "latitude" and "longitude" query parameters are required.');
+    }
+    res.json(await weather.airQuality(latitude, longitude));
+  }));
+
+  // Streams newline-delimited JSON: {type:'chunk', text} while the model writes, then {type:'done', briefing, cached}
+  app.post('/api/briefing', rateLimit(config.rateLimit.briefing, 60, now), asyncHandler(async (req, res) => {
+    const telemetry = parseBriefingTelemetry(req.body);
+    if (!telemetry) return badRequest(res, 'Briefing requires location, condition and numeric telemetry.');
+
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    const send = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+
+    const { briefing, cached } = await briefings.getBriefing(telemetry, (text) => send({ type: 'chunk', text }));
+    send({ type: 'done', briefing, cached });
+    res.end();
+  }));
+
+  app.use('/api/archive', createArchiveRouter(config, cache));
+  app.use('/api/favourites', createFavouritesRouter(db));
+  app.use('/api/subscriptions', createSubscriptionsRouter(config, db, scheduler, now));
+
+  app.use('/api', (_req: Request, res: Response) => {
+    res.status(404).json({ error: 'Unknown API route.' });
+  });
+
+  app.use('/api', (err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof UpstreamError) {
+      if (err.retryAfter !== undefined) res.setHeader('Retry-After', String(err.retryAfter));
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    // Body-parser rejections: malformed JSON (400) or a body over the route's limit (413)
+    const status = (err as { status?: unknown }).status;
+    if (typeof status === 'number' && status >= 400 && status < 500) {
+      res.status(status).json({ error: status === 413 ? 'Request body too large.' : 'Malformed request body.' });
+      return;
+    }
+    console.error('Unhandled API error:', err);
+    res.status(500).json({ error: 'Internal server error.' });
+  });
+
+  return { app, db, scheduler };
+};
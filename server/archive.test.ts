@@ -0,0 +1,49 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'timers/promises';
+import { startApp, startStandIn, testConfig, type StandIn, type TestApp } from './testing.ts';
+
+describe('same-day archive', () => {
+  let upstream: StandIn;
+  let app: TestApp;
+  let inFlight = 0;
+  let peak = 0;
+
+  before(async () => {
+    upstream = await startStandIn(async (request) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await delay(20);
+      inFlight--;
+      const date = new URL(request.url, 'http://stand-in').searchParams.get('start_date') ?? '';
+      return { body: { timezone: 'Asia/Kolkata', daily: { time: [date], temperature_2m_max: [Number(date.slice(0, 4)) - 1990] } } };
+    });
+    app = await startApp(testConfig({ ARCHIVE_API_URL: upstream.url }));
+  });
+
+  after(async () => {
+    await app.close();
+    await upstream.close();
+  });
+
+  it('fetches one day per year a few at a time and merges them in order', async () => {
+    const res = await fetch(`${app.url}/api/archive/same-day?latitude=18.52&longitude=73.86&date=2026-02-29&years=12`);
+    assert.equal(res.status, 400);
+
+    const ok = await fetch(`${app.url}/api/archive/same-day?latitude=18.52&longitude=73.86&date=2026-10-19&years=12`);
+    assert.equal(ok.status, 200);
+    const body = await ok.json();
+    assert.equal(upstream.requests.length, 12);
+    assert.ok(peak <= 4, `peak concurrency ${peak}`);
+    assert.equal(body.timezone, 'Asia/Kolkata');
+    assert.deepEqual(body.daily.time, Array.from({ length: 12 }, (_, idx) => `${2014 + idx}-10-19`));
+    assert.deepEqual(body.daily.temperature_2m_max, Array.from({ length: 12 }, (_, idx) => 24 + idx));
+  });
+
+  it('falls back to 28 February in years without a leap day', async () => {
+    upstream.requests.length = 0;
+    const res = await fetch(`${app.url}/api/archive/same-day?latitude=18.52&longitude=73.86&date=2024-02-29&years=4`);
+    const { daily } = await res.json();
+    assert.deepEqual(daily.time, ['2020-02-29', '2021-02-28', '2022-02-28', '2023-02-28']);
+  });
+});
@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import type { ServerConfig } from './config.ts';
+import type { ResponseCache } from './cache.ts';
+import { fetchJson } from './upstream.ts';
+import { asyncHandler, badRequest, parseCoordinate } from './http.ts';
+import { FIRST_ARCHIVE_DATE } from '../src/lib/history.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+const ARCHIVE_DAILY_FIELDS = [
+  'weather_code', 'temperature_2m_max', 'temperature_2m_min', 'temperature_2m_mean',
+  'precipitation_sum', 'wind_speed_10m_max',
+].join(',');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 366;
+const MAX_YEARS = 30;
+// Same-day lookups are one archive request per year; at most this many run against the upstream at once
+const SAME_DAY_CONCURRENCY = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Recent days are still being filled in by the reanalysis, so ranges touching them expire like forecasts
+const SETTLED_AFTER_DAYS = 7;
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value ? null : time;
+};
+
+const isLeapYear = (year: number) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+// Like Promise.all over `items.map(task)`, with no more than `limit` tasks pending at a time
+const mapLimited = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>) => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      results[idx] = await task(items[idx]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Daily archive history, plus the same calendar day across past years for climate comparisons
+export const createArchiveRouter = (config: ServerConfig, cache: ResponseCache) => {
+  const fetchDaily = (latitude: number, longitude: number, startDate: string, endDate: string) => {
+    const params = new URLSearchParams({
+      latitude: latitude.toFixed(4),
+      longitude: longitude.toFixed(4),
+      start_date: startDate,
+      end_date: endDate,
+      daily: ARCHIVE_DAILY_FIELDS,
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      wind_speed_unit: 'kmh',
+    });
+    const settled = Date.parse(`${endDate}T00:00:00Z`) < Date.now() - SETTLED_AFTER_DAYS * DAY_MS;
+    return cache.wrap(`archive:${params}`, settled ? config.ttl.archive : config.ttl.forecast, () =>
+      fetchJson(`${config.archiveApiUrl}/v1/archive?${params}`)
+    );
+  };
+
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const latitude = parseCoordinate(req.query.latitude, 90);
+    const longitude = parseCoordinate(req.query.longitude, 180);
+    if (latitude === null || longitude === null) {
+      return badRequest(res, 'Valid "latitude" and "longitude" query parameters are required.');
+    }
+    const start = parseDate(req.query.start_date);
+    const end = parseDate(req.query.end_date);
+    if (start === null || end === null) return badRequest(res, '"start_date" and "end_date" must be YYYY-MM-DD dates.');
+    if (start > end) return badRequest(res, '"start_date" must not be after "end_date".');
+    if (start < Date.parse(`${FIRST_ARCHIVE_DATE}T00:00:00Z`) || end > Date.now() + DAY_MS) {
+      return badRequest(res, `Archive data covers ${FIRST_ARCHIVE_DATE} up to today.`);
+    }
+    if ((end - start) / DAY_MS >= MAX_RANGE_DAYS) return badRequest(res, `Ranges are limited to ${MAX_RANGE_DAYS} days.`);
+
+    res.json(await fetchDaily(latitude, longitude, String(req.query.start_date), String(req.query.end_date)));
+  }));
+
+  // One archive day per past year, merged into a single daily series (29 February falls back to the 28th).
+  // Single days rather than one decades-long range, so each year is cached on its own whatever `years` is asked for.
+  router.get('/same-day', asyncHandler(async (req, res) => {
+    const latitude = parseCoordinate(req.query.latitude, 90);
+    const longitude = parseCoordinate(req.query.longitude, 180);
+    if (latitude === null || longitude === null) {
+      return badRequest(res, 'Valid "latitude" and "longitude" query parameters are required.');
+    }
+    const date = String(req.query.date ?? '');
+    if (parseDate(date) === null) return badRequest(res, '"date" must be a YYYY-MM-DD date.');
+    const years = Math.min(Math.max(Number(req.query.years) || 10, 1), MAX_YEARS);
+
+    const [year, month, day] = date.split('-').map(Number);
+    const dates = Array.from({ length: years }, (_, idx) => {
+      const past = year - years + idx;
+      const pastDay = month === 2 && day === 29 && !isLeapYear(past) ? 28 : day;
+      return `${past}-${String(month).padStart(2, '0')}-${String(pastDay).padStart(2, '0')}`;
+    }).filter((past) => past >= FIRST_ARCHIVE_DATE);
+
+    const answers = await mapLimited(dates, SAME_DAY_CONCURRENCY, (past) => fetchDaily(latitude, longitude, past, past));
+    const daily: Record<string, unknown[]> = {};
+    for (const answer of answers) {
+      if (!isRecord(answer) || !isRecord(answer.daily)) continue;
+      for (const [field, series] of Object.entries(answer.daily)) {
+        if (Array.isArray(series)) (daily[field] ??= []).push(...series);
+      }
+    }
+    const [first] = answers;
+    res.json({ timezone: isRecord(first) ? first.timezone : undefined, daily });
+  }));
+
+  return router;
+};
@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import type { GoogleGenAI } from '@google/genai';
+import type { ServerConfig } from './config.ts';
+import type { ResponseCache } from './cache.ts';
+import { fallbackBriefing, streamBriefing, type BriefingTelemetry } from './gemini.ts';
+import { normalizeUnitPreferences } from '../src/lib/units.ts';
+import { isBriefingProfile, type AiBriefing, type BriefingAirQuality } from '../src/lib/briefing.ts';
+import { isPollenType } from '../src/lib/airQuality.ts';
+import { createTranslator, DEFAULT_LOCALE, isLocale } from '../src/lib/i18n.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+const parseAirQuality = (raw: unknown): BriefingAirQuality | null => {
+  if (!isRecord(raw)) return null;
+  const reading = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+  const airQuality = {
+    europeanAqi: reading(raw.europeanAqi),
+    usAqi: reading(raw.usAqi),
+    pm25: reading(raw.pm25),
+    pollen: isPollenType(raw.pollen) ? raw.pollen : null,
+  };
+  return airQuality.europeanAqi === null && airQuality.usAqi === null ? null : airQuality;
+};
+
+// Location and condition go into the prompt verbatim; real place labels and WMO names are far shorter
+const MAX_LABEL_LENGTH = 200;
+
+const isLabel = (value: unknown): value is string => typeof value === 'string' && value.length <= MAX_LABEL_LENGTH;
+
+// Validates a telemetry payload; returns null when it is unusable
+export const parseBriefingTelemetry = (body: unknown): BriefingTelemetry | null => {
+  if (!isRecord(body)) return null;
+  const { location, condition, weatherCode, temp, feelsLike, humidity, windSpeed, uvIndex } = body;
+  if (!isLabel(location) || !isLabel(condition) ||
+      typeof temp !== 'number' || typeof feelsLike !== 'number' || typeof humidity !== 'number' ||
+      typeof windSpeed !== 'number' || typeof uvIndex !== 'number') {
+    return null;
+  }
+  return {
+    location,
+    condition,
+    weatherCode: typeof weatherCode === 'number' && Number.isInteger(weatherCode) ? weatherCode : null,
+    temp,
+    feelsLike,
+    humidity,
+    windSpeed,
+    uvIndex,
+    units: normalizeUnitPreferences(body.units),
+    profile: isBriefingProfile(body.profile) ? body.profile : 'general',
+    language: isLocale(body.language) ? body.language : DEFAULT_LOCALE,
+    airQuality: parseAirQuality(body.airQuality),
+  };
+};
+
+export interface BriefingResult {
+  briefing: AiBriefing;
+  cached: boolean;
+}
+
+export interface BriefingService {
+  // `onText` receives raw model output as it streams; cached and fallback briefings skip it
+  getBriefing(telemetry: BriefingTelemetry, onText?: (chunk: string) => void): Promise<BriefingResult>;
+}
+
+// Briefings are cached by a hash of model + telemetry, so an unchanged reading never costs a model call
+export const createBriefingService = (config: ServerConfig, cache: ResponseCache, ai: GoogleGenAI | null): BriefingService => {
+  const cacheKey = (telemetry: BriefingTelemetry) =>
+    `briefing:${createHash('sha256').update(JSON.stringify([config.geminiModel, telemetry])).digest('hex')}`;
+
+  const getBriefing = async (
+    telemetry: BriefingTelemetry,
+    onText: (chunk: string) => void = () => {}
+  ): Promise<BriefingResult> => {
+    if (!ai) {
+      return { briefing: fallbackBriefing(telemetry, createTranslator(telemetry.language)('briefing.missingKey')), cached: false };
+    }
+
+    const key = cacheKey(telemetry);
+    const cached = cache.get<AiBriefing>(key);
+    if (cached) return { briefing: cached, cached: true };
+
+    try {
+      const briefing = await streamBriefing(ai, config.geminiModel, telemetry, onText);
+      // Only real model output is worth keeping; fallbacks are cheap to rebuild
+      cache.set(key, briefing, config.ttl.briefing);
+      return { briefing, cached: false };
+    } catch (aiErr) {
+      console.error("AI Generation failed:", aiErr);
+      return { briefing: fallbackBriefing(telemetry), cached: false };
+    }
+  };
+
+  return { getBriefing };
+};
@@ -0,0 +1,41 @@
+import type { Db } from './db.ts';
+
+export interface ResponseCache {
+  get<T>(key: string): T | undefined;
+  set(key: string, value: unknown, ttlSeconds: number): void;
+  // Returns the cached value, or computes, stores and returns a fresh one
+  wrap<T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<T>;
+}
+
+export const createResponseCache = (db: Db, now: () => number = Date.now): ResponseCache => {
+  const selectEntry = db.prepare('SELECT body, expires_at FROM response_cache WHERE key = ?');
+  const upsertEntry = db.prepare(
+    'INSERT INTO response_cache (key, body, expires_at) VALUES (?, ?, ?) ' +
+    'ON CONFLICT(key) DO UPDATE SET body = excluded.body, expires_at = excluded.expires_at'
+  );
+  const deleteEntry = db.prepare('DELETE FROM response_cache WHERE key = ?');
+
+  const get = <T>(key: string): T | undefined => {
+    const row = selectEntry.get(key) as { body: string; expires_at: number } | undefined;
+    if (!row) return undefined;
+    if (row.expires_at <= now()) {
+      deleteEntry.run(key);
+      return undefined;
+    }
+    return JSON.parse(row.body) as T;
+  };
+
+  const set = (key: string, value: unknown, ttlSeconds: number) => {
+    upsertEntry.run(key, JSON.stringify(value), now() + ttlSeconds * 1000);
+  };
+
+  const wrap = async <T>(key: string, ttlSeconds: number, load: () => Promise<T>) => {
+    const cached = get<T>(key);
+    if (cached !== undefined) return cached;
+    const fresh = await load();
+    set(key, fresh, ttlSeconds);
+    return fresh;
+  };
+
+  return { get, set, wrap };
+};
@@ -0,0 +1,128 @@
+import { Type, type FunctionDeclaration, type GoogleGenAI } from '@google/genai';
+import type { ServerConfig } from './config.ts';
+import { UpstreamError } from './upstream.ts';
+import { normalizeChatTurns, type ChatContext, type ChatToolName, type ChatTurn } from '../src/lib/chat.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+// Conversations longer than this are trimmed from the front; the first turn must stay a user turn.
+// Sixteen turns hold the last few questions with their tool calls, which is all the assistant needs.
+const MAX_TURNS = 16;
+
+const COORDINATE_PARAMETERS = {
+  type: Type.OBJECT,
+  properties: {
+    latitude: { type: Type.NUMBER, description: 'Latitude in decimal degrees.' },
+    longitude: { type: Type.NUMBER, description: 'Longitude in decimal degrees.' },
+    label: { type: Type.STRING, description: 'Human-readable name of the place, if known.' },
+  },
+  required: ['latitude', 'longitude'],
+};
+
+// The tools run in the browser, through the same fetching code as the main weather view
+const CHAT_TOOLS: (FunctionDeclaration & { name: ChatToolName })[] = [
+  {
+    name: 'search_locations',
+    description: 'Find places by name and return their coordinates. Use this before fetching weather for a named place.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: 'Place name, e.g. "Pune" or "Springfield, Illinois".' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'get_current_conditions',
+    description: 'Current observed conditions at a coordinate.',
+    parameters: COORDINATE_PARAMETERS,
+  },
+  {
+    name: 'get_hourly_forecast',
+    description: 'Hourly forecast for the next 48 hours at a coordinate, in the local time of the place.',
+    parameters: COORDINATE_PARAMETERS,
+  },
+  {
+    name: 'get_daily_forecast',
+    description: 'Daily forecast for the next 7 days at a coordinate, in the local time of the place.',
+    parameters: COORDINATE_PARAMETERS,
+  },
+];
+
+const buildSystemInstruction = (context: ChatContext) => {
+  const units = Object.values(context.units).join(', ');
+  const focus = context.location
+    ? `The user is currently viewing ${context.location.label} (${context.location.latitude}, ${context.location.longitude}); "here" refers to it.`
+    : 'The user has not selected a location yet.';
+  return `You are the conversational core of "Amarsipahi Weather", an advanced meteorological system.
+  Answer questions about weather using the tools; never guess values you have not fetched. ${focus}
+  The user's clock reads ${context.now}. Tool results are already in the user's units (${units}); quote them as given.
+  Forecast times are local to each place. Be concise, precise and practical.`;
+};
+
+// Validates a chat request; returns null when it is unusable
+export const parseChatRequest = (body: unknown): { turns: ChatTurn[]; context: ChatContext } | null => {
+  const request = isRecord(body) ? body : {};
+  let turns = normalizeChatTurns(request.turns);
+  if (turns.length > MAX_TURNS) {
+    turns = turns.slice(-MAX_TURNS);
+    while (turns.length > 0 && (turns[0].role !== 'user' || turns[0].parts.some((part) => part.functionResponse))) {
+      turns.shift();
+    }
+  }
+  if (turns.length === 0 || turns[turns.length - 1].role !== 'user') return null;
+
+  const raw = isRecord(request.context) ? request.context : {};
+  const { label, latitude, longitude } = isRecord(raw.location) ? raw.location : {};
+  const location = typeof label === 'string' &&
+    typeof latitude === 'number' && Number.isFinite(latitude) && typeof longitude === 'number' && Number.isFinite(longitude)
+    ? { label, latitude, longitude }
+    : undefined;
+  const units = isRecord(raw.units) ? raw.units : {};
+  const unit = (key: keyof ChatContext['units'], fallback: string) => {
+    const value = units[key];
+    return typeof value === 'string' ? value : fallback;
+  };
+
+  return {
+    turns,
+    context: {
+      location,
+      units: {
+        temperature: unit('temperature', '°C'),
+        wind: unit('wind', 'km/h'),
+        pressure: unit('pressure', 'hPa'),
+        precipitation: unit('precipitation', 'mm'),
+      },
+      now: typeof raw.now === 'string' ? raw.now : new Date().toISOString(),
+    },
+  };
+};
+
+export const createChatService = (config: ServerConfig, ai: GoogleGenAI | null) => {
+  // One model step: the reply is either text or function calls for the client to run
+  const reply = async (turns: ChatTurn[], context: ChatContext): Promise<ChatTurn> => {
+    if (!ai) throw new UpstreamError('AI assistant offline - missing API key.', 503);
+
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model: config.geminiModel,
+        contents: turns,
+        config: {
+          systemInstruction: buildSystemInstruction(context),
+          tools: [{ functionDeclarations: CHAT_TOOLS }],
+        },
+      });
+    } catch (err) {
+      throw new UpstreamError(`Gemini request failed: ${(err as Error).message}`);
+    }
+
+    // Thought summaries are not part of the conversation the user sees
+    const parts = (response.candidates?.[0]?.content?.parts ?? []).filter((part) => !part.thought);
+    const [turn] = normalizeChatTurns([{ role: 'model', parts }]);
+    if (!turn) throw new UpstreamError('Gemini returned an empty reply.');
+    return turn;
+  };
+
+  return { reply };
+};
@@ -0,0 +1,100 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// `.env.local` holds the developer's own secrets and wins over the shared `.env`
+dotenv.config({ path: ['.env.local', '.env'] });
+
+// Upstream hosts are configurable so the backend can be pointed at a local stand-in
+export interface ServerConfig {
+  port: number;
+  // Express `trust proxy`: which proxies' X-Forwarded-For to believe, so rate limits see the client address
+  trustProxy: boolean | number | string;
+  databasePath: string;
+  geminiApiKey: string;
+  geminiBaseUrl?: string;
+  geminiModel: string;
+  geocodingApiUrl: string;
+  reverseGeocodingApiUrl: string;
+  forecastApiUrl: string;
+  archiveApiUrl: string;
+  airQualityApiUrl: string;
+  // Cache lifetimes per endpoint, in seconds
+  ttl: {
+    geocode: number;
+    forecast: number;
+    briefing: number;
+    archive: number;
+  };
+  // Requests per minute from one client address, for endpoints that spend the Gemini key
+  rateLimit: {
+    chat: number;
+    briefing: number;
+    // Test deliveries, which also post to the subscriber's webhook
+    webhookTest: number;
+    // New subscriptions, each of which is a daily Gemini call and webhook post
+    subscriptions: number;
+  };
+  // Scheduled briefings posted to subscribers' webhooks
+  webhooks: {
+    // Seconds between scheduler passes over due subscriptions and pending retries
+    pollInterval: number;
+    // Per-request timeout, in milliseconds
+    timeout: number;
+    maxAttempts: number;
+    // Seconds before the first retry; each further retry waits twice as long
+    retryDelay: number;
+    // Host names exempt from the private address check, e.g. a receiver on the same network
+    allowedHosts: string[];
+    // Caps on stored subscriptions, in total and per webhook host
+    maxSubscriptions: number;
+    maxPerHost: number;
+  };
+}
+
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// "true"/"false", a hop count, or addresses and subnets as Express takes them ("loopback", "10.0.0.0/8")
+const readTrustProxy = (value: string | undefined): ServerConfig['trustProxy'] => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: readNumber(env.PORT, 3000),
+  trustProxy: readTrustProxy(env.TRUST_PROXY?.trim()),
+  // ":memory:" is SQLite's name for a throwaway in-memory database, not a file path
+  databasePath: env.DATABASE_PATH === ':memory:' ? ':memory:' : path.resolve(env.DATABASE_PATH || 'data/amarsipahi.db'),
+  geminiApiKey: env.GEMINI_API_KEY && env.GEMINI_API_KEY !== 'undefined' ? env.GEMINI_API_KEY : '',
+  geminiBaseUrl: env.GEMINI_BASE_URL || undefined,
+  geminiModel: env.GEMINI_MODEL || 'gemini-3.1-pro-preview',
+  geocodingApiUrl: env.GEOCODING_API_URL || 'https://geocoding-api.open-meteo.com',
+  reverseGeocodingApiUrl: env.REVERSE_GEOCODING_API_URL || 'https://nominatim.openstreetmap.org',
+  forecastApiUrl: env.FORECAST_API_URL || 'https://api.open-meteo.com',
+  archiveApiUrl: env.ARCHIVE_API_URL || 'https://archive-api.open-meteo.com',
+  airQualityApiUrl: env.AIR_QUALITY_API_URL || 'https://air-quality-api.open-meteo.com',
+  ttl: {
+    geocode: readNumber(env.CACHE_TTL_GEOCODE, 60 * 60 * 24 * 7),
+    forecast: readNumber(env.CACHE_TTL_FORECAST, 60 * 10),
+    briefing: readNumber(env.CACHE_TTL_BRIEFING, 60 * 30),
+    archive: readNumber(env.CACHE_TTL_ARCHIVE, 60 * 60 * 24 * 30),
+  },
+  rateLimit: {
+    chat: readNumber(env.RATE_LIMIT_CHAT, 30),
+    briefing: readNumber(env.RATE_LIMIT_BRIEFING, 20),
+    webhookTest: readNumber(env.RATE_LIMIT_WEBHOOK_TEST, 5),
+    subscriptions: readNumber(env.RATE_LIMIT_SUBSCRIPTIONS, 5),
+  },
+  webhooks: {
+    pollInterval: readNumber(env.WEBHOOK_POLL_INTERVAL, 30),
+    timeout: readNumber(env.WEBHOOK_TIMEOUT_MS, 10_000),
+    maxAttempts: readNumber(env.WEBHOOK_MAX_ATTEMPTS, 5),
+    retryDelay: readNumber(env.WEBHOOK_RETRY_DELAY, 60),
+    allowedHosts: (env.WEBHOOK_ALLOWED_HOSTS ?? '').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean),
+    maxSubscriptions: readNumber(env.WEBHOOK_MAX_SUBSCRIPTIONS, 1000),
+    maxPerHost: readNumber(env.WEBHOOK_MAX_PER_HOST, 20),
+  },
+});
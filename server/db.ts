@@ -0,0 +1,66 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type Db = InstanceType<typeof Database>;
+
+// Opens the SQLite database and brings the schema up to date
+export const openDatabase = (databasePath: string): Db => {
+  if (databasePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  }
+
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS response_cache (
+      key TEXT PRIMARY KEY,
+      body TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS saved_locations (
+      sync_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      location TEXT NOT NULL,
+      PRIMARY KEY (sync_id, position)
+    );
+
+    -- send_time is "HH:MM" in the subscription's time zone; last_scheduled_on is the local date
+    -- of the most recent scheduled delivery, so each day is sent at most once
+    CREATE TABLE IF NOT EXISTS briefing_subscriptions (
+      id TEXT PRIMARY KEY,
+      location TEXT NOT NULL,
+      send_time TEXT NOT NULL,
+      time_zone TEXT NOT NULL,
+      webhook_url TEXT NOT NULL,
+      format TEXT NOT NULL,
+      profile TEXT NOT NULL,
+      units TEXT NOT NULL,
+      language TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_scheduled_on TEXT
+    );
+
+    -- One row per delivery (scheduled or test), updated after every attempt
+    CREATE TABLE IF NOT EXISTS briefing_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      subscription_id TEXT NOT NULL REFERENCES briefing_subscriptions (id) ON DELETE CASCADE,
+      kind TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER,
+      response_status INTEGER,
+      error TEXT,
+      payload TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS briefing_deliveries_pending ON briefing_deliveries (status, next_attempt_at);
+  `);
+
+  return db;
+};
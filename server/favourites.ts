@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import type { Db } from './db.ts';
+import { asyncHandler, badRequest } from './http.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+const SYNC_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const MAX_LOCATIONS = 50;
+
+const isValidEntry = (entry: unknown) =>
+  isRecord(entry) &&
+  typeof entry.id === 'string' &&
+  typeof entry.label === 'string' && entry.label.length <= 200 &&
+  isRecord(entry.location) &&
+  typeof entry.location.name === 'string' &&
+  Number.isFinite(entry.location.latitude) &&
+  Number.isFinite(entry.location.longitude);
+
+// Saved-location sync: a device-generated sync code owns an ordered list of favourites
+export const createFavouritesRouter = (db: Db) => {
+  const selectLocations = db.prepare('SELECT location FROM saved_locations WHERE sync_id = ? ORDER BY position');
+  const deleteLocations = db.prepare('DELETE FROM saved_locations WHERE sync_id = ?');
+  const insertLocation = db.prepare('INSERT INTO saved_locations (sync_id, position, location) VALUES (?, ?, ?)');
+  const replaceLocations = db.transaction((syncId: string, locations: unknown[]) => {
+    deleteLocations.run(syncId);
+    locations.forEach((location, position) => insertLocation.run(syncId, position, JSON.stringify(location)));
+  });
+
+  const router = Router();
+
+  router.get('/:syncId', asyncHandler(async (req, res) => {
+    const { syncId } = req.params;
+    if (!SYNC_ID_PATTERN.test(syncId)) return badRequest(res, 'Invalid sync code.');
+    const rows = selectLocations.all(syncId) as { location: string }[];
+    res.json({ locations: rows.map((row) => JSON.parse(row.location)) });
+  }));
+
+  router.put('/:syncId', asyncHandler(async (req, res) => {
+    const { syncId } = req.params;
+    if (!SYNC_ID_PATTERN.test(syncId)) return badRequest(res, 'Invalid sync code.');
+    const locations = req.body?.locations;
+    if (!Array.isArray(locations) || locations.length > MAX_LOCATIONS || !locations.every(isValidEntry)) {
+      return badRequest(res, `Expected "locations" to be a list of at most ${MAX_LOCATIONS} saved locations.`);
+    }
+    replaceLocations(syncId, locations);
+    res.json({ locations });
+  }));
+
+  return router;
+};
@@ -0,0 +1,222 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startApp, startStandIn, testConfig, type RecordedRequest, type StandIn, type StandInReply, type TestApp } from './testing.ts';
+
+const MODEL = 'gemini-test';
+
+const TELEMETRY = {
+  location: 'Pune, Maharashtra, India',
+  condition: 'Slight Rain',
+  weatherCode: 61,
+  temp: 24.3,
+  feelsLike: 26.1,
+  humidity: 81,
+  windSpeed: 12.4,
+  uvIndex: 3.2,
+  units: { temperature: 'celsius', wind: 'kmh', pressure: 'hPa', precipitation: 'mm' },
+  profile: 'runner',
+  language: 'en',
+};
+
+const BRIEFING = {
+  summary: 'Humid, showery air over Pune. Running will feel warmer than the thermometer suggests.',
+  risks: ['Slippery roads'],
+  recommendations: ['Run before 08:00'],
+  confidence: 0.8,
+};
+
+const candidate = (parts: object[]) => ({ candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }] });
+
+// Gemini streams server-sent events, one partial response per event
+const sse = (texts: string[]): StandInReply => ({
+  headers: { 'Content-Type': 'text/event-stream' },
+  body: texts.map((text) => `data: ${JSON.stringify(candidate([{ text }]))}\r\n\r\n`).join(''),
+});
+
+const userTurn = (text: string) => ({ role: 'user', parts: [{ text }] });
+
+describe('Gemini stand-in', () => {
+  let gemini: StandIn;
+  let app: TestApp;
+  let reply: (request: RecordedRequest) => StandInReply;
+
+  before(async () => {
+    gemini = await startStandIn((request) => reply(request));
+    app = await startApp(testConfig({
+      GEMINI_API_KEY: 'test-key',
+      GEMINI_BASE_URL: gemini.url,
+      GEMINI_MODEL: MODEL,
+    }));
+  });
+
+  after(async () => {
+    await app.close();
+    await gemini.close();
+  });
+
+  beforeEach(() => {
+    gemini.requests.length = 0;
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${app.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  describe('briefing', () => {
+    it('streams model chunks and then the parsed briefing, and caches it', async () => {
+      const text = JSON.stringify(BRIEFING);
+      reply = () => sse([text.slice(0, 40), text.slice(40)]);
+
+      const res = await post('/api/briefing', TELEMETRY);
+      const events = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+      assert.deepEqual(events.filter((event) => event.type === 'chunk').map((event) => event.text).join(''), text);
+      const done = events[events.length - 1];
+      assert.equal(done.type, 'done');
+      assert.equal(done.cached, false);
+      assert.deepEqual(done.briefing, { ...BRIEFING, source: 'gemini' });
+
+      assert.equal(gemini.requests.length, 1);
+      const [request] = gemini.requests;
+      assert.match(request.url, new RegExp(`/models/${MODEL}:streamGenerateContent`));
+      assert.equal(request.headers['x-goog-api-key'], 'test-key');
+      const prompt = JSON.parse(request.body).contents[0].parts[0].text;
+      assert.match(prompt, /Pune, Maharashtra, India/);
+      assert.match(prompt, /runner/);
+      assert.match(prompt, /24°C \(feels like 26°C\)/);
+
+      const repeat = await post('/api/briefing', TELEMETRY);
+      const [cached] = (await repeat.text()).trim().split('\n').map((line) => JSON.parse(line));
+      assert.equal(cached.cached, true);
+      assert.equal(gemini.requests.length, 1);
+    });
+
+    it('falls back to a standard briefing when the model fails', async () => {
+      reply = () => ({ status: 500, body: { error: { code: 500, message: 'Internal error', status: 'INTERNAL' } } });
+      const res = await post('/api/briefing', { ...TELEMETRY, location: 'Mumbai' });
+      const events = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+      const done = events[events.length - 1];
+      assert.equal(done.briefing.source, 'fallback');
+      assert.match(done.briefing.summary, /slight rain/);
+    });
+  });
+
+  describe('chat', () => {
+    it('relays one step with the tools and the viewing context', async () => {
+      reply = () => ({ body: candidate([{ text: 'Expect showers this evening.' }]) });
+      const res = await post('/api/chat', {
+        turns: [userTurn('Will it rain here?')],
+        context: { location: { label: 'Pune', latitude: 18.52, longitude: 73.86 }, units: { temperature: '°C' }, now: '2026-10-19T09:00:00+05:30' },
+      });
+      assert.equal(res.status, 200);
+      assert.deepEqual(await res.json(), { turn: { role: 'model', parts: [{ text: 'Expect showers this evening.' }] } });
+
+      const [request] = gemini.requests;
+      assert.match(request.url, new RegExp(`/models/${MODEL}:generateContent`));
+      const body = JSON.parse(request.body);
+      assert.deepEqual(body.contents, [userTurn('Will it rain here?')]);
+      assert.deepEqual(
+        body.tools[0].functionDeclarations.map((tool: { name: string }) => tool.name),
+        ['search_locations', 'get_current_conditions', 'get_hourly_forecast', 'get_daily_forecast']
+      );
+      assert.match(body.systemInstruction.parts[0].text, /viewing Pune \(18\.52, 73\.86\)/);
+    });
+
+    it('passes function calls back and drops thought summaries', async () => {
+      reply = () => ({
+        body: candidate([
+          { text: 'Considering the location…', thought: true },
+          { functionCall: { name: 'get_daily_forecast', args: { latitude: 18.52, longitude: 73.86 } }, thoughtSignature: 'c2ln' },
+        ]),
+      });
+      const res = await post('/api/chat', { turns: [userTurn('Weekend outlook?')] });
+      const { turn } = await res.json();
+      assert.deepEqual(turn.parts, [{
+        functionCall: { name: 'get_daily_forecast', args: { latitude: 18.52, longitude: 73.86 } },
+        thoughtSignature: 'c2ln',
+      }]);
+    });
+
+    it('forwards only the latest turns, starting with a user question', async () => {
+      reply = () => ({ body: candidate([{ text: 'OK' }]) });
+      const turns = Array.from({ length: 30 }, (_, idx) =>
+        idx % 2 === 0 ? userTurn(`question ${idx}`) : { role: 'model', parts: [{ text: `answer ${idx}` }] }
+      );
+      await post('/api/chat', { turns: [...turns, userTurn('last question')] });
+      const { contents } = JSON.parse(gemini.requests[0].body);
+      assert.ok(contents.length <= 16);
+      assert.equal(contents[0].role, 'user');
+      assert.deepEqual(contents[contents.length - 1], userTurn('last question'));
+    });
+
+    it('rejects conversations that do not end with a user turn', async () => {
+      const res = await post('/api/chat', { turns: [{ role: 'model', parts: [{ text: 'Hello' }] }] });
+      assert.equal(res.status, 400);
+      assert.equal(gemini.requests.length, 0);
+    });
+
+    it('rejects oversized bodies before they reach Gemini', async () => {
+      const res = await post('/api/chat', { turns: [userTurn('x'.repeat(200_000))] });
+      assert.equal(res.status, 413);
+      assert.equal(gemini.requests.length, 0);
+    });
+
+    it('reports model failures as a bad gateway', async () => {
+      reply = () => ({ status: 500, body: { error: { code: 500, message: 'Internal error', status: 'INTERNAL' } } });
+      const res = await post('/api/chat', { turns: [userTurn('Hi')] });
+      assert.equal(res.status, 502);
+    });
+  });
+});
+
+describe('chat without a Gemini key', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startApp(testConfig());
+  });
+
+  after(() => app.close());
+
+  it('answers 503', async () => {
+    const res = await fetch(`${app.url}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ turns: [userTurn('Hi')] }),
+    });
+    assert.equal(res.status, 503);
+  });
+});
+
+describe('chat rate limit', () => {
+  let gemini: StandIn;
+  let app: TestApp;
+
+  before(async () => {
+    gemini = await startStandIn(() => ({ body: candidate([{ text: 'OK' }]) }));
+    app = await startApp(testConfig({ GEMINI_API_KEY: 'test-key', GEMINI_BASE_URL: gemini.url, RATE_LIMIT_CHAT: '2' }));
+  });
+
+  after(async () => {
+    await app.close();
+    await gemini.close();
+  });
+
+  it('answers 429 with Retry-After once a client has used its steps for the minute', async () => {
+    const send = () =>
+      fetch(`${app.url}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ turns: [userTurn('Hi')] }),
+      });
+    assert.equal((await send()).status, 200);
+    assert.equal((await send()).status, 200);
+    const limited = await send();
+    assert.equal(limited.status, 429);
+    const retryAfter = Number(limited.headers.get('retry-after'));
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+    assert.equal(gemini.requests.length, 2);
+  });
+});
@@ -0,0 +1,114 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import type { ServerConfig } from './config.ts';
+import { createUnitFormatter, type UnitPreferences } from '../src/lib/units.ts';
+import {
+  BRIEFING_PROFILES, fallbackBriefing as plainBriefing, normalizeBriefing,
+  type AiBriefing, type BriefingAirQuality, type BriefingProfile,
+} from '../src/lib/briefing.ts';
+import { AQI_SCALES, getAqiCategory, POLLEN_TYPES, type AqiScale } from '../src/lib/airQuality.ts';
+import { createTranslator, LOCALES, translateCondition, type Locale } from '../src/lib/i18n.ts';
+
+// Telemetry the client sends for a briefing; mirrors the current-conditions card
+export interface BriefingTelemetry {
+  location: string;
+  condition: string;
+  // WMO code behind `condition`, so the fallback can name it in the user's language
+  weatherCode: number | null;
+  temp: number;
+  feelsLike: number;
+  humidity: number;
+  windSpeed: number;
+  uvIndex: number;
+  units: UnitPreferences;
+  profile: BriefingProfile;
+  // Language the briefing is written in
+  language: Locale;
+  airQuality: BriefingAirQuality | null;
+}
+
+// propertyOrdering makes the summary stream first, so the card fills in top to bottom
+const BRIEFING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two-sentence atmospheric briefing.' },
+    risks: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to three concise weather risks.' },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to three tactical recommendations.' },
+    confidence: { type: Type.NUMBER, description: 'Confidence in the briefing from 0 to 1.' },
+  },
+  required: ['summary', 'risks', 'recommendations', 'confidence'],
+  propertyOrdering: ['summary', 'risks', 'recommendations', 'confidence'],
+};
+
+const describeAqi = (scale: AqiScale, value: number | null) =>
+  value === null ? null : `${AQI_SCALES[scale].label} ${Math.round(value)} (${getAqiCategory(scale, value)?.label})`;
+
+// One prompt line, or nothing when no air-quality data reached us
+const describeAirQuality = (airQuality: BriefingAirQuality | null) => {
+  if (!airQuality) return '';
+  const readings = [
+    describeAqi('european', airQuality.europeanAqi),
+    describeAqi('us', airQuality.usAqi),
+    airQuality.pm25 === null ? null : `PM2.5 ${Math.round(airQuality.pm25)} µg/m³`,
+    airQuality.pollen === null ? null : `dominant pollen ${POLLEN_TYPES[airQuality.pollen].toLowerCase()}`,
+  ].filter(Boolean).join(', ');
+  return `\n  Air quality: ${readings}. When it is moderate or worse, say who should wear a mask or limit time outdoors.`;
+};
+
+export const buildBriefingPrompt = (t: BriefingTelemetry) => {
+  const format = createUnitFormatter(t.units);
+  const profile = BRIEFING_PROFILES[t.profile];
+  return `You are the core AI of "Amarsipahi Weather", an advanced, highly intelligent meteorological system.
+  Provide a highly analytical, slightly futuristic atmospheric briefing for ${t.location}, written for ${profile.focus}.
+  Current telemetry: ${format.temperature(t.temp)} (feels like ${format.temperature(t.feelsLike)}), ${t.condition}, ${t.humidity}% humidity, wind ${format.wind(t.windSpeed)}, UV index ${t.uvIndex}.${describeAirQuality(t.airQuality)}
+  summary: 2 sentences analysing the atmosphere for this audience. risks: the specific hazards they face, empty if none.
+  recommendations: precise, tactical actions for them. confidence: how settled and predictable these conditions are.
+  Keep it professional, crisp, and intelligent. Quote every value exactly as given above, in the same units.
+  Write the summary, risks and recommendations in ${LOCALES[t.language].language}.`;
+};
+
+// `note` is appended as is, so callers pass it already translated
+export const fallbackBriefing = (t: BriefingTelemetry, note = ''): AiBriefing => {
+  const translate = createTranslator(t.language);
+  const condition = t.weatherCode === null ? t.condition : translateCondition(t.weatherCode, translate);
+  return plainBriefing(condition, createUnitFormatter(t.units, LOCALES[t.language].tag).temperature(t.feelsLike), translate, note);
+};
+
+export const createGeminiClient = (config: ServerConfig) => {
+  if (!config.geminiApiKey) {
+    console.warn("GEMINI_API_KEY is missing. AI analysis will fall back to standard text.");
+    return null;
+  }
+  return new GoogleGenAI({
+    apiKey: config.geminiApiKey,
+    httpOptions: config.geminiBaseUrl ? { baseUrl: config.geminiBaseUrl } : undefined,
+  });
+};
+
+// Streams the raw JSON text as it arrives and resolves with the parsed briefing
+export const streamBriefing = async (
+  ai: GoogleGenAI,
+  model: string,
+  telemetry: BriefingTelemetry,
+  onText: (chunk: string) => void
+): Promise<AiBriefing> => {
+  const stream = await ai.models.generateContentStream({
+    model,
+    contents: buildBriefingPrompt(telemetry),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: BRIEFING_SCHEMA,
+    },
+  });
+
+  let text = '';
+  for await (const chunk of stream) {
+    const piece = chunk.text ?? '';
+    if (!piece) continue;
+    text += piece;
+    onText(piece);
+  }
+
+  const briefing = normalizeBriefing(JSON.parse(text), 'gemini');
+  if (!briefing.summary) throw new Error('Gemini returned a briefing without a summary.');
+  return briefing;
+};
@@ -0,0 +1,42 @@
+import type { NextFunction, Request, Response } from 'express';
+
+// Express 4 does not forward rejected promises to the error handler on its own
+export const asyncHandler = (handler: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+
+export const badRequest = (res: Response, message: string) => {
+  res.status(400).json({ error: message });
+};
+
+export const parseCoordinate = (value: unknown, limit: number) => {
+  const parsed = Number(value);
+  return typeof value === 'string' && value.trim() !== '' && Math.abs(parsed) <= limit ? parsed : null;
+};
+
+// Fixed-window limit per client address; over the limit, requests get 429 with Retry-After in seconds
+export const rateLimit = (max: number, windowSeconds: number, now: () => number = Date.now) => {
+  const windows = new Map<string, { start: number; count: number }>();
+  const windowMs = windowSeconds * 1000;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const at = now();
+    // Expired windows are dropped as they are passed, so the map only holds recent clients
+    if (windows.size > 1000) {
+      for (const [key, window] of windows) if (at - window.start >= windowMs) windows.delete(key);
+    }
+    const key = req.ip ?? 'unknown';
+    let window = windows.get(key);
+    if (!window || at - window.start >= windowMs) {
+      window = { start: at, count: 0 };
+      windows.set(key, window);
+    }
+    if (++window.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((window.start + windowMs - at) / 1000)));
+      res.status(429).json({ error: 'Too many requests; try again shortly.' });
+      return;
+    }
+    next();
+  };
+};
@@ -0,0 +1,265 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeClock, startApp, startStandIn, testConfig, type StandIn, type TestApp } from './testing.ts';
+import type { Delivery } from './scheduler.ts';
+
+const FORECAST = {
+  timezone: 'Asia/Kolkata',
+  current: {
+    temperature_2m: 24.3, relative_humidity_2m: 81, apparent_temperature: 26.1, is_day: 1, precipitation: 0.2,
+    weather_code: 61, surface_pressure: 1008, wind_speed_10m: 12.4, wind_gusts_10m: 20, uv_index: 3.2,
+  },
+  hourly: { time: [1792368000], temperature_2m: [24] },
+  daily: { time: [1792348200], weather_code: [61] },
+};
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Epoch milliseconds for a wall-clock time in Asia/Kolkata, which has no daylight saving
+const ist = (dateTime: string) => Date.parse(`${dateTime}:00+05:30`);
+
+describe('briefing scheduler', () => {
+  let upstream: StandIn;
+  let receiver: StandIn;
+  let app: TestApp;
+  let clock: ReturnType<typeof fakeClock>;
+
+  before(async () => {
+    upstream = await startStandIn((request) =>
+      new URL(request.url, 'http://stand-in').pathname === '/v1/forecast' ? { body: FORECAST } : { status: 404 }
+    );
+    // "/hook" accepts every briefing, "/fail" none
+    receiver = await startStandIn((request) => (request.url === '/fail' ? { status: 500, body: 'down' } : { body: 'ok' }));
+  });
+
+  after(async () => {
+    await upstream.close();
+    await receiver.close();
+  });
+
+  beforeEach(async () => {
+    clock = fakeClock(ist('2026-10-19T06:00'));
+    receiver.requests.length = 0;
+    app = await startApp(testConfig({
+      FORECAST_API_URL: upstream.url,
+      AIR_QUALITY_API_URL: upstream.url,
+      WEBHOOK_ALLOWED_HOSTS: '127.0.0.1',
+      WEBHOOK_MAX_ATTEMPTS: '3',
+      WEBHOOK_RETRY_DELAY: '60',
+    }), clock.now);
+  });
+
+  afterEach(() => app.close());
+
+  const subscribe = async (settings: { sendTime: string; path?: string }) => {
+    const res = await fetch(`${app.url}/api/subscriptions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        location: { name: 'Pune', latitude: 18.5196, longitude: 73.8554, country: 'India' },
+        sendTime: settings.sendTime,
+        timeZone: 'Asia/Kolkata',
+        webhookUrl: `${receiver.url}${settings.path ?? '/hook'}`,
+        format: 'text',
+      }),
+    });
+    assert.equal(res.status, 201);
+    return (await res.json()).subscription.id as string;
+  };
+
+  const deliveries = async (id: string, limit = 20): Promise<Delivery[]> =>
+    (await (await fetch(`${app.url}/api/subscriptions/${id}/deliveries?limit=${limit}`)).json()).deliveries;
+
+  const tickAt = async (epochMs: number) => {
+    clock.set(epochMs);
+    await app.scheduler.tick();
+  };
+
+  it('sends once a day from the local send time on', async () => {
+    const id = await subscribe({ sendTime: '07:00' });
+
+    await tickAt(ist('2026-10-19T06:59'));
+    assert.equal(receiver.requests.length, 0);
+
+    await tickAt(ist('2026-10-19T07:00'));
+    assert.equal(receiver.requests.length, 1);
+    const [request] = receiver.requests;
+    assert.equal(request.url, '/hook');
+    assert.equal(request.headers['content-type'], 'text/plain; charset=utf-8');
+    assert.match(request.body, /Pune/);
+    assert.match(request.body, /2026-10-19 07:00/);
+
+    await tickAt(ist('2026-10-19T18:00'));
+    assert.equal(receiver.requests.length, 1);
+
+    await tickAt(ist('2026-10-20T07:01'));
+    assert.equal(receiver.requests.length, 2);
+
+    const log = await deliveries(id);
+    assert.deepEqual(log.map((delivery) => [delivery.kind, delivery.status, delivery.attempts, delivery.responseStatus]), [
+      ['scheduled', 'delivered', 1, 200],
+      ['scheduled', 'delivered', 1, 200],
+    ]);
+    assert.equal(log[0].payload?.body, receiver.requests[1].body);
+  });
+
+  it('catches up later the same day when the send time was missed', async () => {
+    await subscribe({ sendTime: '06:30' });
+    await tickAt(ist('2026-10-19T11:45'));
+    assert.equal(receiver.requests.length, 1);
+    assert.match(receiver.requests[0].body, /2026-10-19 11:45/);
+    await tickAt(ist('2026-10-19T12:00'));
+    assert.equal(receiver.requests.length, 1);
+  });
+
+  it('starts a subscription created after its send time on the next day', async () => {
+    clock.set(ist('2026-10-19T09:00'));
+    await subscribe({ sendTime: '08:00' });
+    await tickAt(ist('2026-10-19T09:01'));
+    assert.equal(receiver.requests.length, 0);
+    await tickAt(ist('2026-10-20T08:00'));
+    assert.equal(receiver.requests.length, 1);
+  });
+
+  it('retries failed deliveries with doubling delays until the attempts run out', async () => {
+    const id = await subscribe({ sendTime: '07:00', path: '/fail' });
+    const start = ist('2026-10-19T07:00');
+
+    await tickAt(start);
+    let [delivery] = await deliveries(id);
+    assert.equal(delivery.status, 'retrying');
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.responseStatus, 500);
+    assert.equal(delivery.nextAttemptAt, start + MINUTE);
+
+    await tickAt(start + MINUTE - 1);
+    assert.equal(receiver.requests.length, 1);
+
+    await tickAt(start + MINUTE);
+    [delivery] = await deliveries(id);
+    assert.equal(delivery.attempts, 2);
+    assert.equal(delivery.nextAttemptAt, start + 3 * MINUTE);
+
+    await tickAt(start + 3 * MINUTE);
+    [delivery] = await deliveries(id);
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 3);
+    assert.equal(delivery.nextAttemptAt, null);
+    assert.match(delivery.error ?? '', /HTTP 500/);
+
+    await tickAt(start + 60 * MINUTE);
+    assert.equal(receiver.requests.length, 3);
+    // Every attempt posts the payload built for the first one
+    assert.equal(new Set(receiver.requests.map((request) => request.body)).size, 1);
+  });
+
+  it('prunes finished deliveries after 30 days', async () => {
+    const id = await subscribe({ sendTime: '07:00' });
+    await tickAt(ist('2026-10-19T07:00'));
+    const [first] = await deliveries(id);
+
+    await tickAt(ist('2026-11-18T06:00'));
+    assert.deepEqual((await deliveries(id)).map((delivery) => delivery.id), [first.id]);
+
+    await tickAt(ist('2026-11-18T07:00') + MINUTE);
+    const log = await deliveries(id);
+    assert.equal(log.length, 1);
+    assert.notEqual(log[0].id, first.id);
+    assert.equal(log[0].createdAt, ist('2026-11-18T07:01'));
+  });
+
+  it('keeps the newest deliveries first and honours the limit', async () => {
+    const id = await subscribe({ sendTime: '07:00' });
+    for (let day = 0; day < 3; day++) await tickAt(ist('2026-10-19T07:00') + day * DAY);
+    const log = await deliveries(id, 2);
+    assert.equal(log.length, 2);
+    assert.ok(log[0].id > log[1].id);
+  });
+
+  describe('POST /:id/test', () => {
+    const test = async (id: string) => {
+      const res = await fetch(`${app.url}/api/subscriptions/${id}/test`, { method: 'POST' });
+      assert.equal(res.status, 200);
+      return (await res.json()).delivery as Delivery;
+    };
+
+    it('posts a briefing straight away and logs it', async () => {
+      const id = await subscribe({ sendTime: '07:00' });
+      const delivery = await test(id);
+      assert.equal(delivery.kind, 'test');
+      assert.equal(delivery.status, 'delivered');
+      assert.equal(delivery.responseStatus, 200);
+      assert.equal(receiver.requests.length, 1);
+      assert.equal(delivery.payload?.body, receiver.requests[0].body);
+      assert.deepEqual((await deliveries(id)).map(({ id: deliveryId }) => deliveryId), [delivery.id]);
+    });
+
+    it('retries a failed test like a scheduled delivery', async () => {
+      const id = await subscribe({ sendTime: '07:00', path: '/fail' });
+      const delivery = await test(id);
+      assert.equal(delivery.status, 'retrying');
+      assert.equal(delivery.nextAttemptAt, clock.now() + MINUTE);
+
+      await tickAt(clock.now() + MINUTE);
+      const [retried] = await deliveries(id);
+      assert.equal(retried.attempts, 2);
+      assert.equal(receiver.requests.length, 2);
+    });
+
+    it('answers 404 for an unknown subscription', async () => {
+      const res = await fetch(`${app.url}/api/subscriptions/00000000-0000-4000-8000-000000000000/test`, { method: 'POST' });
+      assert.equal(res.status, 404);
+    });
+  });
+});
+
+describe('subscription limits', () => {
+  let app: TestApp;
+
+  beforeEach(async () => {
+    app = await startApp(testConfig({
+      WEBHOOK_ALLOWED_HOSTS: '127.0.0.1,localhost',
+      WEBHOOK_MAX_SUBSCRIPTIONS: '3',
+      WEBHOOK_MAX_PER_HOST: '2',
+      RATE_LIMIT_SUBSCRIPTIONS: '6',
+    }));
+  });
+
+  afterEach(() => app.close());
+
+  const send = (method: string, path: string, webhookUrl: string) =>
+    fetch(`${app.url}/api/subscriptions${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        location: { name: 'Pune', latitude: 18.5196, longitude: 73.8554 },
+        sendTime: '07:00',
+        timeZone: 'Asia/Kolkata',
+        webhookUrl,
+        format: 'text',
+      }),
+    });
+
+  it('caps subscriptions per webhook host and in total', async () => {
+    assert.equal((await send('POST', '', 'http://127.0.0.1:4000/a')).status, 201);
+    const second = await send('POST', '', 'http://127.0.0.1:4000/b');
+    assert.equal(second.status, 201);
+    const sameHost = await send('POST', '', 'http://127.0.0.1:4001/c');
+    assert.equal(sameHost.status, 409);
+    assert.match((await sameHost.json()).error, /127\.0\.0\.1/);
+
+    const { subscription } = await (await send('POST', '', 'http://localhost:4000/a')).json();
+    assert.equal((await send('POST', '', 'http://localhost:4000/b')).status, 409);
+    // Moving a subscription onto a full host is refused; editing one in place is not
+    assert.equal((await send('PATCH', `/${subscription.id}`, 'http://127.0.0.1:4000/d')).status, 409);
+    assert.equal((await send('PATCH', `/${(await second.json()).subscription.id}`, 'http://127.0.0.1:4000/e')).status, 200);
+  });
+
+  it('rate-limits creation per client address', async () => {
+    for (let i = 0; i < 6; i++) await send('POST', '', `http://127.0.0.1:4000/${i}`);
+    const limited = await send('POST', '', 'http://localhost:4000/hook');
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+  });
+});
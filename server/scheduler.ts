@@ -0,0 +1,221 @@
+import type { ServerConfig } from './config.ts';
+import type { Db } from './db.ts';
+import type { WeatherSource } from './weather.ts';
+import { parseBriefingTelemetry, type BriefingService } from './briefing.ts';
+import { postWebhook, renderBriefingMessage, WebhookError, type WebhookMessage } from './webhooks.ts';
+import { localDateAndTime, toSubscription, type BriefingSubscription, type SubscriptionRow } from './subscriptions.ts';
+import { toBriefingRequest } from '../src/lib/briefing.ts';
+
+// Finished deliveries are kept this long in the log
+const DELIVERY_LOG_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// pending: waiting for its first attempt; retrying: failed, next attempt at `nextAttemptAt`;
+// delivered and failed (attempts used up) are final
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface Delivery {
+  id: number;
+  kind: 'scheduled' | 'test';
+  status: DeliveryStatus;
+  attempts: number;
+  // Epoch milliseconds
+  nextAttemptAt: number | null;
+  // The receiver's HTTP status on the latest attempt, if it answered
+  responseStatus: number | null;
+  error: string | null;
+  // Content type and body as posted; built on the first attempt and reused for retries
+  payload: WebhookMessage | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  subscription_id: string;
+  kind: Delivery['kind'];
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: number | null;
+  response_status: number | null;
+  error: string | null;
+  payload: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const toDelivery = (row: DeliveryRow): Delivery => ({
+  id: row.id,
+  kind: row.kind,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  responseStatus: row.response_status,
+  error: row.error,
+  payload: row.payload === null ? null : JSON.parse(row.payload),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export interface BriefingScheduler {
+  start(): void;
+  stop(): void;
+  // One pass: queue today's due subscriptions, then attempt every delivery whose time has come
+  tick(): Promise<void>;
+  // Queues a test delivery and attempts it straight away
+  sendNow(subscription: BriefingSubscription): Promise<Delivery>;
+  deliveries(subscriptionId: string, limit: number): Delivery[];
+}
+
+// Daily webhook briefings. Each subscription is due once per local day, from its send time on; a server that
+// was down at that moment catches up later the same day. Every delivery is logged, and failed attempts are
+// retried with exponential backoff until `maxAttempts` is used up.
+export const createBriefingScheduler = (
+  config: ServerConfig,
+  db: Db,
+  weather: WeatherSource,
+  briefings: BriefingService,
+  now: () => number = Date.now
+): BriefingScheduler => {
+  const { pollInterval, maxAttempts, retryDelay } = config.webhooks;
+
+  const selectSubscriptions = db.prepare('SELECT * FROM briefing_subscriptions');
+  const selectSubscription = db.prepare('SELECT * FROM briefing_subscriptions WHERE id = ?');
+  const markScheduled = db.prepare('UPDATE briefing_subscriptions SET last_scheduled_on = ? WHERE id = ?');
+  const insertDelivery = db.prepare(
+    'INSERT INTO briefing_deliveries (subscription_id, kind, status, next_attempt_at, created_at, updated_at) ' +
+    "VALUES (?, ?, 'pending', ?, ?, ?)"
+  );
+  const selectDelivery = db.prepare('SELECT * FROM briefing_deliveries WHERE id = ?');
+  const selectDeliveries = db.prepare(
+    'SELECT * FROM briefing_deliveries WHERE subscription_id = ? ORDER BY id DESC LIMIT ?'
+  );
+  const selectDueDeliveries = db.prepare(
+    "SELECT * FROM briefing_deliveries WHERE status IN ('pending', 'retrying') AND next_attempt_at <= ? ORDER BY next_attempt_at"
+  );
+  // A delivery being attempted has no next attempt time, so no other pass picks it up
+  const claimDelivery = db.prepare('UPDATE briefing_deliveries SET next_attempt_at = NULL WHERE id = ?');
+  // Attempts cut short by a restart are picked up again
+  const releaseClaims = db.prepare(
+    "UPDATE briefing_deliveries SET next_attempt_at = ? WHERE status IN ('pending', 'retrying') AND next_attempt_at IS NULL"
+  );
+  const recordAttempt = db.prepare(
+    'UPDATE briefing_deliveries SET status = @status, attempts = @attempts, next_attempt_at = @nextAttemptAt, ' +
+    'response_status = @responseStatus, error = @error, payload = @payload, updated_at = @updatedAt WHERE id = @id'
+  );
+  const pruneDeliveries = db.prepare(
+    "DELETE FROM briefing_deliveries WHERE status IN ('delivered', 'failed') AND updated_at < ?"
+  );
+
+  const scheduleDay = db.transaction((subscriptionId: string, date: string, at: number) => {
+    markScheduled.run(date, subscriptionId);
+    insertDelivery.run(subscriptionId, 'scheduled', at, at, at);
+  });
+
+  // Telemetry and briefing are built exactly as the weather view builds them: the same snapshot,
+  // the same /api/briefing request body, the same cached briefing service
+  const buildMessage = async (subscription: BriefingSubscription, createdAt: number) => {
+    const snapshot = await weather.snapshot(subscription.location, false);
+    const telemetry = parseBriefingTelemetry(
+      toBriefingRequest(snapshot, subscription.units, subscription.profile, subscription.language)
+    );
+    if (!telemetry) throw new Error('Forecast telemetry was incomplete.');
+    const { briefing } = await briefings.getBriefing(telemetry);
+    const scheduledFor = localDateAndTime(subscription.timeZone, createdAt);
+    return renderBriefingMessage(subscription.format, {
+      snapshot,
+      briefing,
+      units: subscription.units,
+      language: subscription.language,
+      scheduledFor: `${scheduledFor.date} ${scheduledFor.time}`,
+    });
+  };
+
+  const attempt = async (row: DeliveryRow) => {
+    const subscriptionRow = selectSubscription.get(row.subscription_id) as SubscriptionRow | undefined;
+    // Deleted since it was queued; its deliveries went with it
+    if (!subscriptionRow) return;
+    const subscription = toSubscription(subscriptionRow);
+    claimDelivery.run(row.id);
+
+    const attempts = row.attempts + 1;
+    let payload: WebhookMessage | null = row.payload === null ? null : JSON.parse(row.payload);
+    try {
+      payload ??= await buildMessage(subscription, row.created_at);
+      const responseStatus = await postWebhook(subscription.webhookUrl, payload, config.webhooks);
+      recordAttempt.run({
+        id: row.id, status: 'delivered', attempts, nextAttemptAt: null, responseStatus, error: null,
+        payload: JSON.stringify(payload), updatedAt: now(),
+      });
+    } catch (err) {
+      const exhausted = attempts >= maxAttempts;
+      recordAttempt.run({
+        id: row.id,
+        status: exhausted ? 'failed' : 'retrying',
+        attempts,
+        // 1×, 2×, 4×… the base delay
+        nextAttemptAt: exhausted ? null : now() + retryDelay * 1000 * 2 ** (attempts - 1),
+        responseStatus: err instanceof WebhookError ? err.status ?? null : null,
+        error: (err as Error).message,
+        payload: payload && JSON.stringify(payload),
+        updatedAt: now(),
+      });
+      console.warn(`Briefing delivery ${row.id} failed (attempt ${attempts}/${maxAttempts}):`, (err as Error).message);
+    }
+  };
+
+  const queueDueSubscriptions = () => {
+    const at = now();
+    for (const row of selectSubscriptions.all() as SubscriptionRow[]) {
+      const { date, time } = localDateAndTime(row.time_zone, at);
+      if (time >= row.send_time && row.last_scheduled_on !== date) scheduleDay(row.id, date, at);
+    }
+  };
+
+  const pass = async () => {
+    try {
+      pruneDeliveries.run(now() - DELIVERY_LOG_DAYS * DAY_MS);
+      queueDueSubscriptions();
+      for (const row of selectDueDeliveries.all(now()) as DeliveryRow[]) await attempt(row);
+    } catch (err) {
+      console.error('Briefing scheduler pass failed:', err);
+    }
+  };
+
+  // Passes never overlap: a slow upstream or webhook simply delays the next one
+  let running: Promise<void> | null = null;
+  const tick = () => {
+    running ??= pass().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  let timer: NodeJS.Timeout | null = null;
+
+  const start = () => {
+    if (timer) return;
+    releaseClaims.run(now());
+    timer = setInterval(tick, pollInterval * 1000);
+    // The schedule alone never keeps the process alive
+    timer.unref();
+    void tick();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const sendNow = async (subscription: BriefingSubscription) => {
+    const at = now();
+    const { lastInsertRowid } = insertDelivery.run(subscription.id, 'test', null, at, at);
+    await attempt(selectDelivery.get(lastInsertRowid) as DeliveryRow);
+    return toDelivery(selectDelivery.get(lastInsertRowid) as DeliveryRow);
+  };
+
+  const deliveries = (subscriptionId: string, limit: number) =>
+    (selectDeliveries.all(subscriptionId, limit) as DeliveryRow[]).map(toDelivery);
+
+  return { start, stop, tick, sendNow, deliveries };
+};
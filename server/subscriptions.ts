@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto';
+import { Router, type Response } from 'express';
+import type { ServerConfig } from './config.ts';
+import type { Db } from './db.ts';
+import { asyncHandler, badRequest, rateLimit } from './http.ts';
+import { isPrivateWebhookHost, isWebhookFormat, type WebhookFormat } from './webhooks.ts';
+import type { BriefingScheduler } from './scheduler.ts';
+import type { GeoLocation } from '../src/types.ts';
+import { isBriefingProfile, type BriefingProfile } from '../src/lib/briefing.ts';
+import { normalizeUnitPreferences, type UnitPreferences } from '../src/lib/units.ts';
+import { DEFAULT_LOCALE, isLocale, type Locale } from '../src/lib/i18n.ts';
+import { formatLocalIso } from '../src/lib/time.ts';
+import { isRecord } from '../src/lib/apiClient.ts';
+
+const SUBSCRIPTION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const SEND_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_URL_LENGTH = 2000;
+const MAX_DELIVERIES = 100;
+
+export interface SubscriptionSettings {
+  location: GeoLocation;
+  // "HH:MM" on a 24-hour clock, in `timeZone`
+  sendTime: string;
+  // IANA zone name, e.g. "Asia/Kolkata"
+  timeZone: string;
+  webhookUrl: string;
+  format: WebhookFormat;
+  profile: BriefingProfile;
+  units: UnitPreferences;
+  language: Locale;
+}
+
+export interface BriefingSubscription extends SubscriptionSettings {
+  id: string;
+  createdAt: number;
+  // Local date (YYYY-MM-DD) of the latest scheduled delivery
+  lastScheduledOn: string | null;
+}
+
+export interface SubscriptionRow {
+  id: string;
+  location: string;
+  send_time: string;
+  time_zone: string;
+  webhook_url: string;
+  format: WebhookFormat;
+  profile: BriefingProfile;
+  units: string;
+  language: Locale;
+  created_at: number;
+  last_scheduled_on: string | null;
+}
+
+export const toSubscription = (row: SubscriptionRow): BriefingSubscription => ({
+  id: row.id,
+  location: JSON.parse(row.location),
+  sendTime: row.send_time,
+  timeZone: row.time_zone,
+  webhookUrl: row.webhook_url,
+  format: row.format,
+  profile: row.profile,
+  units: JSON.parse(row.units),
+  language: row.language,
+  createdAt: row.created_at,
+  lastScheduledOn: row.last_scheduled_on,
+});
+
+// Local date and "HH:MM" clock in a zone, e.g. { date: "2026-10-19", time: "07:30" }
+export const localDateAndTime = (timeZone: string, epochMs: number) => {
+  const [date, time] = formatLocalIso(epochMs / 1000, timeZone).split('T');
+  return { date, time };
+};
+
+// Any zone the runtime knows; kept as written, since canonical names can be the legacy ones ("Asia/Calcutta")
+const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// An http(s) URL whose host is not written as localhost or a private address, unless that host is allowed
+const isWebhookUrl = (value: unknown, allowedHosts: string[]): value is string => {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) return false;
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && !isPrivateWebhookHost(url, allowedHosts);
+  } catch {
+    return false;
+  }
+};
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+const parseLocation = (raw: unknown): GeoLocation | null => {
+  if (!isRecord(raw)) return null;
+  const { name, latitude, longitude } = raw;
+  if (typeof name !== 'string' || !name.trim() || name.length > 200 ||
+      !isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+    return null;
+  }
+  const text = (value: unknown) => (typeof value === 'string' && value ? value.slice(0, 200) : undefined);
+  return {
+    name: name.trim(),
+    latitude,
+    longitude,
+    admin1: text(raw.admin1),
+    country: text(raw.country),
+    countryCode: text(raw.countryCode),
+  };
+};
+
+// Validates a create (no `base`) or a partial update of `base`; returns an error message when unusable.
+// Profile, units and language fall back to defaults like the briefing endpoint; the delivery fields must be valid.
+const parseSettings = (body: unknown, allowedHosts: string[], base?: SubscriptionSettings): SubscriptionSettings | string => {
+  const fields = isRecord(body) ? body : {};
+  const field = <K extends keyof SubscriptionSettings>(key: K): unknown => (fields[key] === undefined ? base?.[key] : fields[key]);
+
+  const location = parseLocation(field('location'));
+  if (!location) return 'Expected "location" with a name, latitude and longitude.';
+  const sendTime = field('sendTime');
+  if (typeof sendTime !== 'string' || !SEND_TIME_PATTERN.test(sendTime)) return 'Expected "sendTime" as HH:MM (24-hour).';
+  const timeZone = field('timeZone');
+  if (!isTimeZone(timeZone)) return 'Expected "timeZone" as an IANA zone name, e.g. "Asia/Kolkata".';
+  const webhookUrl = field('webhookUrl');
+  if (!isWebhookUrl(webhookUrl, allowedHosts)) return 'Expected "webhookUrl" as an http(s) URL on a public host.';
+  const format = field('format') ?? 'slack';
+  if (!isWebhookFormat(format)) return 'Expected "format" to be "slack" or "text".';
+
+  const profile = field('profile');
+  const language = field('language');
+  return {
+    location,
+    sendTime,
+    timeZone,
+    webhookUrl,
+    format,
+    profile: isBriefingProfile(profile) ? profile : 'general',
+    units: normalizeUnitPreferences(field('units')),
+    language: isLocale(language) ? language : DEFAULT_LOCALE,
+  };
+};
+
+// Schedules start with the next send time: when today's has already passed, today counts as sent
+const initialLastScheduledOn = (settings: SubscriptionSettings, previous: string | null, now: number) => {
+  const local = localDateAndTime(settings.timeZone, now);
+  return local.time >= settings.sendTime ? local.date : previous;
+};
+
+// Daily briefing subscriptions. The random id is the only credential, like a favourites sync code,
+// so there is deliberately no way to list subscriptions.
+export const createSubscriptionsRouter = (
+  config: ServerConfig,
+  db: Db,
+  scheduler: BriefingScheduler,
+  now: () => number = Date.now
+) => {
+  const { allowedHosts, maxSubscriptions, maxPerHost } = config.webhooks;
+  const selectSubscription = db.prepare('SELECT * FROM briefing_subscriptions WHERE id = ?');
+  const insertSubscription = db.prepare(
+    'INSERT INTO briefing_subscriptions ' +
+    '(id, location, send_time, time_zone, webhook_url, format, profile, units, language, created_at, last_scheduled_on) ' +
+    'VALUES (@id, @location, @sendTime, @timeZone, @webhookUrl, @format, @profile, @units, @language, @createdAt, @lastScheduledOn)'
+  );
+  const updateSubscription = db.prepare(
+    'UPDATE briefing_subscriptions SET location = @location, send_time = @sendTime, time_zone = @timeZone, ' +
+    'webhook_url = @webhookUrl, format = @format, profile = @profile, units = @units, language = @language, ' +
+    'last_scheduled_on = @lastScheduledOn WHERE id = @id'
+  );
+  const deleteSubscription = db.prepare('DELETE FROM briefing_subscriptions WHERE id = ?');
+  const selectWebhookUrls = db.prepare('SELECT id, webhook_url FROM briefing_subscriptions');
+
+  // Every subscription makes the server post to a URL its creator chose, so one host cannot collect many.
+  // `exceptId` leaves out the subscription being edited. Returns the reason when a cap is reached.
+  const capacityError = (webhookUrl: string, exceptId?: string) => {
+    const host = new URL(webhookUrl).hostname.toLowerCase();
+    const others = (selectWebhookUrls.all() as { id: string; webhook_url: string }[]).filter(({ id }) => id !== exceptId);
+    if (exceptId === undefined && others.length >= maxSubscriptions) return 'The server has reached its subscription limit.';
+    if (others.filter(({ webhook_url }) => new URL(webhook_url).hostname.toLowerCase() === host).length >= maxPerHost) {
+      return `Webhook host ${host} already has the maximum number of subscriptions.`;
+    }
+    return null;
+  };
+
+  const conflict = (res: Response, message: string) => {
+    res.status(409).json({ error: message });
+  };
+
+  const toParams = (subscription: BriefingSubscription) => ({
+    ...subscription,
+    location: JSON.stringify(subscription.location),
+    units: JSON.stringify(subscription.units),
+  });
+
+  const findSubscription = (id: string) => {
+    if (!SUBSCRIPTION_ID_PATTERN.test(id)) return undefined;
+    const row = selectSubscription.get(id) as SubscriptionRow | undefined;
+    return row && toSubscription(row);
+  };
+
+  const notFound = (res: Response) => {
+    res.status(404).json({ error: 'Unknown subscription.' });
+  };
+
+  const router = Router();
+
+  router.post('/', rateLimit(config.rateLimit.subscriptions, 60, now), asyncHandler(async (req, res) => {
+    const settings = parseSettings(req.body, allowedHosts);
+    if (typeof settings === 'string') return badRequest(res, settings);
+    const full = capacityError(settings.webhookUrl);
+    if (full) return conflict(res, full);
+    const createdAt = now();
+    const subscription: BriefingSubscription = {
+      id: randomUUID(),
+      ...settings,
+      createdAt,
+      lastScheduledOn: initialLastScheduledOn(settings, null, createdAt),
+    };
+    insertSubscription.run(toParams(subscription));
+    res.status(201).json({ subscription });
+  }));
+
+  router.get('/:id', asyncHandler(async (req, res) => {
+    const subscription = findSubscription(req.params.id);
+    if (!subscription) return notFound(res);
+    res.json({ subscription });
+  }));
+
+  router.patch('/:id', asyncHandler(async (req, res) => {
+    const existing = findSubscription(req.params.id);
+    if (!existing) return notFound(res);
+    const settings = parseSettings(req.body, allowedHosts, existing);
+    if (typeof settings === 'string') return badRequest(res, settings);
+    const full = settings.webhookUrl === existing.webhookUrl ? null : capacityError(settings.webhookUrl, existing.id);
+    if (full) return conflict(res, full);
+    const rescheduled = settings.sendTime !== existing.sendTime || settings.timeZone !== existing.timeZone;
+    const subscription: BriefingSubscription = {
+      ...existing,
+      ...settings,
+      lastScheduledOn: rescheduled
+        ? initialLastScheduledOn(settings, existing.lastScheduledOn, now())
+        : existing.lastScheduledOn,
+    };
+    updateSubscription.run(toParams(subscription));
+    res.json({ subscription });
+  }));
+
+  // The delivery log goes with it
+  router.delete('/:id', asyncHandler(async (req, res) => {
+    if (!findSubscription(req.params.id)) return notFound(res);
+    deleteSubscription.run(req.params.id);
+    res.status(204).end();
+  }));
+
+  // Newest first
+  router.get('/:id/deliveries', asyncHandler(async (req, res) => {
+    const subscription = findSubscription(req.params.id);
+    if (!subscription) return notFound(res);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_DELIVERIES);
+    res.json({ deliveries: scheduler.deliveries(subscription.id, limit) });
+  }));
+
+  // Builds and posts a briefing right away and answers with the outcome of that first attempt;
+  // a failed test is retried with backoff like a scheduled delivery. Rate limited, since each test spends
+  // the Gemini key and makes the server post to an address of the caller's choosing.
+  router.post('/:id/test', rateLimit(config.rateLimit.webhookTest, 60, now), asyncHandler(async (req, res) => {
+    const subscription = findSubscription(req.params.id);
+    if (!subscription) return notFound(res);
+    res.json({ delivery: await scheduler.sendNow(subscription) });
+  }));
+
+  return router;
+};
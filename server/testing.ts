@@ -0,0 +1,101 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { loadConfig, type ServerConfig } from './config.ts';
+import { createApp } from './app.ts';
+
+// Helpers for the server tests: local stand-ins for the upstream APIs and an app bound to a free port
+
+export interface RecordedRequest {
+  method: string;
+  // Path and query, e.g. "/v1/search?name=Pune"
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StandInReply {
+  status?: number;
+  headers?: Record<string, string>;
+  // Objects are sent as JSON, strings as they are
+  body?: unknown;
+}
+
+export interface StandIn {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+const listen = async (server: http.Server) => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const closeServer = (server: http.Server) =>
+  new Promise<void>((resolve) => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+
+// An HTTP server that records every request and answers through `handle`
+export const startStandIn = async (
+  handle: (request: RecordedRequest) => StandInReply | Promise<StandInReply>
+): Promise<StandIn> => {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const request = { method: req.method ?? 'GET', url: req.url ?? '/', headers: req.headers, body };
+      requests.push(request);
+      const reply = await handle(request);
+      const isText = typeof reply.body === 'string';
+      res.writeHead(reply.status ?? 200, {
+        'Content-Type': isText ? 'text/plain' : 'application/json',
+        ...reply.headers,
+      });
+      res.end(isText ? reply.body : JSON.stringify(reply.body ?? {}));
+    });
+  });
+  const url = await listen(server);
+  return { url, requests, close: () => closeServer(server) };
+};
+
+// Configuration for an in-memory app with no Gemini key unless `env` sets one
+export const testConfig = (env: Record<string, string> = {}): ServerConfig =>
+  loadConfig({ DATABASE_PATH: ':memory:', ...env });
+
+export interface TestApp extends ReturnType<typeof createApp> {
+  url: string;
+  close(): Promise<void>;
+}
+
+export const startApp = async (config: ServerConfig, now?: () => number): Promise<TestApp> => {
+  const created = createApp(config, now);
+  const server = http.createServer(created.app);
+  const url = await listen(server);
+  return {
+    ...created,
+    url,
+    close: async () => {
+      created.scheduler.stop();
+      await closeServer(server);
+      created.db.close();
+    },
+  };
+};
+
+// A clock tests move by hand
+export const fakeClock = (start: number) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+    set: (epochMs: number) => {
+      current = epochMs;
+    },
+  };
+};
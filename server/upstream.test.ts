@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startStandIn, type StandIn, type StandInReply } from './testing.ts';
+import { fetchJson, UpstreamError } from './upstream.ts';
+
+describe('fetchJson', () => {
+  let upstream: StandIn;
+  let reply: () => StandInReply | Promise<StandInReply>;
+
+  before(async () => {
+    upstream = await startStandIn(() => reply());
+  });
+
+  after(() => upstream.close());
+
+  const rejection = async (promise: Promise<unknown>) => {
+    const err = await promise.then(() => assert.fail('expected a rejection'), (err: unknown) => err);
+    assert.ok(err instanceof UpstreamError);
+    return err;
+  };
+
+  it('resolves with the parsed body', async () => {
+    reply = () => ({ body: { results: [1, 2] } });
+    assert.deepEqual(await fetchJson(`${upstream.url}/v1/search`), { results: [1, 2] });
+  });
+
+  it('reports error answers as 502 with the upstream reason', async () => {
+    reply = () => ({ status: 400, body: { error: true, reason: 'Latitude must be in range' } });
+    const err = await rejection(fetchJson(`${upstream.url}/v1/forecast`));
+    assert.equal(err.status, 502);
+    assert.match(err.message, /Latitude must be in range/);
+  });
+
+  it('treats an error flag in a 200 answer as a failure', async () => {
+    reply = () => ({ body: { error: true, reason: 'No data' } });
+    assert.equal((await rejection(fetchJson(`${upstream.url}/v1/archive`))).status, 502);
+  });
+
+  it('passes on 429 with the upstream Retry-After', async () => {
+    reply = () => ({ status: 429, headers: { 'Retry-After': '17' }, body: { error: true, reason: 'Too many requests' } });
+    const err = await rejection(fetchJson(`${upstream.url}/v1/forecast`));
+    assert.equal(err.status, 429);
+    assert.equal(err.retryAfter, 17);
+  });
+
+  it('leaves Retry-After unset when the upstream sends none or a date', async () => {
+    reply = () => ({ status: 429, headers: { 'Retry-After': 'Wed, 21 Oct 2026 07:28:00 GMT' }, body: {} });
+    assert.equal((await rejection(fetchJson(`${upstream.url}/v1/forecast`))).retryAfter, undefined);
+    reply = () => ({ status: 429, body: {} });
+    assert.equal((await rejection(fetchJson(`${upstream.url}/v1/forecast`))).retryAfter, undefined);
+  });
+
+  it('gives up on a silent upstream with 504', async () => {
+    reply = () => new Promise(() => {});
+    const err = await rejection(fetchJson(`${upstream.url}/v1/forecast`, undefined, 50));
+    assert.equal(err.status, 504);
+    assert.match(err.message, /timed out after 50 ms/);
+  });
+
+  it('reports an unreachable host as 502', async () => {
+    const closed = await startStandIn(() => ({}));
+    await closed.close();
+    assert.equal((await rejection(fetchJson(`${closed.url}/v1/forecast`))).status, 502);
+  });
+});
@@ -0,0 +1,51 @@
+import { isRecord } from '../src/lib/apiClient.ts';
+
+// Raised when a third-party API cannot be reached or answers with an error
+export class UpstreamError extends Error {
+  status: number;
+  // Seconds the upstream asked us to wait, passed on to our client as Retry-After
+  retryAfter?: number;
+
+  constructor(message: string, status = 502, retryAfter?: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Below the browser's own 15 s limit, so a slow upstream reaches the client as a 504 rather than a dropped request
+const UPSTREAM_TIMEOUT_MS = 10_000;
+
+// Retry-After in delay-seconds form; the HTTP-date form is rare for rate limits and is ignored
+const parseRetryAfter = (value: string | null) => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : undefined;
+};
+
+// Resolves with the parsed body, left for the caller to narrow; Open-Meteo flags failures with `error` and `reason`
+export const fetchJson = async (url: string, init?: RequestInit, timeoutMs = UPSTREAM_TIMEOUT_MS): Promise<unknown> => {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const timedOut = () => new UpstreamError(`Upstream timed out after ${timeoutMs} ms`, 504);
+
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal });
+  } catch (err) {
+    if (signal.aborted) throw timedOut();
+    throw new UpstreamError(`Upstream unreachable: ${(err as Error).message}`);
+  }
+
+  const body: unknown = await res.json().catch(() => {
+    if (signal.aborted) throw timedOut();
+    return null;
+  });
+  if (!res.ok || (isRecord(body) && body.error)) {
+    const reason = (isRecord(body) && typeof body.reason === 'string' && body.reason) || `HTTP ${res.status}`;
+    if (res.status === 429) {
+      throw new UpstreamError(`Upstream request failed: ${reason}`, 429, parseRetryAfter(res.headers.get('Retry-After')));
+    }
+    throw new UpstreamError(`Upstream request failed: ${reason}`);
+  }
+  return body;
+};
@@ -0,0 +1,92 @@
+import type { ServerConfig } from './config.ts';
+import type { ResponseCache } from './cache.ts';
+import { fetchJson } from './upstream.ts';
+import type { GeoLocation, WeatherSnapshot } from '../src/types.ts';
+import { toWeatherSnapshot, validateForecast } from '../src/lib/forecast.ts';
+import { parseAirQuality } from '../src/lib/airQuality.ts';
+
+const CURRENT_FIELDS = [
+  'temperature_2m', 'relative_humidity_2m', 'apparent_temperature', 'is_day', 'precipitation',
+  'weather_code', 'surface_pressure', 'wind_speed_10m', 'wind_gusts_10m', 'uv_index',
+].join(',');
+
+const HOURLY_FIELDS = [
+  'temperature_2m', 'precipitation_probability', 'wind_speed_10m', 'wind_gusts_10m', 'weather_code', 'is_day',
+].join(',');
+
+const DAILY_FIELDS = [
+  'weather_code', 'temperature_2m_max', 'temperature_2m_min', 'precipitation_probability_max',
+  'wind_speed_10m_max', 'uv_index_max', 'sunrise', 'sunset',
+].join(',');
+
+const POLLEN_FIELDS = [
+  'alder_pollen', 'birch_pollen', 'grass_pollen', 'mugwort_pollen', 'olive_pollen', 'ragweed_pollen',
+];
+
+const AIR_QUALITY_CURRENT_FIELDS = [
+  'european_aqi', 'us_aqi', 'pm2_5', 'pm10', 'ozone', 'nitrogen_dioxide', ...POLLEN_FIELDS,
+].join(',');
+
+const AIR_QUALITY_HOURLY_FIELDS = ['european_aqi', 'us_aqi', 'pm2_5'].join(',');
+
+export interface WeatherSource {
+  // Raw upstream bodies, as the /api/forecast and /api/air-quality routes pass them through
+  forecast(latitude: number, longitude: number): Promise<unknown>;
+  airQuality(latitude: number, longitude: number): Promise<unknown>;
+  // Validated telemetry for a location, as the client builds it
+  snapshot(location: GeoLocation, verified: boolean): Promise<WeatherSnapshot>;
+}
+
+// Cached Open-Meteo forecast and air-quality reads, shared by the API routes and the briefing scheduler
+export const createWeatherSource = (config: ServerConfig, cache: ResponseCache): WeatherSource => {
+  const forecast = (latitude: number, longitude: number) => {
+    const params = new URLSearchParams({
+      latitude: latitude.toFixed(4),
+      longitude: longitude.toFixed(4),
+      current: CURRENT_FIELDS,
+      hourly: HOURLY_FIELDS,
+      daily: DAILY_FIELDS,
+      // Times come back as unix seconds and are rendered in the location's own zone
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      forecast_days: '7',
+      forecast_hours: '48',
+      wind_speed_unit: 'kmh',
+    });
+    return cache.wrap(`forecast:${params}`, config.ttl.forecast, () =>
+      fetchJson(`${config.forecastApiUrl}/v1/forecast?${params}`)
+    );
+  };
+
+  // Pollen is only modelled for Europe; elsewhere those values come back null
+  const airQuality = (latitude: number, longitude: number) => {
+    const params = new URLSearchParams({
+      latitude: latitude.toFixed(4),
+      longitude: longitude.toFixed(4),
+      current: AIR_QUALITY_CURRENT_FIELDS,
+      hourly: AIR_QUALITY_HOURLY_FIELDS,
+      timezone: 'auto',
+      timeformat: 'unixtime',
+      forecast_hours: '48',
+    });
+    // Air-quality models update hourly, so the forecast lifetime fits them too
+    return cache.wrap(`air-quality:${params}`, config.ttl.forecast, () =>
+      fetchJson(`${config.airQualityApiUrl}/v1/air-quality?${params}`)
+    );
+  };
+
+  // The server-side twin of loadTelemetry in src/lib/weatherApi.ts: air quality is optional, the forecast is not
+  const snapshot = async (location: GeoLocation, verified: boolean) => {
+    const { latitude, longitude } = location;
+    const [forecastBody, air] = await Promise.all([
+      forecast(latitude, longitude),
+      airQuality(latitude, longitude).then(parseAirQuality).catch((err) => {
+        console.warn('Air quality unavailable:', err);
+        return null;
+      }),
+    ]);
+    return toWeatherSnapshot(location, verified, validateForecast(forecastBody), air);
+  };
+
+  return { forecast, airQuality, snapshot };
+};
@@ -0,0 +1,119 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { startApp, startStandIn, testConfig, type StandIn, type TestApp } from './testing.ts';
+import { isPrivateAddress, isPrivateWebhookHost, postWebhook, WebhookError } from './webhooks.ts';
+
+const MESSAGE = { contentType: 'text/plain; charset=utf-8', body: 'Briefing' };
+
+describe('webhook hosts', () => {
+  it('classifies private, loopback, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+      '0.0.0.0', '224.0.0.1', '255.255.255.255', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '100.128.0.1', '151.101.1.69', '2606:4700::6810:84e5', '::ffff:8.8.8.8']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('rejects localhost and private literals in URLs unless the host is allowed', () => {
+    for (const url of [
+      'http://localhost:4000/hook', 'http://api.localhost/hook', 'http://169.254.169.254/latest/meta-data',
+      'http://[::1]/hook', 'http://2130706433/hook', 'http://0x7f.1/hook', 'http://[::ffff:10.0.0.1]/hook',
+    ]) {
+      assert.equal(isPrivateWebhookHost(new URL(url), []), true, url);
+    }
+    assert.equal(isPrivateWebhookHost(new URL('https://hooks.slack.com/services/T0/B0/x'), []), false);
+    assert.equal(isPrivateWebhookHost(new URL('http://LOCALHOST:4000/hook'), ['localhost']), false);
+    assert.equal(isPrivateWebhookHost(new URL('http://[::1]:4000/hook'), ['::1']), false);
+  });
+});
+
+describe('postWebhook', () => {
+  let receiver: StandIn;
+
+  before(async () => {
+    receiver = await startStandIn((request) =>
+      request.url === '/moved' ? { status: 302, headers: { Location: '/hook' }, body: '' } : { body: 'ok' }
+    );
+  });
+
+  after(() => receiver.close());
+
+  const rejection = async (promise: Promise<unknown>) => {
+    const err = await promise.then(() => assert.fail('expected a rejection'), (err: unknown) => err);
+    assert.ok(err instanceof WebhookError);
+    return err;
+  };
+
+  it('refuses hosts that resolve to a private address', async () => {
+    receiver.requests.length = 0;
+    const err = await rejection(postWebhook(`${receiver.url}/hook`, MESSAGE, { timeout: 1000, allowedHosts: [] }));
+    assert.match(err.message, /private address/);
+    const viaName = await rejection(postWebhook(`${receiver.url.replace('127.0.0.1', 'localhost')}/hook`, MESSAGE, {
+      timeout: 1000,
+      allowedHosts: [],
+    }));
+    assert.match(viaName.message, /private address/);
+    assert.equal(receiver.requests.length, 0);
+  });
+
+  it('posts to allowed hosts', async () => {
+    receiver.requests.length = 0;
+    assert.equal(await postWebhook(`${receiver.url}/hook`, MESSAGE, { timeout: 1000, allowedHosts: ['127.0.0.1'] }), 200);
+    assert.equal(receiver.requests[0].body, 'Briefing');
+    assert.equal(receiver.requests[0].headers['content-type'], 'text/plain; charset=utf-8');
+    const viaName = `${receiver.url.replace('127.0.0.1', 'localhost')}/hook`;
+    assert.equal(await postWebhook(viaName, MESSAGE, { timeout: 1000, allowedHosts: ['localhost'] }), 200);
+  });
+
+  it('does not follow redirects', async () => {
+    receiver.requests.length = 0;
+    const err = await rejection(postWebhook(`${receiver.url}/moved`, MESSAGE, { timeout: 1000, allowedHosts: ['127.0.0.1'] }));
+    assert.equal(err.status, 302);
+    assert.deepEqual(receiver.requests.map((request) => request.url), ['/moved']);
+  });
+});
+
+describe('subscription webhook checks', () => {
+  let app: TestApp;
+
+  before(async () => {
+    app = await startApp(testConfig({ RATE_LIMIT_WEBHOOK_TEST: '2' }));
+  });
+
+  after(() => app.close());
+
+  const create = (webhookUrl: string) =>
+    fetch(`${app.url}/api/subscriptions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        location: { name: 'Pune', latitude: 18.5196, longitude: 73.8554 },
+        sendTime: '07:00',
+        timeZone: 'Asia/Kolkata',
+        webhookUrl,
+      }),
+    });
+
+  it('rejects webhook URLs on private hosts', async () => {
+    for (const url of ['http://169.254.169.254/latest/meta-data', 'http://localhost:4000/hook', 'http://[::1]/hook']) {
+      const res = await create(url);
+      assert.equal(res.status, 400, url);
+      assert.match((await res.json()).error, /public host/);
+    }
+    assert.equal((await create('https://hooks.example.com/briefing')).status, 201);
+  });
+
+  it('rate limits test deliveries', async () => {
+    const send = () => fetch(`${app.url}/api/subscriptions/${randomUUID()}/test`, { method: 'POST' });
+    assert.equal((await send()).status, 404);
+    assert.equal((await send()).status, 404);
+    const limited = await send();
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+  });
+});
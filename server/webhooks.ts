@@ -0,0 +1,235 @@
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { lookup } from 'dns';
+import { Agent } from 'undici';
+import type { ServerConfig } from './config.ts';
+import type { WeatherSnapshot } from '../src/types.ts';
+import type { AiBriefing } from '../src/lib/briefing.ts';
+import { createUnitFormatter, type UnitPreferences } from '../src/lib/units.ts';
+import { createI18n, translateCondition, type Locale } from '../src/lib/i18n.ts';
+import { AQI_SCALES, getAqiCategory, type AqiScale } from '../src/lib/airQuality.ts';
+import { formatCoordinates } from '../src/lib/coordinates.ts';
+
+// Slack-compatible JSON (`text` plus Block Kit `blocks`, also accepted by Mattermost and similar) or plain text
+export type WebhookFormat = 'slack' | 'text';
+
+export const WEBHOOK_FORMATS: Record<WebhookFormat, { contentType: string }> = {
+  slack: { contentType: 'application/json' },
+  text: { contentType: 'text/plain; charset=utf-8' },
+};
+
+export const isWebhookFormat = (value: unknown): value is WebhookFormat =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_FORMATS, value);
+
+export interface WebhookMessage {
+  contentType: string;
+  body: string;
+}
+
+export interface BriefingMessageInput {
+  snapshot: WeatherSnapshot;
+  briefing: AiBriefing;
+  units: UnitPreferences;
+  language: Locale;
+  // The local "YYYY-MM-DD HH:MM" the delivery was scheduled for
+  scheduledFor: string;
+}
+
+// Slack treats these three as control characters in mrkdwn
+const escapeMrkdwn = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+interface BriefingList {
+  heading: string;
+  items: string[];
+}
+
+interface ComposedBriefing {
+  title: string;
+  conditions: string;
+  air: string | null;
+  summary: string;
+  risks: BriefingList;
+  recommendations: BriefingList;
+  footer: string;
+}
+
+// The briefing as message lines, written in the subscriber's language and units
+const composeBriefing = ({ snapshot, briefing, units, language, scheduledFor }: BriefingMessageInput): ComposedBriefing => {
+  const i18n = createI18n(language);
+  const { t } = i18n;
+  const format = createUnitFormatter(units, i18n.tag);
+  const conditions = [
+    translateCondition(snapshot.weatherCode, t),
+    format.temperature(snapshot.temp),
+    `${t('weather.feelsLike')} ${format.temperature(snapshot.feelsLike)}`,
+    `${t('weather.humidity')} ${i18n.percent(snapshot.humidity)}`,
+    `${t('weather.wind')} ${format.wind(snapshot.windSpeed)}`,
+    t('weather.uvShort', { value: i18n.number(snapshot.uvIndex, 1) }),
+  ].join(' · ');
+
+  const { airQuality } = snapshot;
+  const air = airQuality && (Object.keys(AQI_SCALES) as AqiScale[]).map((scale) => {
+    const value = scale === 'european' ? airQuality.europeanAqi : airQuality.usAqi;
+    const category = getAqiCategory(scale, value);
+    return `${t(`air.scale.${scale}`)} ${i18n.number(value)}${category ? ` (${t(`aqi.${category.id}`)})` : ''}`;
+  }).join(' · ');
+
+  return {
+    title: t('webhook.title', { city: snapshot.city }),
+    conditions,
+    air: air ? `${t('air.title')}: ${air}` : null,
+    summary: briefing.summary,
+    risks: { heading: t('briefing.risks'), items: briefing.risks },
+    recommendations: { heading: t('briefing.recommendations'), items: briefing.recommendations },
+    footer: [
+      t('webhook.sentFor', { time: scheduledFor, timeZone: snapshot.timezone }),
+      formatCoordinates(snapshot),
+      briefing.source === 'fallback'
+        ? t('briefing.standard')
+        : `${t('briefing.confidence')} ${briefing.confidence === undefined ? '—' : i18n.percent(briefing.confidence * 100)}`,
+    ].join(' · '),
+  };
+};
+
+const toText = (message: ComposedBriefing) =>
+  [
+    message.title,
+    message.conditions,
+    ...(message.air ? [message.air] : []),
+    '',
+    message.summary,
+    ...[message.risks, message.recommendations].flatMap(({ heading, items }) =>
+      items.length > 0 ? ['', `${heading}:`, ...items.map((item) => `- ${item}`)] : []
+    ),
+    '',
+    message.footer,
+  ].join('\n');
+
+const toSlack = (message: ComposedBriefing) => {
+  const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } });
+  return {
+    // Shown in notifications and by clients that do not render blocks
+    text: `${message.title}: ${message.summary}`,
+    blocks: [
+      // Header blocks take at most 150 characters
+      { type: 'header', text: { type: 'plain_text', text: message.title.slice(0, 150) } },
+      section(escapeMrkdwn([message.conditions, message.air].filter(Boolean).join('\n'))),
+      section(escapeMrkdwn(message.summary)),
+      ...[message.risks, message.recommendations]
+        .filter(({ items }) => items.length > 0)
+        .map(({ heading, items }) => section(`*${escapeMrkdwn(heading)}*\n${items.map((item) => `• ${escapeMrkdwn(item)}`).join('\n')}`)),
+      { type: 'context', elements: [{ type: 'mrkdwn', text: escapeMrkdwn(message.footer) }] },
+    ],
+  };
+};
+
+export const renderBriefingMessage = (format: WebhookFormat, input: BriefingMessageInput): WebhookMessage => {
+  const message = composeBriefing(input);
+  return {
+    contentType: WEBHOOK_FORMATS[format].contentType,
+    body: format === 'slack' ? JSON.stringify(toSlack(message)) : toText(message),
+  };
+};
+
+// Raised when a webhook cannot be reached or answers with anything but 2xx; `status` is absent for network errors
+export class WebhookError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'WebhookError';
+    this.status = status;
+  }
+}
+
+// Loopback, private, link-local (including the 169.254.169.254 cloud metadata service), carrier-grade NAT,
+// multicast and reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = (address: string) =>
+  PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Host name as compared with WEBHOOK_ALLOWED_HOSTS: lower case, IPv6 literals without brackets
+const webhookHost = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+// Checked when a subscription is saved: localhost or a private address written into the URL. Names that
+// resolve to private addresses are caught by postWebhook, since DNS can change after the subscription is saved.
+export const isPrivateWebhookHost = (url: URL, allowedHosts: string[]) => {
+  const host = webhookHost(url);
+  if (allowedHosts.includes(host)) return false;
+  return host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && isPrivateAddress(host));
+};
+
+// Webhooks are posted from inside our network, so every address a host resolves to must be public unless
+// the host is in WEBHOOK_ALLOWED_HOSTS. The check runs in the connection's own lookup: resolving the name
+// once beforehand would let a host answer with a public address for the check and a private one for fetch.
+const publicLookup = (allowedHosts: string[]): LookupFunction => (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    if (!allowedHosts.includes(hostname.toLowerCase()) && addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new WebhookError(`Webhook host ${hostname} resolves to a private address`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// One connection pool per allow-list; in practice that is the single list from the server config
+const agents = new Map<string, Agent>();
+
+const webhookAgent = (allowedHosts: string[]) => {
+  const key = allowedHosts.join(',');
+  let agent = agents.get(key);
+  if (!agent) {
+    agent = new Agent({ connect: { lookup: publicLookup(allowedHosts) } });
+    agents.set(key, agent);
+  }
+  return agent;
+};
+
+// Resolves with the receiver's HTTP status. Redirects are not followed, since they could lead to a private host.
+export const postWebhook = async (
+  url: string,
+  message: WebhookMessage,
+  { timeout, allowedHosts }: Pick<ServerConfig['webhooks'], 'timeout' | 'allowedHosts'>
+) => {
+  // Address literals are connected to without a lookup, so they are checked here
+  const parsed = new URL(url);
+  if (isIP(webhookHost(parsed)) !== 0 && isPrivateWebhookHost(parsed, allowedHosts)) {
+    throw new WebhookError(`Webhook host ${webhookHost(parsed)} is a private address`);
+  }
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': message.contentType, 'User-Agent': 'AmarsipahiWeather/2.0' },
+      body: message.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeout),
+      // Node's fetch accepts an undici dispatcher, which the DOM RequestInit type does not list
+      dispatcher: webhookAgent(allowedHosts),
+    } as RequestInit);
+  } catch (err) {
+    // fetch reports connection failures, including a refused lookup, as "fetch failed" with the reason as `cause`
+    const { cause } = err as Error & { cause?: unknown };
+    if (cause instanceof WebhookError) throw cause;
+    const reason = (err as Error).name === 'TimeoutError' ? `no answer within ${timeout} ms`
+      : cause instanceof Error ? cause.message : (err as Error).message;
+    throw new WebhookError(`Webhook unreachable: ${reason}`);
+  }
+  // The body is never used, but reading it lets the connection be reused
+  await res.text().catch(() => '');
+  if (res.status >= 300 && res.status < 400) {
+    throw new WebhookError(`Webhook redirected with HTTP ${res.status}; redirects are not followed`, res.status);
+  }
+  if (!res.ok) throw new WebhookError(`Webhook answered HTTP ${res.status}`, res.status);
+  return res.status;
+};
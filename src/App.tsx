@@ -1,77 +1,91 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
-  Search, Wind, Droplets, Gauge, Thermometer, MapPin, 
-  Loader2, Sparkles, Sun, CloudRain, Zap, Activity
+  Wind, Droplets, Gauge, Thermometer, MapPin, Crosshair,
+  Sparkles, Sun, Activity, Star, LayoutGrid, WifiOff, History, Clock
 } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
-
-// Lazy initialize Gemini AI to prevent crashes on Vercel if environment variables are missing on load
-const getGeminiAI = () => {
-  // Support both AI Studio (process.env) and Vercel (import.meta.env.VITE_*)
-  const apiKey = process.env.GEMINI_API_KEY || (import.meta as any).env.VITE_GEMINI_API_KEY;
-  if (!apiKey || apiKey === 'undefined') {
-    console.warn("GEMINI_API_KEY is missing. AI analysis will fall back to standard text.");
-    return null;
-  }
-  try {
-    return new GoogleGenAI({ apiKey });
-  } catch (e) {
-    console.error("Failed to initialize Gemini AI:", e);
-    return null;
-  }
-};
-
-// Types for weather data
-interface WeatherData {
-  city: string;
-  temp: number;
-  feelsLike: number;
-  condition: string;
-  humidity: number;
-  windSpeed: number;
-  pressure: number;
-  uvIndex: number;
-  precipitation: number;
-  isDay: boolean;
-  aiAnalysis: string;
-}
-
-const containerVariants = {
-  hidden: { opacity: 0 },
-  visible: {
-    opacity: 1,
-    transition: { staggerChildren: 0.1, delayChildren: 0.2 },
-  },
-  exit: { opacity: 0, transition: { duration: 0.3 } },
-};
-
-const itemVariants = {
-  hidden: { y: 20, opacity: 0, filter: "blur(10px)", scale: 0.95 },
-  visible: {
-    y: 0,
-    opacity: 1,
-    filter: "blur(0px)",
-    scale: 1,
-    transition: { type: "spring", stiffness: 50, damping: 15 },
-  },
-};
+import type { GeoLocation, WeatherData } from './types.ts';
+import { containerVariants, itemVariants } from './lib/animation.ts';
+import { formatCoordinates } from './lib/coordinates.ts';
+import { formatLocationLabel } from './lib/locations.ts';
+import { getWeatherCodeInfo, getWeatherIcon } from './lib/weatherCodes.ts';
+import { getConditionVisual } from './lib/conditionVisuals.ts';
+import { formatClockTime } from './lib/time.ts';
+import { formatTemperatureDelta } from './lib/history.ts';
+import { translateCondition, type MessageKey } from './lib/i18n.ts';
+import { loadTelemetry } from './lib/weatherApi.ts';
+import { buildWeatherPath, parseWeatherRoute, resolveRouteLocation, type WeatherRoute } from './lib/routes.ts';
+import { useUnitPreferences } from './hooks/useUnitPreferences.ts';
+import { useLocale } from './hooks/useLocale.ts';
+import { useSavedLocations } from './hooks/useSavedLocations.ts';
+import { useWeatherAlerts } from './hooks/useWeatherAlerts.ts';
+import { useOnlineStatus } from './hooks/useOnlineStatus.ts';
+import { useBriefing } from './hooks/useBriefing.ts';
+import { useWeatherChat } from './hooks/useWeatherChat.ts';
+import { useClimateComparison } from './hooks/useClimateComparison.ts';
+import { useRecentSearches } from './hooks/useRecentSearches.ts';
+import {
+  isOfflineError, recallLatestTelemetry, recallTelemetry, rememberTelemetry, type StoredTelemetry,
+} from './lib/offlineStore.ts';
+import { savedLocationId } from './lib/savedLocations.ts';
+import { isAbortError, toApiError, type ApiError } from './lib/apiClient.ts';
+import HourlyStrip from './components/HourlyStrip.tsx';
+import DailyForecast from './components/DailyForecast.tsx';
+import LocationSearch from './components/LocationSearch.tsx';
+import UnitSettings from './components/UnitSettings.tsx';
+import Dashboard from './components/Dashboard.tsx';
+import AlertRulesPanel from './components/AlertRulesPanel.tsx';
+import AlertCards from './components/AlertCards.tsx';
+import BriefingCard from './components/BriefingCard.tsx';
+import ChatPanel from './components/ChatPanel.tsx';
+import HistoryView from './components/HistoryView.tsx';
+import AirQualityCard from './components/AirQualityCard.tsx';
+import AstronomyCard from './components/AstronomyCard.tsx';
+import ErrorPanel from './components/ErrorPanel.tsx';
+import ExportMenu from './components/ExportMenu.tsx';
+import PrintReport from './components/PrintReport.tsx';
 
 // Loading messages for the epic loading sequence
-const loadingSteps = [
-  "Establishing satellite uplink...",
-  "Calibrating atmospheric sensors...",
-  "Running predictive models...",
-  "Synthesizing AI analysis...",
+const loadingSteps: MessageKey[] = [
+  'loading.uplink',
+  'loading.sensors',
+  'loading.models',
+  'loading.analysis',
 ];
 
 export default function App() {
-  const [query, setQuery] = useState('');
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState(0);
-  const [initializing, setInitializing] = useState(true);
-  const [error, setError] = useState('');
+  // A deep link (/w/:slug?lat=&lon=&units=) opens straight into the weather view, without the splash
+  const [initialRoute] = useState(() => parseWeatherRoute(window.location.pathname, window.location.search));
+  const [initializing, setInitializing] = useState(!initialRoute);
+  // The error panel's contents, with the action that repeats whatever failed
+  const [failure, setFailure] = useState<{ error: ApiError; retry?: () => void } | null>(null);
+  // The telemetry request in flight; a new search cancels it
+  const telemetryRequest = useRef<AbortController | null>(null);
+  const { locale, setLocale, i18n } = useLocale();
+  const { t } = i18n;
+  const { units, setUnits, releaseLinkedUnits, format } = useUnitPreferences(initialRoute?.units, i18n.tag);
+  const briefing = useBriefing(format, i18n);
+  // Units, profile and language the briefing on screen was written for
+  const briefedWith = useRef({ units, profile: briefing.profile, locale });
+  const favourites = useSavedLocations();
+  const alerts = useWeatherAlerts(format, t);
+  const recentSearches = useRecentSearches();
+  const [view, setView] = useState<'weather' | 'dashboard' | 'history'>('weather');
+  const [activeLocation, setActiveLocation] = useState<GeoLocation | null>(null);
+  const activeLocationId = useRef<string | null>(null);
+  // Epoch ms of the stored telemetry on screen, or null when it is live
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+  const online = useOnlineStatus();
+  const climate = useClimateComparison(weather);
+  // The assistant resolves "here" to whatever location is on screen
+  const chat = useWeatherChat(format, i18n, () => ({
+    location: activeLocation
+      ? { label: formatLocationLabel(activeLocation), latitude: activeLocation.latitude, longitude: activeLocation.longitude }
+      : undefined,
+  }));
 
   // Initial startup animation
   useEffect(() => {
@@ -92,94 +106,167 @@ export default function App() {
     return () => clearInterval(interval);
   }, [loading]);
 
-  const fetchWeather = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!query.trim()) return;
+  // Streams a briefing into the weather on screen; resolves with the finished one, or null if superseded
+  const streamInto = (snapshot: WeatherData, locationId: string) => {
+    briefedWith.current = { units, profile: briefing.profile, locale };
+    return briefing.brief(snapshot, (aiAnalysis) => {
+      if (activeLocationId.current === locationId) setWeather((prev) => (prev ? { ...prev, aiAnalysis } : prev));
+    });
+  };
 
-    setLoading(true);
-    setError('');
-    setWeather(null);
+  // The briefing quotes values in the chosen units for the chosen audience and language, so it is regenerated when any changes
+  useEffect(() => {
+    const { units: briefedUnits, profile: briefedProfile, locale: briefedLocale } = briefedWith.current;
+    if (!weather || !activeLocationId.current) return;
+    if (briefedUnits === units && briefedProfile === briefing.profile && briefedLocale === locale) return;
+    streamInto(weather, activeLocationId.current);
+  }, [units, briefing.profile, locale, weather]);
+
+  // Background refreshes keep the current (stale) view on screen and never show the loader or errors.
+  // `push` records the location as a browser history entry and a recent search; history navigation and retries skip it.
+  const fetchWeather = async (location: GeoLocation, verified: boolean, { background = false, push = !background } = {}) => {
+    const locationId = savedLocationId(location);
+    if (background && telemetryRequest.current) return;
+    telemetryRequest.current?.abort();
+    const controller = new AbortController();
+    telemetryRequest.current = controller;
+    if (!background) {
+      // Units from a shared link belong to the linked place; another place opens in the viewer's own units
+      if (activeLocationId.current !== null && activeLocationId.current !== locationId) releaseLinkedUnits();
+      setView('weather');
+      setActiveLocation(location);
+      activeLocationId.current = locationId;
+      setLoading(true);
+      setFailure(null);
+      setWeather(null);
+      setStaleSince(null);
+      briefing.cancel();
+    }
+    if (push) {
+      const path = buildWeatherPath(location, units);
+      if (path !== window.location.pathname + window.location.search) window.history.pushState(null, '', path);
+      recentSearches.remember(location, verified);
+    }
 
     try {
-      // Step 1: Geocoding
-      const geoRes = await fetch(`https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=1&language=en&format=json`);
-      const geoData = await geoRes.json();
+      // Steps 1-2: Location is already resolved by the search box; fetch the advanced weather data for it
+      const snapshot = await loadTelemetry(location, verified, controller.signal);
 
-      if (!geoData.results || geoData.results.length === 0) {
-        throw new Error('Location not found in global database.');
-      }
+      // A newer search may have started while a background refresh was in flight
+      if (activeLocationId.current !== locationId) return;
+      const data: WeatherData = { ...snapshot, aiAnalysis: null };
+      setWeather(data);
+      setStaleSince(null);
+      alerts.evaluate(snapshot, locationId);
+
+      // Step 3: Peak AI Integration (Gemini Analysis, brokered by our backend so the key stays server-side).
+      // The briefing streams into the card while the telemetry is already on screen.
+      const savedAt = Date.now();
+      streamInto(data, locationId).then((aiAnalysis) => {
+        rememberTelemetry({ id: locationId, location, verified, weather: snapshot, aiAnalysis: aiAnalysis ?? undefined, savedAt });
+      });
 
-      const { latitude, longitude, name, country } = geoData.results[0];
-
-      // Step 2: Advanced Weather Data
-      const weatherRes = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,is_day,precipitation,weather_code,surface_pressure,wind_speed_10m,uv_index&wind_speed_unit=kmh`
-      );
-      const weatherData = await weatherRes.json();
-
-      if (weatherData.error) throw new Error('Failed to retrieve telemetry.');
-
-      const current = weatherData.current;
-
-      const getWeatherCondition = (code: number) => {
-        if (code === 0) return 'Clear Sky';
-        if (code >= 1 && code <= 3) return 'Partly Cloudy';
-        if (code >= 45 && code <= 48) return 'Foggy';
-        if (code >= 51 && code <= 55) return 'Drizzle';
-        if (code >= 61 && code <= 67) return 'Rain';
-        if (code >= 71 && code <= 77) return 'Snow';
-        if (code >= 80 && code <= 82) return 'Showers';
-        if (code >= 95 && code <= 99) return 'Thunderstorm';
-        return 'Atmospheric Anomaly';
-      };
-
-      const condition = getWeatherCondition(current.weather_code);
-
-      // Step 3: Peak AI Integration (Gemini Analysis)
-      let aiAnalysis = "AI analysis unavailable at this time.";
-      try {
-        const ai = getGeminiAI();
-        if (ai) {
-          const prompt = `You are the core AI of "Amarsipahi Weather", an advanced, highly intelligent meteorological system. 
-          Provide a 2-sentence, highly analytical, and slightly futuristic atmospheric briefing for ${name}, ${country}. 
-          Current telemetry: ${current.temperature_2m}°C (feels like ${current.apparent_temperature}°C), ${condition}, ${current.relative_humidity_2m}% humidity, wind ${current.wind_speed_10m} km/h, UV index ${current.uv_index}. 
-          Sentence 1: Analyze the atmosphere. Sentence 2: Give a precise, tactical recommendation for the user. Keep it professional, crisp, and intelligent.`;
-          
-          const response = await ai.models.generateContent({
-            model: "gemini-3.1-pro-preview",
-            contents: prompt,
-          });
-          aiAnalysis = response.text || aiAnalysis;
-        } else {
-          aiAnalysis = `Atmospheric conditions indicate ${condition.toLowerCase()} with a perceived temperature of ${current.apparent_temperature}°C. Standard operational precautions advised. (AI Offline - Missing API Key)`;
+    } catch (err) {
+      if (background || isAbortError(err)) return;
+      // Without a connection, fall back to the last telemetry we stored for this location
+      if (isOfflineError(err)) {
+        const stored = await recallTelemetry(locationId);
+        if (stored && activeLocationId.current === locationId) {
+          showStored(stored);
+          return;
         }
-      } catch (aiErr) {
-        console.error("AI Generation failed:", aiErr);
-        // Fallback if AI fails, app still works
-        aiAnalysis = `Atmospheric conditions indicate ${condition.toLowerCase()} with a perceived temperature of ${current.apparent_temperature}°C. Standard operational precautions advised.`;
       }
+      setFailure({ error: toApiError(err), retry: () => fetchWeather(location, verified, { push: false }) });
+    } finally {
+      // A superseded request leaves the loader to the one that replaced it
+      if (telemetryRequest.current === controller) {
+        telemetryRequest.current = null;
+        if (!background) setLoading(false);
+      }
+    }
+  };
 
-      setWeather({
-        city: `${name}, ${country}`,
-        temp: current.temperature_2m,
-        feelsLike: current.apparent_temperature,
-        condition: condition,
-        humidity: current.relative_humidity_2m,
-        windSpeed: current.wind_speed_10m,
-        pressure: current.surface_pressure,
-        uvIndex: current.uv_index,
-        precipitation: current.precipitation,
-        isDay: current.is_day === 1,
-        aiAnalysis: aiAnalysis,
-      });
+  const showStored = (stored: StoredTelemetry) => {
+    setActiveLocation(stored.location);
+    activeLocationId.current = stored.id;
+    setWeather({ ...stored.weather, aiAnalysis: stored.aiAnalysis ?? null });
+    briefedWith.current = { units, profile: briefing.profile, locale };
+    setStaleSince(stored.savedAt);
+  };
 
-    } catch (err: any) {
-      setError(err.message || 'Critical system failure during data acquisition.');
-    } finally {
-      setLoading(false);
+  // Looks the linked place up again, then loads it like a search without adding another history entry
+  const openRoute = async (route: WeatherRoute) => {
+    telemetryRequest.current?.abort();
+    const controller = new AbortController();
+    telemetryRequest.current = controller;
+    setView('weather');
+    setLoading(true);
+    setFailure(null);
+    setWeather(null);
+    briefing.cancel();
+    try {
+      const { location, verified } = await resolveRouteLocation(route, locale, controller.signal);
+      fetchWeather(location, verified, { push: false });
+    } catch {
+      // Only an abort gets here: a newer search took over, along with the loader
     }
   };
 
+  // Back to the start page: nothing on screen, nothing in flight
+  const closeWeather = () => {
+    releaseLinkedUnits();
+    telemetryRequest.current?.abort();
+    telemetryRequest.current = null;
+    briefing.cancel();
+    activeLocationId.current = null;
+    setActiveLocation(null);
+    setWeather(null);
+    setFailure(null);
+    setStaleSince(null);
+    setLoading(false);
+    setView('weather');
+  };
+
+  // The popstate listener is registered once, so it goes through a ref to reach the current render's handlers
+  const followHistory = useRef<(route: WeatherRoute | null) => void>(() => {});
+  followHistory.current = (route) => (route ? openRoute(route) : closeWeather());
+
+  useEffect(() => {
+    if (initialRoute) openRoute(initialRoute);
+    // Units pinned by an older entry are not reapplied; only the place follows the history
+    const onPopState = () => followHistory.current(parseWeatherRoute(window.location.pathname, window.location.search));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  // Keep the address bar shareable: a unit change rewrites the current entry's units
+  useEffect(() => {
+    if (activeLocation && parseWeatherRoute(window.location.pathname, window.location.search)) {
+      window.history.replaceState(null, '', buildWeatherPath(activeLocation, units));
+    }
+  }, [units]);
+
+  // Starting without a connection: show the most recently viewed location instead of an empty screen
+  useEffect(() => {
+    if (navigator.onLine || initialRoute) return;
+    recallLatestTelemetry().then((stored) => {
+      if (stored && activeLocationId.current === null) showStored(stored);
+    });
+  }, []);
+
+  // Refresh stale telemetry in the background once connectivity returns
+  useEffect(() => {
+    if (online && staleSince !== null && activeLocation && weather) {
+      fetchWeather(activeLocation, weather.verified, { background: true });
+    }
+  }, [online]);
+
+  // Background glow and hero art follow the actual condition and time of day
+  const HeroIcon = weather ? getWeatherIcon(weather.weatherCode, weather.isDay) : Sun;
+  const heroVisual = weather
+    ? getConditionVisual(getWeatherCodeInfo(weather.weatherCode).family, weather.isDay)
+    : null;
+
   if (initializing) {
     return (
       <div className="min-h-screen bg-[#030712] flex flex-col items-center justify-center text-white font-sans overflow-hidden relative">
@@ -202,21 +289,22 @@ export default function App() {
           </h1>
           <div className="flex items-center justify-center gap-4 text-sky-400/80 font-mono text-sm tracking-[0.3em] uppercase">
             <Activity className="w-4 h-4 animate-pulse" />
-            <span>Initializing Core Systems</span>
+            <span>{t('app.initializing')}</span>
           </div>
         </motion.div>
       </div>
     );
   }
 
+  // Printing swaps the whole screen for the report document
   return (
-    <div className="min-h-screen bg-[#030712] text-slate-200 font-sans overflow-hidden relative selection:bg-sky-500/30">
+    <div className="min-h-screen bg-[#030712] text-slate-200 font-sans overflow-hidden relative selection:bg-sky-500/30 print:min-h-0 print:bg-white print:overflow-visible">
       {/* Advanced Dynamic Background */}
-      <div className="fixed inset-0 z-0 pointer-events-none">
+      <div className="fixed inset-0 z-0 pointer-events-none print:hidden">
         <motion.div 
           animate={{ 
-            background: weather?.isDay 
-              ? 'radial-gradient(circle at 50% 0%, rgba(14, 165, 233, 0.15) 0%, transparent 70%)' 
+            background: heroVisual
+              ? heroVisual.glow
               : 'radial-gradient(circle at 50% 0%, rgba(59, 130, 246, 0.1) 0%, transparent 70%)'
           }}
           className="absolute inset-0 transition-colors duration-1000"
@@ -227,7 +315,7 @@ export default function App() {
         <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.02)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:64px_64px] [mask-image:radial-gradient(ellipse_80%_80%_at_50%_50%,black_40%,transparent_100%)]"></div>
       </div>
 
-      <div className="relative z-10 container mx-auto px-4 py-8 md:py-12 flex flex-col items-center min-h-screen max-w-6xl">
+      <div className="relative z-10 container mx-auto px-4 py-8 md:py-12 flex flex-col items-center min-h-screen max-w-6xl print:hidden">
         
         {/* Header & Search */}
         <motion.div 
@@ -235,40 +323,86 @@ export default function App() {
           animate={{ opacity: 1, y: 0 }}
           className="w-full flex flex-col md:flex-row items-center justify-between gap-8 mb-12"
         >
-          <div className="text-center md:text-left">
+          <div className="text-center md:text-start">
             <h1 className="text-2xl md:text-3xl font-serif font-bold tracking-widest text-white">
               AMARSIPAHI <span className="text-sky-500 font-light">WEATHER</span>
             </h1>
             <p className="text-sky-200/50 font-mono text-[10px] tracking-[0.4em] uppercase mt-2">
-              Global Atmospheric Intelligence
+              {t('app.tagline')}
             </p>
           </div>
 
-          <form onSubmit={fetchWeather} className="relative w-full md:w-96 group">
-            <div className="absolute -inset-0.5 bg-gradient-to-r from-sky-500/30 to-orange-500/30 rounded-lg blur opacity-0 group-hover:opacity-100 transition duration-500"></div>
-            <div className="relative flex items-center bg-[#0f172a]/80 backdrop-blur-xl border border-white/10 rounded-lg overflow-hidden">
-              <input
-                type="text"
-                placeholder="Enter coordinates or city..."
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                className="w-full bg-transparent text-white px-6 py-4 focus:outline-none placeholder:text-slate-600 font-mono text-sm tracking-wide"
-              />
-              <button 
-                type="submit"
-                disabled={loading}
-                className="px-6 py-4 text-sky-400 hover:text-white hover:bg-sky-500/20 transition-colors duration-300 disabled:opacity-50"
-              >
-                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
-              </button>
-            </div>
-          </form>
+          <div className="w-full md:w-auto flex items-start gap-3">
+            <LocationSearch
+              loading={loading}
+              onLocate={fetchWeather}
+              onError={(error, retry) => setFailure({ error, retry })}
+              i18n={i18n}
+            />
+            <button
+              type="button"
+              onClick={() => setView((prev) => (prev === 'dashboard' ? 'weather' : 'dashboard'))}
+              title={t('app.savedSites')}
+              aria-pressed={view === 'dashboard'}
+              className={`relative p-4 bg-[#0f172a]/80 backdrop-blur-xl border rounded-lg transition-colors duration-300 ${view === 'dashboard' ? 'border-sky-500/40 text-sky-300' : 'border-white/10 text-slate-400 hover:text-sky-300'}`}
+            >
+              <LayoutGrid className="w-5 h-5" />
+              {favourites.saved.length > 0 && (
+                <span className="absolute -top-1.5 -end-1.5 min-w-5 h-5 px-1 rounded-full bg-orange-500 text-[10px] font-mono text-white flex items-center justify-center">
+                  {favourites.saved.length}
+                </span>
+              )}
+            </button>
+            <AlertRulesPanel
+              rules={alerts.rules}
+              onChange={alerts.setRules}
+              saved={favourites.saved}
+              format={format}
+              activeCount={alerts.visibleAlerts().length}
+              notify={alerts.notify}
+              notificationsSupported={alerts.notificationsSupported}
+              onNotifyChange={alerts.enableNotifications}
+              i18n={i18n}
+            />
+            <ChatPanel messages={chat.messages} busy={chat.busy} onSend={chat.send} onReset={chat.reset} i18n={i18n} />
+            <UnitSettings units={units} onChange={setUnits} onLocaleChange={setLocale} i18n={i18n} />
+          </div>
         </motion.div>
 
         {/* Main Content Area */}
         <div className="w-full flex-1 flex flex-col items-center justify-center">
           <AnimatePresence mode="wait">
-            {loading ? (
+            {view === 'dashboard' ? (
+              <motion.div key="dashboard" exit={{ opacity: 0, transition: { duration: 0.3 } }} className="w-full">
+                <Dashboard
+                  saved={favourites.saved}
+                  format={format}
+                  onOpen={(entry) => fetchWeather(entry.location, entry.verified)}
+                  onRename={favourites.rename}
+                  onRemove={favourites.remove}
+                  onMove={favourites.move}
+                  syncId={favourites.syncId}
+                  syncError={favourites.syncError}
+                  onEnableSync={favourites.enableSync}
+                  onLinkSync={favourites.linkSync}
+                  onDisableSync={favourites.disableSync}
+                  alerts={alerts.visibleAlerts().filter((alert) => favourites.saved.some((entry) => entry.id === alert.locationId))}
+                  onDismissAlert={alerts.dismiss}
+                  onTelemetry={(id, data) => alerts.evaluate(data, id)}
+                  i18n={i18n}
+                />
+              </motion.div>
+            ) : view === 'history' && activeLocation && weather ? (
+              <motion.div key="history" exit={{ opacity: 0, transition: { duration: 0.3 } }} className="w-full">
+                <HistoryView
+                  location={activeLocation}
+                  timezone={weather.timezone}
+                  format={format}
+                  onBack={() => setView('weather')}
+                  i18n={i18n}
+                />
+              </motion.div>
+            ) : loading ? (
               <motion.div
                 key="loader"
                 initial={{ opacity: 0, filter: "blur(10px)" }}
@@ -296,20 +430,17 @@ export default function App() {
                   exit={{ opacity: 0, y: -10 }}
                   className="mt-8 text-sky-300/70 font-mono text-xs tracking-[0.2em] uppercase h-6"
                 >
-                  {loadingSteps[loadingStep]}
+                  {t(loadingSteps[loadingStep])}
                 </motion.p>
               </motion.div>
-            ) : error ? (
+            ) : failure ? (
               <motion.div
                 key="error"
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0 }}
-                className="bg-red-950/30 border border-red-500/30 rounded-2xl p-8 max-w-md text-center backdrop-blur-xl"
               >
-                <Zap className="w-12 h-12 text-red-500 mx-auto mb-4" />
-                <p className="text-red-400 font-mono text-sm tracking-widest mb-2 uppercase">System Error</p>
-                <p className="text-slate-300">{error}</p>
+                <ErrorPanel error={failure.error} onRetry={failure.retry} i18n={i18n} />
               </motion.div>
             ) : weather ? (
               <motion.div
@@ -320,67 +451,132 @@ export default function App() {
                 exit="exit"
                 className="w-full grid grid-cols-1 md:grid-cols-12 gap-6"
               >
+                {activeLocation && (
+                  <AlertCards
+                    alerts={alerts.visibleAlerts(savedLocationId(activeLocation))}
+                    format={format}
+                    onDismiss={alerts.dismiss}
+                    i18n={i18n}
+                  />
+                )}
+
                 {/* Bento Box 1: Primary Temperature (Spans 8 cols) */}
                 <motion.div 
                   variants={itemVariants}
                   className="md:col-span-8 bg-gradient-to-br from-[#0f172a]/90 to-[#020617]/90 backdrop-blur-2xl border border-white/5 rounded-3xl p-8 md:p-12 relative overflow-hidden group"
                 >
-                  <div className="absolute top-0 right-0 p-8 opacity-10 group-hover:opacity-20 transition-opacity duration-700">
-                    {weather.isDay ? <Sun className="w-64 h-64" /> : <CloudRain className="w-64 h-64" />}
+                  <div className="absolute top-0 end-0 p-8 opacity-10 group-hover:opacity-20 transition-opacity duration-700">
+                    <HeroIcon className={`w-64 h-64 ${heroVisual?.accent ?? ''}`} />
                   </div>
                   
                   <div className="relative z-10 flex flex-col h-full justify-between">
                     <div>
-                      <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-sky-500/10 border border-sky-500/20 text-sky-400 mb-8">
-                        <MapPin className="w-3 h-3" />
-                        <span className="font-mono text-[10px] tracking-widest uppercase">Verified Location</span>
+                      <div className="flex flex-wrap items-center gap-3 mb-8">
+                        {weather.verified ? (
+                          <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-sky-500/10 border border-sky-500/20 text-sky-400">
+                            <MapPin className="w-3 h-3" />
+                            <span className="font-mono text-[10px] tracking-widest uppercase">{t('weather.verified')}</span>
+                          </div>
+                        ) : (
+                          <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white/5 border border-white/10 text-slate-400">
+                            <Crosshair className="w-3 h-3" />
+                            <span className="font-mono text-[10px] tracking-widest uppercase">{formatCoordinates(weather)}</span>
+                          </div>
+                        )}
+                        {staleSince !== null && (
+                          <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-300">
+                            <WifiOff className="w-3 h-3" />
+                            <span className="font-mono text-[10px] tracking-widest uppercase">
+                              {t('weather.staleSince', { time: formatClockTime(staleSince, i18n.tag) })}
+                            </span>
+                          </div>
+                        )}
+                        {activeLocation && (
+                          <button
+                            type="button"
+                            onClick={() => favourites.toggle(activeLocation, weather.verified)}
+                            title={favourites.isSaved(activeLocation) ? t('weather.unsave') : t('weather.save')}
+                            className="p-1.5 rounded-full border border-white/10 hover:border-orange-400/40 transition-colors"
+                          >
+                            <Star className={`w-3.5 h-3.5 ${favourites.isSaved(activeLocation) ? 'fill-orange-400 text-orange-400' : 'text-slate-400'}`} />
+                          </button>
+                        )}
+                        {activeLocation && (
+                          <button
+                            type="button"
+                            onClick={() => setView('history')}
+                            title={t('weather.history')}
+                            className="p-1.5 rounded-full border border-white/10 text-slate-400 hover:text-sky-300 hover:border-sky-400/40 transition-colors"
+                          >
+                            <History className="w-3.5 h-3.5" />
+                          </button>
+                        )}
+                        <ExportMenu weather={weather} format={format} i18n={i18n} disabled={briefing.streaming} />
                       </div>
                       <h2 className="text-5xl md:text-7xl font-serif text-white mb-4 tracking-tight">{weather.city}</h2>
-                      <p className="text-2xl text-sky-200/70 font-light">{weather.condition}</p>
+                      <p className="text-2xl text-sky-200/70 font-light">{translateCondition(weather.weatherCode, t)}</p>
                     </div>
 
                     <div className="mt-16 flex items-end gap-6">
                       <div className="flex items-start">
                         <span className="text-8xl md:text-9xl font-light tracking-tighter text-white leading-none">
-                          {Math.round(weather.temp)}
+                          {format.temperatureValue(weather.temp)}
                         </span>
-                        <span className="text-4xl md:text-5xl text-orange-500 mt-2 font-light">°C</span>
+                        <span className="text-4xl md:text-5xl text-orange-500 mt-2 font-light">{format.temperatureSymbol}</span>
                       </div>
-                      <div className="pb-3 hidden md:block">
-                        <p className="text-slate-400 font-mono text-sm">Feels like <span className="text-white">{Math.round(weather.feelsLike)}°C</span></p>
+                      <div className="pb-3 hidden md:block space-y-1">
+                        <p className="text-slate-400 font-mono text-sm">{t('weather.feelsLike')} <span className="text-white">{format.temperature(weather.feelsLike)}</span></p>
+                        <p className="text-slate-400 font-mono text-sm">{t('weather.precipitation')} <span className="text-white">{format.precipitation(weather.precipitation)}</span></p>
                       </div>
                     </div>
+
+                    {/* Today's forecast against the same calendar day in past years */}
+                    {climate && (
+                      <div className="mt-6 flex flex-wrap items-center gap-2">
+                        {climate.anomalies.map((anomaly) => {
+                          const delta = anomaly.value - anomaly.normal;
+                          const tone = Math.abs(delta) < 1
+                            ? 'bg-white/5 border-white/10 text-slate-300'
+                            : delta > 0
+                              ? 'bg-orange-500/10 border-orange-500/30 text-orange-300'
+                              : 'bg-sky-500/10 border-sky-500/30 text-sky-300';
+                          return (
+                            <span
+                              key={anomaly.kind}
+                              title={t(anomaly.kind === 'high' ? 'climate.normalHigh' : 'climate.normalLow', { value: format.temperature(anomaly.normal) })}
+                              className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border font-mono text-[10px] tracking-widest uppercase ${tone}`}
+                            >
+                              {t(`climate.${anomaly.kind}`)} {formatTemperatureDelta(anomaly, format, i18n.number)}
+                            </span>
+                          );
+                        })}
+                        <span className="font-mono text-[10px] tracking-widest uppercase text-slate-500">
+                          {t('climate.versus', { years: climate.years })}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </motion.div>
 
                 {/* Bento Box 2: AI Analysis (Spans 4 cols) */}
-                <motion.div 
-                  variants={itemVariants}
-                  className="md:col-span-4 bg-gradient-to-b from-sky-900/20 to-[#0f172a]/90 backdrop-blur-2xl border border-sky-500/20 rounded-3xl p-8 relative overflow-hidden flex flex-col"
-                >
-                  <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-sky-400 to-orange-400"></div>
-                  <div className="flex items-center gap-3 mb-6">
-                    <div className="p-2 bg-sky-500/20 rounded-lg">
-                      <Sparkles className="w-5 h-5 text-sky-400" />
-                    </div>
-                    <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">Gemini AI Analysis</h3>
-                  </div>
-                  <div className="flex-1 flex items-center">
-                    <p className="text-slate-300 leading-relaxed text-lg font-serif italic">
-                      "{weather.aiAnalysis}"
-                    </p>
-                  </div>
-                </motion.div>
+                <BriefingCard
+                  briefing={weather.aiAnalysis}
+                  streaming={briefing.streaming}
+                  profile={briefing.profile}
+                  onProfileChange={briefing.setProfile}
+                  placeholder={t('briefing.offline')}
+                  i18n={i18n}
+                />
 
                 {/* Bento Box 3-6: Metrics Grid (Span 3 cols each) */}
                 {[
-                  { label: 'Humidity', value: `${weather.humidity}%`, icon: Droplets, color: 'text-blue-400', bg: 'bg-blue-400/10' },
-                  { label: 'Wind Velocity', value: `${weather.windSpeed} km/h`, icon: Wind, color: 'text-emerald-400', bg: 'bg-emerald-400/10' },
-                  { label: 'UV Index', value: weather.uvIndex, icon: Sun, color: 'text-orange-400', bg: 'bg-orange-400/10' },
-                  { label: 'Pressure', value: `${weather.pressure} hPa`, icon: Gauge, color: 'text-purple-400', bg: 'bg-purple-400/10' },
-                ].map((metric, idx) => (
+                  { key: 'weather.humidity', value: i18n.percent(weather.humidity), icon: Droplets, color: 'text-blue-400', bg: 'bg-blue-400/10' },
+                  { key: 'weather.wind', value: format.wind(weather.windSpeed), icon: Wind, color: 'text-emerald-400', bg: 'bg-emerald-400/10' },
+                  { key: 'weather.uvIndex', value: i18n.number(weather.uvIndex, 1), icon: Sun, color: 'text-orange-400', bg: 'bg-orange-400/10' },
+                  { key: 'weather.pressure', value: format.pressure(weather.pressure), icon: Gauge, color: 'text-purple-400', bg: 'bg-purple-400/10' },
+                ].map((metric: { key: MessageKey; value: string; icon: typeof Sun; color: string; bg: string }) => (
                   <motion.div 
-                    key={metric.label}
+                    key={metric.key}
                     variants={itemVariants}
                     whileHover={{ y: -5, backgroundColor: "rgba(15, 23, 42, 0.9)" }}
                     className="md:col-span-3 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6 transition-all duration-300"
@@ -389,12 +585,19 @@ export default function App() {
                       <div className={`p-3 rounded-2xl ${metric.bg}`}>
                         <metric.icon className={`w-6 h-6 ${metric.color}`} />
                       </div>
-                      <p className="text-[10px] text-slate-400 font-mono uppercase tracking-widest">{metric.label}</p>
+                      <p className="text-[10px] text-slate-400 font-mono uppercase tracking-widest">{t(metric.key)}</p>
                     </div>
                     <p className="text-2xl font-light text-white tracking-wide">{metric.value}</p>
                   </motion.div>
                 ))}
 
+                {weather.airQuality && <AirQualityCard airQuality={weather.airQuality} timezone={weather.timezone} i18n={i18n} />}
+
+                <AstronomyCard weather={weather} i18n={i18n} />
+
+                <HourlyStrip hourly={weather.hourly} timezone={weather.timezone} format={format} i18n={i18n} />
+                <DailyForecast daily={weather.daily} timezone={weather.timezone} format={format} i18n={i18n} />
+
               </motion.div>
             ) : (
               <motion.div 
@@ -402,12 +605,45 @@ export default function App() {
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0, scale: 0.9 }}
-                className="text-center opacity-40"
+                className="text-center"
               >
-                <div className="w-32 h-32 border border-dashed border-slate-600 rounded-full mx-auto flex items-center justify-center mb-6">
-                  <Activity className="w-8 h-8 text-slate-500" />
+                <div className="opacity-40">
+                  <div className="w-32 h-32 border border-dashed border-slate-600 rounded-full mx-auto flex items-center justify-center mb-6">
+                    <Activity className="w-8 h-8 text-slate-500" />
+                  </div>
+                  <p className="font-mono text-xs tracking-[0.4em] uppercase text-slate-400">{t('app.awaiting')}</p>
                 </div>
-                <p className="font-mono text-xs tracking-[0.4em] uppercase text-slate-400">Awaiting Coordinates</p>
+
+                {recentSearches.recent.length > 0 && (
+                  <div className="mt-10 w-full max-w-md mx-auto">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="flex items-center gap-2 font-mono text-[10px] tracking-[0.2em] uppercase text-slate-500">
+                        <Clock className="w-3 h-3" /> {t('app.recentSearches')}
+                      </p>
+                      <button
+                        type="button"
+                        onClick={recentSearches.clear}
+                        className="font-mono text-[10px] tracking-widest uppercase text-slate-600 hover:text-red-400 transition-colors"
+                      >
+                        {t('app.clear')}
+                      </button>
+                    </div>
+                    <ul className="flex flex-wrap justify-center gap-2">
+                      {recentSearches.recent.map((entry) => (
+                        <li key={entry.id}>
+                          <button
+                            type="button"
+                            onClick={() => fetchWeather(entry.location, entry.verified)}
+                            title={formatCoordinates(entry.location)}
+                            className="px-3 py-1.5 rounded-full bg-[#0f172a]/60 border border-white/10 text-xs text-slate-300 hover:text-sky-300 hover:border-sky-500/40 transition-colors"
+                          >
+                            {entry.label}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
@@ -416,14 +652,16 @@ export default function App() {
         {/* Footer */}
         <footer className="w-full mt-12 py-6 border-t border-white/5 flex flex-col md:flex-row items-center justify-between gap-4">
           <p className="text-[10px] uppercase tracking-[0.3em] text-slate-600 font-mono">
-            Amarsipahi Weather OS • Build 2.0
+            {t('app.build')}
           </p>
           <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.2em] text-slate-600 font-mono">
-            <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
-            Systems Nominal
+            <span className={`w-2 h-2 rounded-full animate-pulse ${online ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>
+            {online ? t('app.online') : t('app.offline')}
           </div>
         </footer>
       </div>
+
+      {view === 'weather' && !loading && !failure && weather && <PrintReport weather={weather} format={format} i18n={i18n} />}
     </div>
   );
 }
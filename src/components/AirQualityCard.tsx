@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { Leaf, Flower2 } from 'lucide-react';
+import type { AirQuality, PollenType } from '../types.ts';
+import { itemVariants } from '../lib/animation.ts';
+import { formatHour } from '../lib/time.ts';
+import { AQI_SCALES, getAqiCategory, getPollenLevel, POLLEN_TYPES, type AqiScale } from '../lib/airQuality.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+interface AirQualityCardProps {
+  airQuality: AirQuality;
+  timezone: string;
+  i18n: I18n;
+}
+
+const HOURS_SHOWN = 48;
+
+export default function AirQualityCard({ airQuality, timezone, i18n }: AirQualityCardProps) {
+  const { t, tag } = i18n;
+  const reading = (value: number) => i18n.number(value);
+  const [scale, setScale] = useState<AqiScale>('european');
+  const current = scale === 'european' ? airQuality.europeanAqi : airQuality.usAqi;
+  const category = getAqiCategory(scale, current);
+
+  // Trend starts at the hour in progress, like the hourly forecast strip
+  const nowSeconds = Date.now() / 1000;
+  const { hourly } = airQuality;
+  const series = scale === 'european' ? hourly.europeanAqi : hourly.usAqi;
+  const firstIndex = Math.max(hourly.time.findIndex((time) => time + 3600 > nowSeconds), 0);
+  const trend = hourly.time.slice(firstIndex, firstIndex + HOURS_SHOWN).map((time, offset) => ({ time, value: series[firstIndex + offset] }));
+  const trendMax = Math.max(...trend.map((hour) => hour.value).filter(Number.isFinite), 1);
+
+  const pollen = (Object.keys(POLLEN_TYPES) as PollenType[]).filter((type) => Number.isFinite(airQuality.pollen[type]));
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-emerald-500/10 rounded-lg">
+          <Leaf className="w-5 h-5 text-emerald-400" />
+        </div>
+        <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{t('air.title')}</h3>
+        <div className="ms-auto flex rounded-md border border-white/10 overflow-hidden">
+          {(Object.keys(AQI_SCALES) as AqiScale[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setScale(key)}
+              className={`px-2.5 py-1 font-mono text-[10px] uppercase tracking-widest ${scale === key ? 'bg-sky-500/20 text-sky-300' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {t(`air.short.${key}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr_auto] gap-8 items-start">
+        <div>
+          <p className="text-[10px] text-slate-400 font-mono uppercase tracking-widest mb-2">{t(`air.scale.${scale as AqiScale}`)}</p>
+          <p className={`text-6xl font-light tracking-tighter ${category?.text ?? 'text-slate-500'}`}>{reading(current)}</p>
+          <p className={`mt-2 font-mono text-xs uppercase tracking-widest ${category?.text ?? 'text-slate-500'}`}>
+            {category ? t(`aqi.${category.id}`) : t('air.noData')}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {[
+            { label: 'PM2.5', value: airQuality.pm25 },
+            { label: 'PM10', value: airQuality.pm10 },
+            { label: 'O₃', value: airQuality.ozone },
+            { label: 'NO₂', value: airQuality.nitrogenDioxide },
+          ].map((pollutant) => (
+            <div key={pollutant.label} className="rounded-2xl bg-white/[0.02] border border-white/5 p-4">
+              <p className="font-mono text-[10px] tracking-widest text-slate-400 uppercase">{pollutant.label}</p>
+              <p className="text-xl font-light text-white">
+                {reading(pollutant.value)} <span className="text-[10px] font-mono text-slate-500">µg/m³</span>
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="min-w-44">
+          <p className="flex items-center gap-2 text-[10px] text-slate-400 font-mono uppercase tracking-widest mb-2">
+            <Flower2 className="w-3.5 h-3.5 text-pink-300" /> {t('air.pollen')}
+          </p>
+          {pollen.length === 0 ? (
+            <p className="text-xs text-slate-500">{t('air.notModelled')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {pollen.map((type) => (
+                <li key={type} className="flex justify-between gap-4 font-mono text-[11px]">
+                  <span className="text-slate-300">{t(`pollen.${type}`)}</span>
+                  <span className="text-slate-500">{t(`pollenLevel.${getPollenLevel(airQuality.pollen[type])}`)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {trend.length > 0 && (
+        <div className="mt-6">
+          <div dir="ltr" className="flex items-end gap-[2px] h-16">
+            {trend.map((hour) => (
+              <div
+                key={hour.time}
+                title={`${formatHour(hour.time, timezone, tag)} · ${reading(hour.value)}`}
+                className={`flex-1 rounded-t-sm ${getAqiCategory(scale, hour.value)?.fill ?? 'bg-white/5'} opacity-80 hover:opacity-100`}
+                style={{ height: `${Number.isFinite(hour.value) ? Math.max((hour.value / trendMax) * 100, 4) : 4}%` }}
+              />
+            ))}
+          </div>
+          <div dir="ltr" className="flex justify-between mt-2 font-mono text-[10px] text-slate-500">
+            <span>{formatHour(trend[0].time, timezone, tag)}</span>
+            <span dir={i18n.dir}>{t('air.nextHours', { count: trend.length })}</span>
+            <span>{formatHour(trend[trend.length - 1].time, timezone, tag)}</span>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
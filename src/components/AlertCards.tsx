@@ -0,0 +1,54 @@
+import { motion } from 'motion/react';
+import { AlertTriangle, Info, ShieldAlert, X } from 'lucide-react';
+import type { UnitFormatter } from '../lib/units.ts';
+import { itemVariants } from '../lib/animation.ts';
+import { describeAlert, type AlertSeverity, type TriggeredAlert } from '../lib/alerts.ts';
+import { formatHour, formatWeekday } from '../lib/time.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+const SEVERITY_STYLES: Record<AlertSeverity, { icon: typeof Info; card: string; text: string }> = {
+  info: { icon: Info, card: 'bg-sky-950/40 border-sky-500/30', text: 'text-sky-300' },
+  warning: { icon: AlertTriangle, card: 'bg-amber-950/40 border-amber-500/30', text: 'text-amber-300' },
+  critical: { icon: ShieldAlert, card: 'bg-red-950/40 border-red-500/40', text: 'text-red-400' },
+};
+
+interface AlertCardsProps {
+  alerts: TriggeredAlert[];
+  format: UnitFormatter;
+  onDismiss: (key: string) => void;
+  // Show the location name on each card (dashboard); the weather view already names it
+  showCity?: boolean;
+  i18n: I18n;
+}
+
+export default function AlertCards({ alerts, format, onDismiss, showCity = false, i18n }: AlertCardsProps) {
+  const { t, tag } = i18n;
+  if (alerts.length === 0) return null;
+
+  return (
+    <motion.div variants={itemVariants} className="md:col-span-12 grid grid-cols-1 md:grid-cols-2 gap-3">
+      {alerts.map((alert) => {
+        const style = SEVERITY_STYLES[alert.rule.severity];
+        const when = alert.forecastTime === null
+          ? t('alerts.now')
+          : alert.resolution === 'daily'
+            ? formatWeekday(alert.forecastTime, alert.timezone, tag)
+            : `${formatWeekday(alert.forecastTime, alert.timezone, tag)} ${formatHour(alert.forecastTime, alert.timezone, tag)}`;
+        return (
+          <div key={alert.key} className={`flex items-start gap-4 rounded-2xl border p-4 backdrop-blur-xl ${style.card}`}>
+            <style.icon className={`w-5 h-5 mt-0.5 flex-none ${style.text}`} />
+            <div className="flex-1 min-w-0">
+              <p className={`font-mono text-[10px] tracking-widest uppercase ${style.text}`}>
+                {t(`severity.${alert.rule.severity}`)} · {when}{showCity ? ` · ${alert.city}` : ''}
+              </p>
+              <p className="mt-1 text-sm text-slate-200">{describeAlert(alert, format, t)}</p>
+            </div>
+            <button type="button" title={t('alerts.dismiss')} onClick={() => onDismiss(alert.key)} className="text-slate-500 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </motion.div>
+  );
+}
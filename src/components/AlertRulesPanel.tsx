@@ -0,0 +1,168 @@
+import { useState, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Bell, BellRing, Plus, Trash2 } from 'lucide-react';
+import type { SavedLocation } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import {
+  ALERT_COMPARATORS, ALERT_METRICS, ALERT_SEVERITIES, formatAlertValue,
+  type AlertComparator, type AlertMetric, type AlertRule, type AlertSeverity,
+} from '../lib/alerts.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onChange: (rules: AlertRule[]) => void;
+  saved: SavedLocation[];
+  format: UnitFormatter;
+  activeCount: number;
+  notify: boolean;
+  notificationsSupported: boolean;
+  onNotifyChange: (enabled: boolean) => void;
+  i18n: I18n;
+}
+
+const selectClass = 'bg-[#020617] border border-white/10 rounded-md px-2 py-1.5 text-xs font-mono text-white focus:outline-none focus:border-sky-500/40';
+
+export default function AlertRulesPanel({
+  rules, onChange, saved, format, activeCount, notify, notificationsSupported, onNotifyChange, i18n,
+}: AlertRulesPanelProps) {
+  const { t } = i18n;
+  const [open, setOpen] = useState(false);
+  const [metric, setMetric] = useState<AlertMetric>('uvIndex');
+  const [comparator, setComparator] = useState<AlertComparator>('>=');
+  const [threshold, setThreshold] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [severity, setSeverity] = useState<AlertSeverity>('warning');
+
+  const unit = ALERT_METRICS[metric].unit;
+  const unitSymbol = unit ? format.symbols[unit] : ALERT_METRICS[metric].suffix ?? '';
+
+  const addRule = (e: FormEvent) => {
+    e.preventDefault();
+    const value = Number(threshold);
+    if (threshold.trim() === '' || !Number.isFinite(value)) return;
+    onChange([
+      ...rules,
+      {
+        id: crypto.randomUUID(),
+        metric,
+        comparator,
+        // Typed in the user's units, stored in metric
+        threshold: unit ? format.toMetric[unit](value) : value,
+        locationId: locationId || null,
+        severity,
+        enabled: true,
+      },
+    ]);
+    setThreshold('');
+  };
+
+  const locationLabel = (id: string | null) =>
+    id === null ? t('alerts.allLocations') : saved.find((entry) => entry.id === id)?.label ?? t('alerts.removedSite');
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        title={t('alerts.button')}
+        aria-expanded={open}
+        className="relative p-4 bg-[#0f172a]/80 backdrop-blur-xl border border-white/10 rounded-lg text-slate-400 hover:text-sky-300 transition-colors duration-300"
+      >
+        {activeCount > 0 ? <BellRing className="w-5 h-5 text-amber-300" /> : <Bell className="w-5 h-5" />}
+        {activeCount > 0 && (
+          <span className="absolute -top-1.5 -end-1.5 min-w-5 h-5 px-1 rounded-full bg-red-500 text-[10px] font-mono text-white flex items-center justify-center">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute end-0 z-30 mt-2 w-[26rem] max-w-[90vw] bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-2xl p-5 shadow-2xl space-y-5"
+          >
+            <div className="flex items-center justify-between">
+              <p className="font-mono text-[10px] tracking-[0.2em] text-sky-300 uppercase">{t('alerts.title')}</p>
+              <label className={`flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest ${notificationsSupported ? 'text-slate-400' : 'text-slate-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={notify}
+                  disabled={!notificationsSupported}
+                  onChange={(e) => onNotifyChange(e.target.checked)}
+                  className="accent-sky-500"
+                />
+                {t('alerts.notifications')}
+              </label>
+            </div>
+
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {rules.length === 0 && <li className="text-xs text-slate-500">{t('alerts.empty')}</li>}
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center gap-3 rounded-lg bg-white/[0.02] border border-white/5 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => onChange(rules.map((r) => (r.id === rule.id ? { ...r, enabled: e.target.checked } : r)))}
+                    title={rule.enabled ? t('alerts.disable') : t('alerts.enable')}
+                    className="accent-sky-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-xs ${rule.enabled ? 'text-white' : 'text-slate-500'}`}>
+                      {t(`alertMetric.${rule.metric}`)} {rule.comparator} {formatAlertValue(rule.metric, rule.threshold, format)}
+                    </p>
+                    <p className="font-mono text-[10px] text-slate-500 uppercase tracking-widest truncate">
+                      {t(`severity.${rule.severity}`)} · {locationLabel(rule.locationId)}
+                    </p>
+                  </div>
+                  <button type="button" title={t('alerts.delete')} onClick={() => onChange(rules.filter((r) => r.id !== rule.id))} className="text-slate-500 hover:text-red-400">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <form onSubmit={addRule} className="space-y-3 border-t border-white/5 pt-4">
+              <div className="grid grid-cols-[1fr_auto_6rem] gap-2">
+                <select value={metric} onChange={(e) => setMetric(e.target.value as AlertMetric)} className={selectClass}>
+                  {(Object.keys(ALERT_METRICS) as AlertMetric[]).map((key) => (
+                    <option key={key} value={key}>{t(`alertMetric.${key}`)}</option>
+                  ))}
+                </select>
+                <select value={comparator} onChange={(e) => setComparator(e.target.value as AlertComparator)} className={selectClass}>
+                  {ALERT_COMPARATORS.map((op) => <option key={op} value={op}>{op}</option>)}
+                </select>
+                <div className="relative">
+                  <input
+                    type="number"
+                    step="any"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    placeholder={t('alerts.limit')}
+                    className={`${selectClass} w-full pe-9`}
+                  />
+                  <span className="absolute end-2 top-1/2 -translate-y-1/2 text-[10px] font-mono text-slate-500">{unitSymbol}</span>
+                </div>
+              </div>
+              <div className="grid grid-cols-[1fr_auto_auto] gap-2">
+                <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className={selectClass}>
+                  <option value="">{t('alerts.allLocations')}</option>
+                  {saved.map((entry) => <option key={entry.id} value={entry.id}>{entry.label}</option>)}
+                </select>
+                <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertSeverity)} className={selectClass}>
+                  {ALERT_SEVERITIES.map((level) => <option key={level} value={level}>{t(`severity.${level}`)}</option>)}
+                </select>
+                <button type="submit" className="flex items-center gap-1 px-3 rounded-md bg-sky-500/20 text-sky-300 hover:bg-sky-500/30 font-mono text-[10px] uppercase tracking-widest">
+                  <Plus className="w-3 h-3" /> {t('alerts.add')}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
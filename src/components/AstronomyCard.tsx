@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2, AlertTriangle, Sunrise } from 'lucide-react';
+import type { WeatherData } from '../types.ts';
+import { itemVariants } from '../lib/animation.ts';
+import { formatHour } from '../lib/time.ts';
+import type { I18n, MessageKey } from '../lib/i18n.ts';
+import {
+  compareSunTimes, getMoonIllumination, getMoonTimes, getSunTimes, sunAltitude, SUN_TIMES_TOLERANCE_MINUTES,
+  type Crossing, type MoonIllumination, type SunTimes,
+} from '../lib/astronomy.ts';
+
+interface AstronomyCardProps {
+  weather: WeatherData;
+  i18n: I18n;
+}
+
+// Sun arc geometry, in SVG units: horizon at HORIZON_Y, the arc peaks ARC_HEIGHT above it
+const WIDTH = 300;
+const MARGIN = 20;
+const HORIZON_Y = 120;
+const ARC_HEIGHT = 95;
+const ARC_STEPS = 48;
+
+const arcPoint = (fraction: number) => ({
+  x: MARGIN + (WIDTH - 2 * MARGIN) * fraction,
+  y: HORIZON_Y - ARC_HEIGHT * Math.sin(Math.PI * fraction),
+});
+
+// Polyline along the arc between two fractions of the daylight span
+const arcPath = (from: number, to: number) => {
+  const start = Math.max(0, Math.min(from, to));
+  const end = Math.min(1, Math.max(from, to));
+  const steps = Math.max(Math.ceil((end - start) * ARC_STEPS), 1);
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const { x, y } = arcPoint(start + ((end - start) * step) / steps);
+    return `${step === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+};
+
+// Lit part of a 20-unit moon disc; the terminator is an ellipse that closes to a line at the quarters
+const moonPath = (phase: number) => {
+  const r = 10;
+  const rx = Math.abs(Math.cos(phase * 2 * Math.PI)) * r;
+  const waxing = phase < 0.5;
+  const gibbous = phase > 0.25 && phase < 0.75;
+  return `M${r},0 A${r},${r} 0 0 ${waxing ? 1 : 0} ${r},${2 * r} A${rx},${r} 0 0 ${waxing === gibbous ? 1 : 0} ${r},0 Z`;
+};
+
+export default function AstronomyCard({ weather, i18n }: AstronomyCardProps) {
+  const { t, tag } = i18n;
+  const { latitude, longitude, timezone, daily } = weather;
+  // Local midnight of the forecast's first day
+  const dayStart = daily.time[0];
+  const [now, setNow] = useState(() => Date.now() / 1000);
+
+  // Keep the "now" marker moving while the card is on screen
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sky: { sun: SunTimes; moon: Crossing; illumination: MoonIllumination } | null = useMemo(() => {
+    if (dayStart === undefined) return null;
+    return {
+      sun: getSunTimes(dayStart + 12 * 3600, latitude, longitude),
+      moon: getMoonTimes(dayStart, latitude, longitude),
+      illumination: getMoonIllumination(dayStart + 12 * 3600),
+    };
+  }, [dayStart, latitude, longitude]);
+
+  if (!sky) return null;
+  const { sun, moon, illumination } = sky;
+
+  const time = (unixSeconds: number | null) => (unixSeconds === null ? '—' : formatHour(unixSeconds, timezone, tag));
+  const span = (from: number | null, to: number | null) => (from === null || to === null ? '—' : `${time(from)}–${time(to)}`);
+  const duration = (seconds: number) => {
+    const minutes = Math.round(seconds / 60);
+    return t('astro.duration', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+  };
+
+  // The arc spans sunrise to sunset; in polar day it spans the whole calendar day
+  const arcStart = sun.sunrise.rise ?? (sun.polar === 'day' ? dayStart : null);
+  const arcEnd = sun.sunrise.set ?? (sun.polar === 'day' ? dayStart + 86_400 : null);
+  const toFraction = (unixSeconds: number) =>
+    arcStart === null || arcEnd === null ? 0 : (unixSeconds - arcStart) / (arcEnd - arcStart);
+  const nowFraction = toFraction(now);
+  const sunUp = arcStart !== null && nowFraction >= 0 && nowFraction <= 1;
+  // Below the horizon the marker waits at the end of the arc the sun will next rise from or just set at
+  const marker = sunUp ? arcPoint(nowFraction) : { x: arcPoint(nowFraction > 1 ? 1 : 0).x, y: HORIZON_Y };
+
+  // Golden hour near the horizon: where the sun never climbs past 6° the whole arc is golden,
+  // and in a midnight sun that never sinks below 6° there is none
+  const goldenSpans = arcStart === null
+    ? []
+    : sun.golden.rise !== null && sun.golden.set !== null
+      ? [[0, toFraction(sun.golden.rise)], [toFraction(sun.golden.set), 1]]
+      : sunAltitude(sun.solarNoon, latitude, longitude) < 6 ? [[0, 1]] : [];
+
+  const gap = compareSunTimes(sun.sunrise, daily.sunrise[0], daily.sunset[0]);
+
+  const rows: { key: MessageKey; value: string }[] = [
+    { key: 'astro.civilDawn', value: time(sun.civil.rise) },
+    { key: 'astro.civilDusk', value: time(sun.civil.set) },
+    { key: 'astro.blueMorning', value: span(sun.civil.rise, sun.blueGolden.rise) },
+    { key: 'astro.blueEvening', value: span(sun.blueGolden.set, sun.civil.set) },
+    { key: 'astro.goldenMorning', value: span(sun.blueGolden.rise, sun.golden.rise ?? sun.blueGolden.set) },
+    { key: 'astro.goldenEvening', value: span(sun.golden.set, sun.blueGolden.set) },
+    { key: 'astro.solarNoon', value: time(sun.solarNoon) },
+    { key: 'astro.dayLength', value: duration(sun.dayLength) },
+    { key: 'astro.moonrise', value: moon.rise === null ? t('astro.noEvent') : time(moon.rise) },
+    { key: 'astro.moonset', value: moon.set === null ? t('astro.noEvent') : time(moon.set) },
+  ];
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-amber-500/10 rounded-lg">
+          <Sunrise className="w-5 h-5 text-amber-400" />
+        </div>
+        <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{t('astro.title')}</h3>
+        {gap !== null && (
+          <span
+            className={`ms-auto inline-flex items-center gap-1.5 font-mono text-[10px] tracking-widest uppercase ${gap <= SUN_TIMES_TOLERANCE_MINUTES ? 'text-emerald-400/80' : 'text-amber-300'}`}
+          >
+            {gap <= SUN_TIMES_TOLERANCE_MINUTES ? <CheckCircle2 className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+            {t(gap <= SUN_TIMES_TOLERANCE_MINUTES ? 'astro.matches' : 'astro.differs', { minutes: Math.max(gap, 1) })}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-8 items-start">
+        <div>
+          {/* The sun crosses the sky left to right in the drawing, whatever the reading direction */}
+          <svg dir="ltr" viewBox={`0 0 ${WIDTH} ${HORIZON_Y + 30}`} className="w-full h-auto" role="img" aria-label={t('astro.title')}>
+            <line x1={0} x2={WIDTH} y1={HORIZON_Y} y2={HORIZON_Y} className="stroke-white/15" strokeWidth={1} />
+            {arcStart !== null && (
+              <>
+                <path d={arcPath(0, 1)} fill="none" className="stroke-sky-400/40" strokeWidth={2} strokeDasharray="3 4" />
+                {goldenSpans.map(([from, to]) => (
+                  <path key={from} d={arcPath(from, to)} fill="none" className="stroke-amber-400" strokeWidth={3} strokeLinecap="round" />
+                ))}
+              </>
+            )}
+            <circle
+              cx={marker.x}
+              cy={marker.y}
+              r={7}
+              className={sunUp ? 'fill-amber-300 stroke-amber-100' : 'fill-[#0f172a] stroke-slate-400'}
+              strokeWidth={2}
+            />
+            <text x={marker.x} y={marker.y - 12} textAnchor="middle" className="fill-slate-300 font-mono text-[9px] uppercase">
+              {t('astro.now')}
+            </text>
+            <text x={MARGIN} y={HORIZON_Y + 18} textAnchor="middle" className="fill-slate-400 font-mono text-[10px]">
+              {time(sun.sunrise.rise)}
+            </text>
+            <text x={WIDTH - MARGIN} y={HORIZON_Y + 18} textAnchor="middle" className="fill-slate-400 font-mono text-[10px]">
+              {time(sun.sunrise.set)}
+            </text>
+          </svg>
+
+          <div className="mt-4 grid grid-cols-2 gap-3">
+            <div className="rounded-2xl bg-white/[0.02] border border-white/5 p-4">
+              <p className="font-mono text-[10px] tracking-widest text-slate-400 uppercase">{t('astro.sunrise')}</p>
+              <p className="mt-1 text-2xl font-light text-white">{time(sun.sunrise.rise)}</p>
+            </div>
+            <div className="rounded-2xl bg-white/[0.02] border border-white/5 p-4">
+              <p className="font-mono text-[10px] tracking-widest text-slate-400 uppercase">{t('astro.sunset')}</p>
+              <p className="mt-1 text-2xl font-light text-white">{time(sun.sunrise.set)}</p>
+            </div>
+          </div>
+          {sun.polar && (
+            <p className="mt-3 font-mono text-[10px] tracking-widest text-amber-300/80 uppercase">
+              {t(sun.polar === 'day' ? 'astro.polarDay' : 'astro.polarNight')}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-3">
+            {rows.map((row) => (
+              <div key={row.key}>
+                <dt className="font-mono text-[10px] tracking-widest text-slate-500 uppercase">{t(row.key)}</dt>
+                <dd className="text-sm text-slate-200">{row.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="mt-5 flex items-center gap-4 rounded-2xl bg-white/[0.02] border border-white/5 p-4">
+            {/* Southern observers see the lit side mirrored */}
+            <svg viewBox="0 0 20 20" className="w-10 h-10 shrink-0" style={{ transform: latitude < 0 ? 'scaleX(-1)' : undefined }}>
+              <circle cx={10} cy={10} r={10} className="fill-slate-700" />
+              <path d={moonPath(illumination.phase)} className="fill-slate-100" />
+            </svg>
+            <div>
+              <p className="font-mono text-[10px] tracking-widest text-slate-500 uppercase">{t('astro.moon')}</p>
+              <p className="text-sm text-slate-200">{t(`moonPhase.${illumination.name}`)}</p>
+              <p className="font-mono text-[10px] text-slate-400">
+                {t('astro.illuminated', { value: i18n.percent(illumination.fraction * 100) })}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,102 @@
+import { motion } from 'motion/react';
+import { Sparkles, AlertTriangle, ChevronRight } from 'lucide-react';
+import { itemVariants } from '../lib/animation.ts';
+import { BRIEFING_PROFILES, type AiBriefing, type BriefingProfile } from '../lib/briefing.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+interface BriefingCardProps {
+  briefing: AiBriefing | null;
+  streaming: boolean;
+  profile: BriefingProfile;
+  onProfileChange: (profile: BriefingProfile) => void;
+  // Shown when there is no briefing and none is on its way (e.g. offline)
+  placeholder: string;
+  i18n: I18n;
+}
+
+export default function BriefingCard({ briefing, streaming, profile, onProfileChange, placeholder, i18n }: BriefingCardProps) {
+  const { t } = i18n;
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="md:col-span-4 bg-gradient-to-b from-sky-900/20 to-[#0f172a]/90 backdrop-blur-2xl border border-sky-500/20 rounded-3xl p-8 relative overflow-hidden flex flex-col"
+    >
+      <div className="absolute top-0 start-0 w-full h-1 bg-gradient-to-r rtl:bg-gradient-to-l from-sky-400 to-orange-400"></div>
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-sky-500/20 rounded-lg">
+          <Sparkles className={`w-5 h-5 text-sky-400 ${streaming ? 'animate-pulse' : ''}`} />
+        </div>
+        <h3 className="flex-1 font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{t('briefing.title')}</h3>
+        <select
+          value={profile}
+          onChange={(e) => onProfileChange(e.target.value as BriefingProfile)}
+          title={t('briefing.profile')}
+          className="bg-[#020617] border border-white/10 rounded-md px-2 py-1 text-[10px] font-mono uppercase tracking-widest text-slate-300 focus:outline-none focus:border-sky-500/40"
+        >
+          {(Object.keys(BRIEFING_PROFILES) as BriefingProfile[]).map((key) => (
+            <option key={key} value={key}>{t(`profile.${key}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 flex flex-col gap-5">
+        {briefing?.summary ? (
+          <p className="text-slate-300 leading-relaxed text-lg font-serif italic">
+            "{briefing.summary}"
+          </p>
+        ) : (
+          <p className="text-slate-500 leading-relaxed text-lg font-serif italic">
+            {streaming ? t('loading.analysis') : placeholder}
+          </p>
+        )}
+
+        {briefing && briefing.risks.length > 0 && (
+          <div>
+            <p className="font-mono text-[10px] tracking-[0.2em] text-amber-300/80 uppercase mb-2">{t('briefing.risks')}</p>
+            <ul className="space-y-1.5">
+              {briefing.risks.map((risk, idx) => (
+                <li key={idx} className="flex gap-2 text-sm text-slate-300">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-400" />
+                  {risk}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {briefing && briefing.recommendations.length > 0 && (
+          <div>
+            <p className="font-mono text-[10px] tracking-[0.2em] text-sky-300/80 uppercase mb-2">{t('briefing.recommendations')}</p>
+            <ul className="space-y-1.5">
+              {briefing.recommendations.map((item, idx) => (
+                <li key={idx} className="flex gap-2 text-sm text-slate-300">
+                  <ChevronRight className="w-3.5 h-3.5 mt-0.5 shrink-0 text-sky-400 rtl:rotate-180" />
+                  {item}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {briefing?.confidence !== undefined && (
+        <div className="mt-6">
+          <div className="flex justify-between font-mono text-[10px] tracking-widest uppercase text-slate-500 mb-1.5">
+            <span>{t('briefing.confidence')}</span>
+            <span className="text-slate-300">{i18n.percent(briefing.confidence * 100)}</span>
+          </div>
+          <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+            <motion.div
+              initial={{ width: 0 }}
+              animate={{ width: `${briefing.confidence * 100}%` }}
+              className="h-full bg-gradient-to-r from-sky-400 to-orange-400"
+            />
+          </div>
+        </div>
+      )}
+      {briefing?.source === 'fallback' && !streaming && (
+        <p className="mt-6 font-mono text-[10px] tracking-widest uppercase text-slate-600">{t('briefing.standard')}</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { MessageSquare, X, Send, Loader2, Wrench, RotateCcw } from 'lucide-react';
+import type { ChatMessage, ToolCallRecord } from '../hooks/useWeatherChat.ts';
+import type { I18n, MessageKey } from '../lib/i18n.ts';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  busy: boolean;
+  onSend: (question: string) => void;
+  onReset: () => void;
+  i18n: I18n;
+}
+
+const SUGGESTIONS: MessageKey[] = ['chat.suggestion.run', 'chat.suggestion.rain'];
+
+const ToolCall = ({ call, failed }: { call: ToolCallRecord; failed: string }) => (
+  // Function calls and JSON results read left to right in every language
+  <details dir="ltr" className="rounded-lg bg-[#020617]/80 border border-white/5 text-[11px]">
+    <summary className="cursor-pointer px-3 py-2 flex items-center gap-2 font-mono text-slate-400 hover:text-sky-300">
+      <Wrench className="w-3 h-3 shrink-0" />
+      <span className="truncate">{call.name}({Object.entries(call.args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')})</span>
+      {'error' in call.result && <span className="ms-auto text-red-400 uppercase tracking-widest text-[9px]">{failed}</span>}
+    </summary>
+    <pre className="px-3 pb-3 max-h-48 overflow-auto font-mono text-slate-500 whitespace-pre-wrap break-all">
+      {JSON.stringify(call.result, null, 2)}
+    </pre>
+  </details>
+);
+
+export default function ChatPanel({ messages, busy, onSend, onReset, i18n }: ChatPanelProps) {
+  const { t } = i18n;
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const bottom: { current: HTMLDivElement | null } = useRef(null);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [messages, open]);
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || busy) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        title={t('chat.button')}
+        aria-expanded={open}
+        className={`p-4 bg-[#0f172a]/80 backdrop-blur-xl border rounded-lg transition-colors duration-300 ${open ? 'border-sky-500/40 text-sky-300' : 'border-white/10 text-slate-400 hover:text-sky-300'}`}
+      >
+        <MessageSquare className="w-5 h-5" />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute end-0 z-30 mt-2 w-[28rem] max-w-[90vw] h-[32rem] max-h-[75vh] bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl flex flex-col"
+          >
+            <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+              <p className="font-mono text-[10px] tracking-[0.2em] text-sky-300 uppercase">{t('chat.title')}</p>
+              <div className="flex items-center gap-3">
+                <button type="button" title={t('chat.new')} onClick={onReset} className="text-slate-500 hover:text-sky-300">
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" title={t('chat.close')} onClick={() => setOpen(false)} className="text-slate-500 hover:text-sky-300">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+              {messages.length === 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs text-slate-500">{t('chat.intro')}</p>
+                  {SUGGESTIONS.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      onClick={() => onSend(t(suggestion))}
+                      className="block w-full text-start text-xs text-slate-300 rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2 hover:border-sky-500/30"
+                    >
+                      {t(suggestion)}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {messages.map((message) => message.role === 'user' ? (
+                <div key={message.id} className="flex justify-end">
+                  <p className="max-w-[85%] rounded-2xl rounded-ee-sm bg-sky-500/20 px-4 py-2 text-sm text-white whitespace-pre-wrap">{message.text}</p>
+                </div>
+              ) : (
+                <div key={message.id} className="space-y-2">
+                  {message.text ? (
+                    <p className={`text-sm leading-relaxed whitespace-pre-wrap ${message.error ? 'text-red-400' : 'text-slate-300'}`}>{message.text}</p>
+                  ) : (
+                    <p className="flex items-center gap-2 font-mono text-[10px] uppercase tracking-widest text-sky-300/70">
+                      <Loader2 className="w-3 h-3 animate-spin" /> {t('chat.thinking')}
+                    </p>
+                  )}
+                  {message.toolCalls.length > 0 && (
+                    <div className="space-y-1.5">
+                      {message.toolCalls.map((call, idx) => <div key={idx}><ToolCall call={call} failed={t('chat.failed')} /></div>)}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <div ref={bottom} />
+            </div>
+
+            <form onSubmit={submit} className="flex items-center gap-2 px-4 py-3 border-t border-white/5">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={t('chat.placeholder')}
+                className="flex-1 bg-[#020617] border border-white/10 rounded-md px-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-sky-500/40"
+              />
+              <button
+                type="submit"
+                disabled={busy || !draft.trim()}
+                title={t('chat.send')}
+                className="p-2 rounded-md bg-sky-500/20 text-sky-300 hover:bg-sky-500/30 disabled:opacity-40"
+              >
+                {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4 rtl:-scale-x-100" />}
+              </button>
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
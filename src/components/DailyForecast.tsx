@@ -0,0 +1,78 @@
+import { motion } from 'motion/react';
+import { CalendarDays, Droplets, Sun, Wind } from 'lucide-react';
+import type { DailyForecast as DailySeries } from '../types.ts';
+import { itemVariants } from '../lib/animation.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import { formatDayOfMonth, formatWeekday } from '../lib/time.ts';
+import { getWeatherIcon } from '../lib/weatherCodes.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+interface DailyForecastProps {
+  daily: DailySeries;
+  timezone: string;
+  format: UnitFormatter;
+  i18n: I18n;
+}
+
+export default function DailyForecast({ daily, timezone, format, i18n }: DailyForecastProps) {
+  const { t, tag } = i18n;
+  const days = daily.time.slice(0, 7);
+  if (days.length === 0) return null;
+
+  // Bars are positioned against the coldest minimum and warmest maximum of the week
+  const weekMin = Math.min(...daily.temperatureMin.slice(0, days.length));
+  const weekMax = Math.max(...daily.temperatureMax.slice(0, days.length));
+  const span = Math.max(weekMax - weekMin, 1);
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-orange-500/10 rounded-lg">
+          <CalendarDays className="w-5 h-5 text-orange-400" />
+        </div>
+        <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{t('daily.title')}</h3>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+        {days.map((time, idx) => {
+          const Icon = getWeatherIcon(daily.weatherCode[idx]);
+          const min = daily.temperatureMin[idx];
+          const max = daily.temperatureMax[idx];
+          return (
+            <div key={time} className="rounded-2xl bg-white/[0.02] border border-white/5 p-4 flex flex-col gap-3">
+              <div>
+                <p className="font-mono text-xs tracking-widest text-white uppercase">
+                  {idx === 0 ? t('daily.today') : formatWeekday(time, timezone, tag)}
+                </p>
+                <p className="font-mono text-[10px] text-slate-500">{formatDayOfMonth(time, timezone, tag)}</p>
+              </div>
+              <Icon className="w-6 h-6 text-sky-300" />
+              <div>
+                <div className="flex justify-between font-mono text-xs mb-1">
+                  <span className="text-sky-300">{format.degrees(min)}</span>
+                  <span className="text-orange-300">{format.degrees(max)}</span>
+                </div>
+                <div className="relative h-1.5 rounded-full bg-white/5">
+                  <div
+                    className="absolute h-full rounded-full bg-gradient-to-r rtl:bg-gradient-to-l from-sky-400 to-orange-400"
+                    style={{
+                      insetInlineStart: `${((min - weekMin) / span) * 100}%`,
+                      width: `${Math.max(((max - min) / span) * 100, 2)}%`,
+                    }}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1 font-mono text-[10px] text-slate-400">
+                <p className="flex items-center gap-1"><Droplets className="w-3 h-3 text-blue-400" />{i18n.percent(daily.precipitationProbabilityMax[idx])}</p>
+                <p className="flex items-center gap-1"><Wind className="w-3 h-3 text-emerald-400" />{format.wind(daily.windSpeedMax[idx])}</p>
+                <p className="flex items-center gap-1"><Sun className="w-3 h-3 text-orange-400" />{t('weather.uvShort', { value: Math.round(daily.uvIndexMax[idx]) })}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import {
+  ArrowDown, ArrowUp, Check, Droplets, Loader2, Pencil, RefreshCw, Star, Sun, Trash2, Wind, Zap, Cloud, WifiOff,
+} from 'lucide-react';
+import type { SavedLocation, WeatherSnapshot } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import { containerVariants, itemVariants } from '../lib/animation.ts';
+import { loadTelemetry } from '../lib/weatherApi.ts';
+import { formatClockTime } from '../lib/time.ts';
+import { isOfflineError, recallTelemetry, refreshTelemetry } from '../lib/offlineStore.ts';
+import { describeApiError, toApiError, type ApiError } from '../lib/apiClient.ts';
+import type { TriggeredAlert } from '../lib/alerts.ts';
+import { translateCondition, type I18n } from '../lib/i18n.ts';
+import AlertCards from './AlertCards.tsx';
+
+type CityState =
+  | { status: 'loading' }
+  | { status: 'ready'; data: WeatherSnapshot; staleSince?: number }
+  | { status: 'error'; error: ApiError };
+
+interface DashboardProps {
+  saved: SavedLocation[];
+  format: UnitFormatter;
+  onOpen: (entry: SavedLocation) => void;
+  onRename: (id: string, label: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  syncId: string | null;
+  syncError: ApiError | null;
+  onEnableSync: () => void;
+  onLinkSync: (code: string) => void;
+  onDisableSync: () => void;
+  alerts: TriggeredAlert[];
+  onDismissAlert: (key: string) => void;
+  // Called with each site's fresh telemetry so alert rules can be evaluated against it
+  onTelemetry: (id: string, data: WeatherSnapshot) => void;
+  i18n: I18n;
+}
+
+export default function Dashboard({
+  saved, format, onOpen, onRename, onRemove, onMove,
+  syncId, syncError, onEnableSync, onLinkSync, onDisableSync,
+  alerts, onDismissAlert, onTelemetry, i18n,
+}: DashboardProps) {
+  const { t, tag } = i18n;
+  const [cities, setCities] = useState<Record<string, CityState>>({});
+  const [refreshToken, setRefreshToken] = useState(0);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [linkCode, setLinkCode] = useState('');
+
+  // Reordering and renaming keep the same set of ids, so they do not trigger a reload
+  const idsKey = saved.map((entry) => entry.id).sort().join('|');
+
+  // Load every saved site concurrently; each card fills in as its own request settles
+  useEffect(() => {
+    let cancelled = false;
+    setCities(Object.fromEntries(saved.map((entry) => [entry.id, { status: 'loading' } as CityState])));
+    saved.forEach((entry) => {
+      loadTelemetry(entry.location, entry.verified)
+        .then((data) => {
+          if (cancelled) return;
+          setCities((prev) => ({ ...prev, [entry.id]: { status: 'ready', data } }));
+          onTelemetry(entry.id, data);
+          refreshTelemetry({ id: entry.id, location: entry.location, verified: entry.verified, weather: data, savedAt: Date.now() });
+        })
+        .catch(async (err) => {
+          const stored = isOfflineError(err) ? await recallTelemetry(entry.id) : null;
+          if (cancelled) return;
+          setCities((prev) => ({
+            ...prev,
+            [entry.id]: stored
+              ? { status: 'ready', data: stored.weather, staleSince: stored.savedAt }
+              : { status: 'error', error: toApiError(err) },
+          }));
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, refreshToken]);
+
+  const commitRename = (id: string) => {
+    onRename(id, draftLabel);
+    setEditing(null);
+  };
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="visible"
+      className="w-full space-y-6"
+    >
+      <motion.div variants={itemVariants} className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Star className="w-5 h-5 text-orange-400" />
+          <h2 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{t('dashboard.title', { count: saved.length })}</h2>
+        </div>
+        <button
+          type="button"
+          onClick={() => setRefreshToken((prev) => prev + 1)}
+          disabled={saved.length === 0}
+          className="flex items-center gap-2 font-mono text-[10px] tracking-widest uppercase text-slate-400 hover:text-white disabled:opacity-40"
+        >
+          <RefreshCw className="w-3 h-3" /> {t('dashboard.refresh')}
+        </button>
+      </motion.div>
+
+      <AlertCards alerts={alerts} format={format} onDismiss={onDismissAlert} showCity i18n={i18n} />
+
+      {saved.length === 0 ? (
+        <motion.div variants={itemVariants} className="text-center py-24 opacity-60">
+          <p className="font-mono text-xs tracking-[0.3em] uppercase text-slate-400">{t('dashboard.empty')}</p>
+          <p className="mt-2 text-sm text-slate-500">{t('dashboard.emptyHint')}</p>
+        </motion.div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {saved.map((entry, idx) => {
+            const city: CityState = cities[entry.id] ?? { status: 'loading' };
+            return (
+              <motion.div
+                key={entry.id}
+                layout
+                variants={itemVariants}
+                className="bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6 flex flex-col gap-4"
+              >
+                <div className="flex items-start gap-2">
+                  {editing === entry.id ? (
+                    <form
+                      className="flex-1 flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        commitRename(entry.id);
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        value={draftLabel}
+                        onChange={(e) => setDraftLabel(e.target.value)}
+                        onBlur={() => commitRename(entry.id)}
+                        onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                        className="flex-1 bg-transparent border-b border-sky-500/40 text-white font-serif text-xl focus:outline-none"
+                      />
+                      <button type="submit" className="text-sky-400"><Check className="w-4 h-4" /></button>
+                    </form>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onOpen(entry)}
+                      className="flex-1 text-start font-serif text-xl text-white hover:text-sky-300 transition-colors truncate"
+                      title={t('dashboard.open', { name: entry.label })}
+                    >
+                      {entry.label}
+                    </button>
+                  )}
+                  <div className="flex items-center gap-1 text-slate-500">
+                    <button type="button" title={t('dashboard.moveUp')} onClick={() => onMove(idx, idx - 1)} disabled={idx === 0} className="p-1 hover:text-white disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                    <button type="button" title={t('dashboard.moveDown')} onClick={() => onMove(idx, idx + 1)} disabled={idx === saved.length - 1} className="p-1 hover:text-white disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                    <button
+                      type="button"
+                      title={t('dashboard.rename')}
+                      onClick={() => {
+                        setDraftLabel(entry.label);
+                        setEditing(entry.id);
+                      }}
+                      className="p-1 hover:text-white"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" title={t('dashboard.remove')} onClick={() => onRemove(entry.id)} className="p-1 hover:text-red-400"><Trash2 className="w-3.5 h-3.5" /></button>
+                  </div>
+                </div>
+
+                {city.status === 'loading' && (
+                  <div className="flex items-center gap-2 py-6 text-sky-300/70 font-mono text-[10px] tracking-widest uppercase">
+                    <Loader2 className="w-4 h-4 animate-spin" /> {t('dashboard.loading')}
+                  </div>
+                )}
+                {city.status === 'error' && (
+                  <div className="flex items-center gap-2 py-6 text-red-400 font-mono text-[10px] tracking-widest uppercase">
+                    <Zap className="w-4 h-4" /> {describeApiError(city.error, t)}
+                  </div>
+                )}
+                {city.status === 'ready' && (
+                  <button type="button" onClick={() => onOpen(entry)} className="text-start">
+                    {city.staleSince !== undefined && (
+                      <p className="mb-2 flex items-center gap-1 font-mono text-[10px] tracking-widest uppercase text-amber-300">
+                        <WifiOff className="w-3 h-3" />
+                        {t('weather.staleSince', { time: formatClockTime(city.staleSince, tag) })}
+                      </p>
+                    )}
+                    <div className="flex items-end justify-between">
+                      <span className="text-5xl font-light tracking-tighter text-white">{format.temperature(city.data.temp)}</span>
+                      <span className="text-sm text-sky-200/70">{translateCondition(city.data.weatherCode, t)}</span>
+                    </div>
+                    <div className="mt-4 grid grid-cols-2 gap-2 font-mono text-[10px] text-slate-400">
+                      <span className="flex items-center gap-1"><Droplets className="w-3 h-3 text-blue-400" />{i18n.percent(city.data.humidity)}</span>
+                      <span className="flex items-center gap-1"><Wind className="w-3 h-3 text-emerald-400" />{format.wind(city.data.windSpeed)}</span>
+                      <span className="flex items-center gap-1"><Sun className="w-3 h-3 text-orange-400" />{t('weather.uvShort', { value: city.data.uvIndex })}</span>
+                      <span className="flex items-center gap-1"><Cloud className="w-3 h-3 text-sky-400" />{format.precipitation(city.data.precipitation)}</span>
+                    </div>
+                  </button>
+                )}
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Optional sync of the list to the backend, keyed by a shareable code */}
+      <motion.div variants={itemVariants} className="bg-[#0f172a]/40 border border-white/5 rounded-2xl p-5 flex flex-col md:flex-row md:items-center gap-4">
+        <p className="font-mono text-[10px] tracking-widest uppercase text-slate-400 flex-1">
+          {syncId ? <>{t('dashboard.synced')} <span className="text-sky-300 normal-case tracking-normal">{syncId}</span></> : t('dashboard.local')}
+          {syncError && <span className="block mt-1 text-red-400 normal-case tracking-normal">{describeApiError(syncError, t)}</span>}
+        </p>
+        {syncId ? (
+          <button type="button" onClick={onDisableSync} className="font-mono text-[10px] tracking-widest uppercase text-slate-400 hover:text-white">
+            {t('dashboard.stopSync')}
+          </button>
+        ) : (
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={onEnableSync} className="font-mono text-[10px] tracking-widest uppercase text-sky-400 hover:text-white">
+              {t('dashboard.enableSync')}
+            </button>
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                onLinkSync(linkCode);
+              }}
+            >
+              <input
+                value={linkCode}
+                onChange={(e) => setLinkCode(e.target.value)}
+                placeholder={t('dashboard.existingCode')}
+                className="w-40 bg-transparent border-b border-white/10 text-xs font-mono text-white focus:outline-none placeholder:text-slate-600"
+              />
+              <button type="submit" disabled={!linkCode.trim()} className="font-mono text-[10px] tracking-widest uppercase text-slate-400 hover:text-white disabled:opacity-40">
+                {t('dashboard.link')}
+              </button>
+            </form>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+}
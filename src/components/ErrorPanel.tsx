@@ -0,0 +1,69 @@
+import { Zap, SearchX, WifiOff, Hourglass, ShieldAlert, FileWarning, MapPinOff, RotateCw } from 'lucide-react';
+import { describeApiError, type ApiError, type ApiErrorKind } from '../lib/apiClient.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+const ERROR_STATES: Record<ApiErrorKind, { icon: typeof Zap; tone: string }> = {
+  'not-found': {
+    icon: SearchX,
+    tone: 'text-amber-300 border-amber-500/30 bg-amber-950/30',
+  },
+  network: {
+    icon: WifiOff,
+    tone: 'text-sky-300 border-sky-500/30 bg-sky-950/30',
+  },
+  timeout: {
+    icon: Hourglass,
+    tone: 'text-orange-300 border-orange-500/30 bg-orange-950/30',
+  },
+  'rate-limit': {
+    icon: ShieldAlert,
+    tone: 'text-purple-300 border-purple-500/30 bg-purple-950/30',
+  },
+  malformed: {
+    icon: FileWarning,
+    tone: 'text-rose-300 border-rose-500/30 bg-rose-950/30',
+  },
+  server: {
+    icon: Zap,
+    tone: 'text-red-400 border-red-500/30 bg-red-950/30',
+  },
+  geolocation: {
+    icon: MapPinOff,
+    tone: 'text-teal-300 border-teal-500/30 bg-teal-950/30',
+  },
+};
+
+interface ErrorPanelProps {
+  error: ApiError;
+  onRetry?: () => void;
+  i18n: I18n;
+}
+
+export default function ErrorPanel({ error, onRetry, i18n }: ErrorPanelProps) {
+  const { t } = i18n;
+  const state = ERROR_STATES[error.kind];
+  const Icon = state.icon;
+
+  return (
+    <div
+      className={`border rounded-2xl p-8 max-w-md text-center backdrop-blur-xl ${state.tone}`}
+    >
+      <Icon className="w-12 h-12 mx-auto mb-4" />
+      <p className="font-mono text-sm tracking-widest mb-2 uppercase">{t(`error.${error.kind}.title`)}</p>
+      <p className="text-slate-300">{describeApiError(error, t)}</p>
+      <p className="mt-2 text-xs text-slate-500">
+        {t(`error.${error.kind}.hint`)}
+        {error.retryAfter !== undefined && ` ${t('error.retryIn', { seconds: Math.ceil(error.retryAfter) })}`}
+      </p>
+      {onRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-md border border-white/10 bg-white/5 hover:bg-white/10 font-mono text-[10px] uppercase tracking-widest text-white"
+        >
+          <RotateCw className="w-3 h-3" /> {t('error.retry')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import type { WeatherData } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import type { I18n } from '../lib/i18n.ts';
+import {
+  buildWeatherReport, reportFileName, reportToCsv, reportToJson, reportToMarkdown, REPORT_FORMATS, type ReportFormat,
+} from '../lib/report.ts';
+
+interface ExportMenuProps {
+  weather: WeatherData;
+  format: UnitFormatter;
+  i18n: I18n;
+  // Exports wait for a streaming briefing, so they never capture half a sentence
+  disabled: boolean;
+}
+
+const LABELS: Record<ReportFormat, string> = { markdown: 'MD', csv: 'CSV', json: 'JSON' };
+
+const download = (text: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick, once the browser has picked the download up
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export default function ExportMenu({ weather, format, i18n, disabled }: ExportMenuProps) {
+  const { t } = i18n;
+  const [open, setOpen] = useState(false);
+
+  const exportAs = (reportFormat: ReportFormat) => {
+    const generatedAt = Date.now();
+    const text = reportFormat === 'markdown'
+      ? reportToMarkdown(weather, format, i18n, generatedAt)
+      : reportFormat === 'csv'
+        ? reportToCsv(buildWeatherReport(weather, generatedAt))
+        : reportToJson(buildWeatherReport(weather, generatedAt));
+    download(text, reportFileName(weather, reportFormat, generatedAt), REPORT_FORMATS[reportFormat].mimeType);
+    setOpen(false);
+  };
+
+  // Options open inline next to the button: the hero card clips anything that overflows it
+  return (
+    <div className="inline-flex items-center gap-1.5">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        title={disabled ? t('export.waiting') : t('export.button')}
+        aria-expanded={open}
+        className="p-1.5 rounded-full border border-white/10 text-slate-400 hover:text-sky-300 hover:border-sky-400/40 transition-colors disabled:opacity-40 disabled:hover:text-slate-400 disabled:hover:border-white/10"
+      >
+        <Download className="w-3.5 h-3.5" />
+      </button>
+      {open && !disabled && (
+        <>
+          {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map((reportFormat) => (
+            <button
+              key={reportFormat}
+              type="button"
+              onClick={() => exportAs(reportFormat)}
+              className="px-2.5 py-1 rounded-full border border-white/10 font-mono text-[10px] tracking-widest text-slate-300 hover:text-sky-300 hover:border-sky-400/40 transition-colors"
+            >
+              {LABELS[reportFormat]}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => {
+              setOpen(false);
+              window.print();
+            }}
+            title={t('export.print')}
+            className="p-1.5 rounded-full border border-white/10 text-slate-300 hover:text-sky-300 hover:border-sky-400/40 transition-colors"
+          >
+            <Printer className="w-3.5 h-3.5" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
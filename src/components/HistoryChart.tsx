@@ -0,0 +1,130 @@
+import { useState, type MouseEvent } from 'react';
+import { motion } from 'motion/react';
+import type { LucideIcon } from 'lucide-react';
+import { itemVariants } from '../lib/animation.ts';
+import { formatDayOfMonth } from '../lib/time.ts';
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+export interface ChartSeries {
+  label: string;
+  // Already converted to the user's units; NaN leaves a gap
+  values: number[];
+  kind: 'line' | 'bar';
+  // Tailwind stroke (lines) or fill (bars) class, and the matching legend swatch
+  color: string;
+  swatch: string;
+  dashed?: boolean;
+}
+
+interface HistoryChartProps {
+  title: string;
+  icon: LucideIcon;
+  time: number[];
+  timezone: string;
+  // Intl tag for the date labels
+  locale?: string;
+  series: ChartSeries[];
+  formatValue: (value: number) => string;
+}
+
+// Path through the known points; a missing value starts a new segment
+const linePath = (values: number[], x: (idx: number) => number, y: (value: number) => number) => {
+  let path = '';
+  let drawing = false;
+  values.forEach((value, idx) => {
+    if (!Number.isFinite(value)) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(idx).toFixed(1)} ${y(value).toFixed(1)} `;
+    drawing = true;
+  });
+  return path;
+};
+
+export default function HistoryChart({ title, icon: Icon, time, timezone, locale, series, formatValue }: HistoryChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const known = series.flatMap((entry) => entry.values).filter(Number.isFinite);
+  if (time.length === 0 || known.length === 0) return null;
+
+  // Bars grow from zero; lines use the data's own range with a little headroom
+  const hasBars = series.some((entry) => entry.kind === 'bar');
+  const low = hasBars ? Math.min(0, ...known) : Math.min(...known);
+  const high = Math.max(...known);
+  const pad = hasBars ? 0 : Math.max((high - low) * 0.1, 1);
+  const min = low - pad;
+  const max = Math.max(high + pad, min + 1);
+
+  const slot = WIDTH / time.length;
+  const x = (idx: number) => (idx + 0.5) * slot;
+  const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+  const onMove = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const idx = Math.floor(((e.clientX - rect.left) / rect.width) * time.length);
+    setHovered(Math.min(Math.max(idx, 0), time.length - 1));
+  };
+
+  const focus = hovered ?? time.length - 1;
+  const labelIndexes = [...new Set([0, Math.floor((time.length - 1) / 2), time.length - 1])];
+
+  return (
+    <motion.div variants={itemVariants} className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6">
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="p-2 bg-sky-500/10 rounded-lg">
+          <Icon className="w-5 h-5 text-sky-400" />
+        </div>
+        <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{title}</h3>
+        <div className="ms-auto flex flex-wrap items-center gap-4 font-mono text-[10px] uppercase tracking-widest">
+          <span className="text-slate-500">{formatDayOfMonth(time[focus], timezone, locale)}</span>
+          {series.map((entry) => (
+            <span key={entry.label} className="flex items-center gap-1.5 text-slate-400">
+              <span className={`w-2 h-2 rounded-full ${entry.swatch}`}></span>
+              {entry.label}
+              <span className="text-white">{Number.isFinite(entry.values[focus]) ? formatValue(entry.values[focus]) : '—'}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Time runs left to right in every language, so the plot and its date axis stay LTR */}
+      <div dir="ltr" className="relative" onMouseMove={onMove} onMouseLeave={() => setHovered(null)}>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 overflow-visible">
+          {[0.25, 0.5, 0.75].map((fraction) => (
+            <line key={fraction} x1={0} x2={WIDTH} y1={HEIGHT * fraction} y2={HEIGHT * fraction} className="stroke-white/5" vectorEffect="non-scaling-stroke" />
+          ))}
+          {series.map((entry) => entry.kind === 'bar' ? (
+            <g key={entry.label} className={entry.color}>
+              {entry.values.map((value, idx) => Number.isFinite(value) && (
+                <rect key={idx} x={x(idx) - slot * 0.35} width={slot * 0.7} y={y(Math.max(value, 0))} height={Math.abs(y(value) - y(0))} opacity={hovered === null || hovered === idx ? 1 : 0.5} />
+              ))}
+            </g>
+          ) : (
+            <path
+              key={entry.label}
+              d={linePath(entry.values, x, y)}
+              fill="none"
+              strokeWidth={2}
+              strokeDasharray={entry.dashed ? '4 4' : undefined}
+              vectorEffect="non-scaling-stroke"
+              className={entry.color}
+            />
+          ))}
+          {hovered !== null && (
+            <line x1={x(hovered)} x2={x(hovered)} y1={0} y2={HEIGHT} className="stroke-white/30" vectorEffect="non-scaling-stroke" />
+          )}
+        </svg>
+        <div className="absolute -left-1 top-0 bottom-0 flex flex-col justify-between pointer-events-none font-mono text-[9px] text-slate-600">
+          <span>{formatValue(max)}</span>
+          <span>{formatValue(min)}</span>
+        </div>
+      </div>
+
+      <div dir="ltr" className="flex justify-between mt-2 font-mono text-[10px] text-slate-500">
+        {labelIndexes.map((idx) => <span key={idx}>{formatDayOfMonth(time[idx], timezone, locale)}</span>)}
+      </div>
+    </motion.div>
+  );
+}
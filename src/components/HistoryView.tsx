@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, History, Thermometer, Droplets, Wind, Loader2 } from 'lucide-react';
+import type { DailyHistory, GeoLocation } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import { containerVariants, itemVariants } from '../lib/animation.ts';
+import { formatLocationLabel } from '../lib/locations.ts';
+import { FIRST_ARCHIVE_DATE, HISTORY_PRESETS, recentRange, shiftDate, summarizeHistory } from '../lib/history.ts';
+import { loadHistory } from '../lib/weatherApi.ts';
+import { toApiError, type ApiError } from '../lib/apiClient.ts';
+import type { I18n } from '../lib/i18n.ts';
+import HistoryChart from './HistoryChart.tsx';
+import ErrorPanel from './ErrorPanel.tsx';
+
+interface HistoryViewProps {
+  location: GeoLocation;
+  timezone: string;
+  format: UnitFormatter;
+  onBack: () => void;
+  i18n: I18n;
+}
+
+const inputClass = 'bg-[#020617] border border-white/10 rounded-md px-2 py-1.5 text-xs font-mono text-white focus:outline-none focus:border-sky-500/40 [color-scheme:dark]';
+
+export default function HistoryView({ location, timezone, format, onBack, i18n }: HistoryViewProps) {
+  const { t } = i18n;
+  const [range, setRange] = useState(() => recentRange(30, timezone));
+  const [history, setHistory] = useState<DailyHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  // Bumped by the retry action to repeat the same request
+  const [attempt, setAttempt] = useState(0);
+  const today = recentRange(1, timezone).end;
+
+  useEffect(() => {
+    if (range.start > range.end) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    loadHistory(location, range.start, range.end, controller.signal)
+      .then(setHistory)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(toApiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [location.latitude, location.longitude, range.start, range.end, attempt]);
+
+  const { fromMetric } = format;
+  const summary = history && history.time.length > 0 ? summarizeHistory(history) : null;
+
+  return (
+    <motion.div
+      variants={containerVariants}
+      initial="hidden"
+      animate="visible"
+      exit="exit"
+      className="w-full grid grid-cols-1 md:grid-cols-12 gap-6"
+    >
+      <motion.div variants={itemVariants} className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6 flex flex-wrap items-center gap-4">
+        <button type="button" onClick={onBack} title={t('history.back')} className="p-2 rounded-lg border border-white/10 text-slate-400 hover:text-sky-300">
+          <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+        </button>
+        <div className="me-auto">
+          <p className="flex items-center gap-2 font-mono text-[10px] tracking-[0.2em] text-sky-300 uppercase">
+            <History className="w-3.5 h-3.5" /> {t('history.archive')}
+          </p>
+          <h2 className="text-2xl font-serif text-white">{formatLocationLabel(location)}</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          {HISTORY_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => setRange(recentRange(preset.days, timezone))}
+              className="px-2.5 py-1.5 rounded-md font-mono text-[10px] uppercase tracking-widest text-slate-400 hover:text-sky-300 hover:bg-white/5"
+            >
+              {t(`history.preset.${preset.id}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={range.start}
+            min={[FIRST_ARCHIVE_DATE, shiftDate(range.end, -365)].sort()[1]}
+            max={range.end}
+            onChange={(e) => e.target.value && setRange((prev) => ({ ...prev, start: e.target.value }))}
+            className={inputClass}
+          />
+          <span className="text-slate-600 rtl:-scale-x-100">→</span>
+          <input
+            type="date"
+            value={range.end}
+            min={range.start}
+            max={today}
+            onChange={(e) => e.target.value && setRange((prev) => ({
+              // Keep within the backend's one-year limit by pulling the start along
+              start: prev.start < shiftDate(e.target.value, -365) ? shiftDate(e.target.value, -365) : prev.start,
+              end: e.target.value,
+            }))}
+            className={inputClass}
+          />
+          {loading && <Loader2 className="w-4 h-4 text-sky-300 animate-spin" />}
+        </div>
+      </motion.div>
+
+      {error ? (
+        <motion.div variants={itemVariants} className="md:col-span-12 flex justify-center">
+          <ErrorPanel error={error} onRetry={() => setAttempt((prev) => prev + 1)} i18n={i18n} />
+        </motion.div>
+      ) : history && summary && (
+        <>
+          {[
+            { label: t('history.warmest'), value: format.temperature(summary.warmest) },
+            { label: t('history.coldest'), value: format.temperature(summary.coldest) },
+            {
+              label: t('history.totalPrecipitation'),
+              value: t('history.wetDays', { value: format.precipitation(summary.totalPrecipitation), days: summary.wetDays }),
+            },
+            { label: t('history.strongestWind'), value: format.wind(summary.maxWind) },
+          ].map((stat) => (
+            <motion.div key={stat.label} variants={itemVariants} className="md:col-span-3 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6">
+              <p className="text-[10px] text-slate-400 font-mono uppercase tracking-widest mb-3">{stat.label}</p>
+              <p className="text-xl font-light text-white tracking-wide">{stat.value}</p>
+            </motion.div>
+          ))}
+
+          <HistoryChart
+            title={t('history.temperature')}
+            icon={Thermometer}
+            time={history.time}
+            timezone={timezone}
+            locale={i18n.tag}
+            formatValue={(value) => `${i18n.number(value)}${format.temperatureSymbol}`}
+            series={[
+              { label: t('history.high'), values: history.temperatureMax.map(fromMetric.temperature), kind: 'line', color: 'stroke-orange-400', swatch: 'bg-orange-400' },
+              { label: t('history.mean'), values: history.temperatureMean.map(fromMetric.temperature), kind: 'line', color: 'stroke-slate-400', swatch: 'bg-slate-400', dashed: true },
+              { label: t('history.low'), values: history.temperatureMin.map(fromMetric.temperature), kind: 'line', color: 'stroke-sky-400', swatch: 'bg-sky-400' },
+            ]}
+          />
+          <HistoryChart
+            title={t('history.precipitation')}
+            icon={Droplets}
+            time={history.time}
+            timezone={timezone}
+            locale={i18n.tag}
+            formatValue={(value) => `${i18n.number(value, format.units.precipitation === 'in' ? 2 : 1)} ${format.symbols.precipitation}`}
+            series={[
+              { label: t('history.total'), values: history.precipitationSum.map(fromMetric.precipitation), kind: 'bar', color: 'fill-blue-400/70', swatch: 'bg-blue-400' },
+            ]}
+          />
+          <HistoryChart
+            title={t('history.wind')}
+            icon={Wind}
+            time={history.time}
+            timezone={timezone}
+            locale={i18n.tag}
+            formatValue={(value) => `${i18n.number(value)} ${format.symbols.wind}`}
+            series={[
+              { label: t('history.max'), values: history.windSpeedMax.map(fromMetric.wind), kind: 'line', color: 'stroke-emerald-400', swatch: 'bg-emerald-400' },
+            ]}
+          />
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,71 @@
+import { motion } from 'motion/react';
+import { Clock, Droplets } from 'lucide-react';
+import type { HourlyForecast } from '../types.ts';
+import { itemVariants } from '../lib/animation.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import { formatHour } from '../lib/time.ts';
+import { getWeatherIcon } from '../lib/weatherCodes.ts';
+import type { I18n } from '../lib/i18n.ts';
+
+const HOURS_SHOWN = 48;
+
+interface HourlyStripProps {
+  hourly: HourlyForecast;
+  timezone: string;
+  format: UnitFormatter;
+  i18n: I18n;
+}
+
+export default function HourlyStrip({ hourly, timezone, format, i18n }: HourlyStripProps) {
+  // Start at the hour currently in progress
+  const nowSeconds = Date.now() / 1000;
+  const firstIndex = Math.max(hourly.time.findIndex((time) => time + 3600 > nowSeconds), 0);
+  const hours = hourly.time.slice(firstIndex, firstIndex + HOURS_SHOWN).map((time, offset) => {
+    const idx = firstIndex + offset;
+    return {
+      time,
+      temperature: hourly.temperature[idx],
+      precipitationProbability: hourly.precipitationProbability[idx],
+      windSpeed: hourly.windSpeed[idx],
+      weatherCode: hourly.weatherCode[idx],
+      isDay: hourly.isDay[idx] !== 0,
+    };
+  });
+
+  if (hours.length === 0) return null;
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="md:col-span-12 bg-[#0f172a]/60 backdrop-blur-xl border border-white/5 rounded-3xl p-6"
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-sky-500/10 rounded-lg">
+          <Clock className="w-5 h-5 text-sky-400" />
+        </div>
+        <h3 className="font-mono text-xs tracking-[0.2em] text-sky-300 uppercase">{i18n.t('hourly.title')}</h3>
+        <span className="ms-auto font-mono text-[10px] tracking-widest text-slate-500 uppercase">{timezone}</span>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {hours.map((hour) => {
+          const Icon = getWeatherIcon(hour.weatherCode, hour.isDay);
+          return (
+            <div
+              key={hour.time}
+              className="flex-none w-20 flex flex-col items-center gap-2 rounded-2xl bg-white/[0.02] border border-white/5 py-4"
+            >
+              <p className="font-mono text-[10px] tracking-widest text-slate-400">{formatHour(hour.time, timezone, i18n.tag)}</p>
+              <Icon className="w-5 h-5 text-sky-300" />
+              <p className="text-lg font-light text-white">{format.degrees(hour.temperature)}</p>
+              <p className="flex items-center gap-1 font-mono text-[10px] text-blue-300/80">
+                <Droplets className="w-3 h-3" />
+                {i18n.percent(hour.precipitationProbability)}
+              </p>
+              <p className="font-mono text-[10px] text-emerald-300/70">{format.wind(hour.windSpeed)}</p>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Search, Loader2, LocateFixed, MapPin, Users } from 'lucide-react';
+import type { GeoLocation } from '../types.ts';
+import { formatCoordinates, parseCoordinates, type Coordinates } from '../lib/coordinates.ts';
+import { formatLocationLabel, formatPopulation, parseGeoResults } from '../lib/locations.ts';
+import { searchLocations } from '../lib/weatherApi.ts';
+import { ApiError, isAbortError, isRecord, requestJson, toApiError } from '../lib/apiClient.ts';
+import type { I18n, Locale } from '../lib/i18n.ts';
+
+const SUGGESTION_COUNT = 8;
+const DEBOUNCE_MS = 300;
+
+interface LocationSearchProps {
+  loading: boolean;
+  // `verified` is true only when the location came from an unambiguous geocoding pick
+  onLocate: (location: GeoLocation, verified: boolean) => void;
+  // `retry` repeats the action that failed
+  onError: (error: ApiError, retry?: () => void) => void;
+  i18n: I18n;
+}
+
+// Falls back to a coordinate label when no place name can be found for the point; rejects only when aborted
+const labelCoordinates = async (coords: Coordinates, language: Locale, signal: AbortSignal): Promise<GeoLocation> => {
+  const fallback = { name: formatCoordinates(coords), ...coords };
+  try {
+    const url = `/api/reverse-geocode?latitude=${coords.latitude}&longitude=${coords.longitude}&language=${language}`;
+    const [place] = await requestJson(url, parseGeoResults, { signal });
+    return place ? { ...place, ...coords } : fallback;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return fallback;
+  }
+};
+
+const getCurrentPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject({ code: 'unsupported' });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, { enableHighAccuracy: false, timeout: 10000, maximumAge: 300000 });
+  });
+
+export default function LocationSearch({ loading, onLocate, onError, i18n }: LocationSearchProps) {
+  const { t } = i18n;
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<GeoLocation[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [ambiguous, setAmbiguous] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [locating, setLocating] = useState(false);
+  // Set when the query text was filled in from a pick, so it does not trigger another lookup
+  const skipLookup = useRef(false);
+  // The submitted search, coordinate label or position lookup in flight. Each new one, and every pick,
+  // cancels it so a stale answer cannot replace a newer choice.
+  const submitRequest = useRef<AbortController | null>(null);
+
+  const cancelRequest = () => {
+    submitRequest.current?.abort();
+    submitRequest.current = null;
+    setSearching(false);
+    setLocating(false);
+  };
+
+  const startRequest = () => {
+    cancelRequest();
+    const controller = new AbortController();
+    submitRequest.current = controller;
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    if (submitRequest.current !== controller) return;
+    submitRequest.current = null;
+    setSearching(false);
+    setLocating(false);
+  };
+
+  // Debounced type-ahead
+  useEffect(() => {
+    if (skipLookup.current) {
+      skipLookup.current = false;
+      return;
+    }
+    const name = query.trim();
+    setAmbiguous(false);
+    if (name.length < 2 || parseCoordinates(name)) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchLocations(name, SUGGESTION_COUNT, controller.signal, i18n.locale);
+        setSuggestions(results);
+        setHighlighted(-1);
+      } catch (err) {
+        if (!isAbortError(err)) setSuggestions([]);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, i18n.locale]);
+
+  const pick = (location: GeoLocation) => {
+    cancelRequest();
+    skipLookup.current = true;
+    setQuery(formatLocationLabel(location));
+    setOpen(false);
+    setSuggestions([]);
+    setAmbiguous(false);
+    onLocate(location, true);
+  };
+
+  const handleSubmit = async (e?: FormEvent) => {
+    if (e) e.preventDefault();
+    const name = query.trim();
+    if (!name) return;
+
+    if (open && highlighted >= 0 && suggestions[highlighted]) {
+      pick(suggestions[highlighted]);
+      return;
+    }
+
+    const controller = startRequest();
+    setSearching(true);
+    try {
+      const coords = parseCoordinates(name);
+      if (coords) {
+        setOpen(false);
+        onLocate(await labelCoordinates(coords, i18n.locale, controller.signal), false);
+        return;
+      }
+
+      const results = await searchLocations(name, SUGGESTION_COUNT, controller.signal, i18n.locale);
+      if (results.length === 0) {
+        onError(new ApiError('not-found', { detail: t('search.notFound', { name }) }), () => handleSubmit());
+      } else if (results.length === 1) {
+        pick(results[0]);
+      } else {
+        // Several candidates: make the user choose instead of guessing
+        setSuggestions(results);
+        setHighlighted(-1);
+        setAmbiguous(true);
+        setOpen(true);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) onError(toApiError(err), () => handleSubmit());
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    const controller = startRequest();
+    setLocating(true);
+    try {
+      // The browser's position request cannot be cancelled, so a superseded one is ignored when it settles
+      const position = await getCurrentPosition();
+      if (controller.signal.aborted) return;
+      const location = await labelCoordinates({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+      }, i18n.locale, controller.signal);
+      skipLookup.current = true;
+      setQuery(formatLocationLabel(location));
+      setOpen(false);
+      onLocate(location, false);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const code = isRecord(err) ? err.code : undefined;
+      onError(
+        new ApiError('geolocation', {
+          detail: code === 1 ? t('search.denied') : code === 'unsupported' ? t('search.unsupported') : t('search.unavailable'),
+        }),
+        handleUseMyLocation
+      );
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((prev) => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const busy = loading || searching;
+
+  return (
+    <form onSubmit={handleSubmit} className="relative w-full md:w-96 group">
+      <div className="absolute -inset-0.5 bg-gradient-to-r from-sky-500/30 to-orange-500/30 rounded-lg blur opacity-0 group-hover:opacity-100 transition duration-500"></div>
+      <div className="relative flex items-center bg-[#0f172a]/80 backdrop-blur-xl border border-white/10 rounded-lg overflow-hidden">
+        <input
+          type="text"
+          placeholder={t('search.placeholder')}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={open && suggestions.length > 0}
+          aria-autocomplete="list"
+          className="w-full bg-transparent text-white px-6 py-4 focus:outline-none placeholder:text-slate-600 font-mono text-sm tracking-wide"
+        />
+        <button
+          type="button"
+          onClick={handleUseMyLocation}
+          disabled={busy || locating}
+          title={t('search.useMyLocation')}
+          className="px-3 py-4 text-slate-500 hover:text-sky-300 transition-colors duration-300 disabled:opacity-50"
+        >
+          {locating ? <Loader2 className="w-5 h-5 animate-spin" /> : <LocateFixed className="w-5 h-5" />}
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          title={t('search.submit')}
+          className="px-6 py-4 text-sky-400 hover:text-white hover:bg-sky-500/20 transition-colors duration-300 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {open && suggestions.length > 0 && (
+          <motion.ul
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            role="listbox"
+            className="absolute z-20 mt-2 w-full bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-lg overflow-hidden shadow-2xl"
+          >
+            {ambiguous && (
+              <li className="px-4 py-2 font-mono text-[10px] tracking-widest uppercase text-orange-300/80 border-b border-white/5">
+                {t('search.multiple')}
+              </li>
+            )}
+            {suggestions.map((location, idx) => (
+              <li
+                key={location.id ?? `${location.latitude},${location.longitude}`}
+                role="option"
+                aria-selected={idx === highlighted}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(location)}
+                onMouseEnter={() => setHighlighted(idx)}
+                className={`px-4 py-3 cursor-pointer flex items-start gap-3 transition-colors ${idx === highlighted ? 'bg-sky-500/10' : ''}`}
+              >
+                <MapPin className="w-4 h-4 mt-0.5 text-sky-400 flex-none" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate">{location.name}</p>
+                  <p className="font-mono text-[10px] tracking-wide text-slate-400 truncate">
+                    {[location.admin1, location.country].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                {location.population !== undefined && (
+                  <span className="flex items-center gap-1 font-mono text-[10px] text-slate-500 flex-none">
+                    <Users className="w-3 h-3" />
+                    {formatPopulation(location.population, i18n.tag)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </form>
+  );
+}
@@ -0,0 +1,157 @@
+import type { WeatherData } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import { translateCondition, type I18n } from '../lib/i18n.ts';
+import { formatCoordinates } from '../lib/coordinates.ts';
+import { formatDayOfMonth, formatHour, formatWeekday } from '../lib/time.ts';
+import { AQI_SCALES, getAqiCategory, type AqiScale } from '../lib/airQuality.ts';
+import { formatReading, REPORT_SCHEMA, REPORT_SCHEMA_VERSION, upcomingHours } from '../lib/report.ts';
+
+interface PrintReportProps {
+  weather: WeatherData;
+  format: UnitFormatter;
+  i18n: I18n;
+}
+
+interface TableProps {
+  header: string[];
+  rows: string[][];
+}
+
+const Table = ({ header, rows }: TableProps) => (
+  <table className="w-full border-collapse text-[11px]">
+    <thead>
+      <tr>
+        {header.map((label) => (
+          <th key={label} className="border-b-2 border-slate-400 py-1 pe-3 text-start font-semibold">{label}</th>
+        ))}
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row, idx) => (
+        <tr key={idx} className="break-inside-avoid">
+          {row.map((value, column) => (
+            <td key={column} className="border-b border-slate-200 py-1 pe-3">{value}</td>
+          ))}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// The weather view as a plain black-on-white document. Hidden on screen; printing shows only this,
+// so the browser's "Save as PDF" produces a clean report.
+export default function PrintReport({ weather, format, i18n }: PrintReportProps) {
+  const { t, tag } = i18n;
+  const { timezone, hourly, daily, airQuality, aiAnalysis } = weather;
+  const generated = new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeStyle: 'short' }).format(Date.now());
+
+  return (
+    <article className="hidden print:block bg-white text-slate-900 font-sans">
+      <header className="border-b-2 border-slate-900 pb-3 mb-5">
+        <h1 className="text-2xl font-serif font-bold">{t('export.title', { city: weather.city })}</h1>
+        <p className="text-xs text-slate-600 mt-1">
+          {t('export.generated', { time: generated })} · {formatCoordinates(weather)} · {timezone} · {REPORT_SCHEMA} v{REPORT_SCHEMA_VERSION}
+        </p>
+      </header>
+
+      <section className="mb-5 break-inside-avoid">
+        <h2 className="text-sm font-bold uppercase tracking-wider mb-2">{t('export.current')}</h2>
+        <Table
+          header={[t('export.metric'), t('export.value')]}
+          rows={[
+            [t('export.condition'), translateCondition(weather.weatherCode, t)],
+            [t('alertMetric.temperature'), format.temperature(weather.temp)],
+            [t('weather.feelsLike'), format.temperature(weather.feelsLike)],
+            [t('weather.humidity'), i18n.percent(weather.humidity)],
+            [t('weather.wind'), format.wind(weather.windSpeed)],
+            [t('alertMetric.windGusts'), format.wind(weather.windGusts)],
+            [t('weather.pressure'), format.pressure(weather.pressure)],
+            [t('weather.uvIndex'), i18n.number(weather.uvIndex, 1)],
+            [t('weather.precipitation'), format.precipitation(weather.precipitation)],
+          ]}
+        />
+      </section>
+
+      <section className="mb-5 break-inside-avoid">
+        <h2 className="text-sm font-bold uppercase tracking-wider mb-2">{t('briefing.title')}</h2>
+        {aiAnalysis?.summary ? (
+          <div className="space-y-2 text-xs leading-relaxed">
+            <p>{aiAnalysis.summary}</p>
+            {aiAnalysis.risks.length > 0 && (
+              <div>
+                <h3 className="font-semibold">{t('briefing.risks')}</h3>
+                <ul className="list-disc ps-5">
+                  {aiAnalysis.risks.map((risk, idx) => <li key={idx}>{risk}</li>)}
+                </ul>
+              </div>
+            )}
+            {aiAnalysis.recommendations.length > 0 && (
+              <div>
+                <h3 className="font-semibold">{t('briefing.recommendations')}</h3>
+                <ul className="list-disc ps-5">
+                  {aiAnalysis.recommendations.map((recommendation, idx) => <li key={idx}>{recommendation}</li>)}
+                </ul>
+              </div>
+            )}
+            <p className="italic text-slate-600">
+              {aiAnalysis.source === 'fallback'
+                ? t('briefing.standard')
+                : `${t('briefing.confidence')}: ${aiAnalysis.confidence === undefined ? '—' : i18n.percent(aiAnalysis.confidence * 100)}`}
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs italic text-slate-600">{t('export.noBriefing')}</p>
+        )}
+      </section>
+
+      {airQuality && (
+        <section className="mb-5 break-inside-avoid">
+          <h2 className="text-sm font-bold uppercase tracking-wider mb-2">{t('air.title')}</h2>
+          <Table
+            header={[t('export.metric'), t('export.value')]}
+            rows={[
+              ...(Object.keys(AQI_SCALES) as AqiScale[]).map((scale) => {
+                const value = scale === 'european' ? airQuality.europeanAqi : airQuality.usAqi;
+                const category = getAqiCategory(scale, value);
+                return [t(`air.scale.${scale}`), `${i18n.number(value)}${category ? ` · ${t(`aqi.${category.id}`)}` : ''}`];
+              }),
+              ['PM2.5', `${i18n.number(airQuality.pm25)} µg/m³`],
+              ['PM10', `${i18n.number(airQuality.pm10)} µg/m³`],
+            ]}
+          />
+        </section>
+      )}
+
+      <section className="mb-5">
+        <h2 className="text-sm font-bold uppercase tracking-wider mb-2">{t('daily.title')}</h2>
+        <Table
+          header={[t('export.date'), t('export.condition'), t('export.low'), t('export.high'), t('alertMetric.precipitationProbability'), t('weather.wind'), t('weather.uvIndex')]}
+          rows={daily.time.map((time, idx) => [
+            `${formatWeekday(time, timezone, tag)} ${formatDayOfMonth(time, timezone, tag)}`,
+            translateCondition(daily.weatherCode[idx], t),
+            formatReading(daily.temperatureMin[idx], format.temperature),
+            formatReading(daily.temperatureMax[idx], format.temperature),
+            i18n.percent(daily.precipitationProbabilityMax[idx]),
+            formatReading(daily.windSpeedMax[idx], format.wind),
+            i18n.number(daily.uvIndexMax[idx]),
+          ])}
+        />
+      </section>
+
+      <section>
+        <h2 className="text-sm font-bold uppercase tracking-wider mb-2">{t('hourly.title')}</h2>
+        <Table
+          header={[t('export.time'), t('export.condition'), t('alertMetric.temperature'), t('alertMetric.precipitationProbability'), t('weather.wind'), t('alertMetric.windGusts')]}
+          rows={upcomingHours(weather).map((idx) => [
+            `${formatWeekday(hourly.time[idx], timezone, tag)} ${formatHour(hourly.time[idx], timezone, tag)}`,
+            translateCondition(hourly.weatherCode[idx], t),
+            formatReading(hourly.temperature[idx], format.temperature),
+            i18n.percent(hourly.precipitationProbability[idx]),
+            formatReading(hourly.windSpeed[idx], format.wind),
+            formatReading(hourly.windGusts[idx], format.wind),
+          ])}
+        />
+      </section>
+    </article>
+  );
+}
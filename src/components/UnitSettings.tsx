@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { Settings2 } from 'lucide-react';
+import {
+  DEFAULT_UNITS, IMPERIAL_UNITS, PRECIPITATION_UNITS, PRESSURE_UNITS, TEMPERATURE_UNITS, WIND_UNITS,
+  type UnitPreferences,
+} from '../lib/units.ts';
+import { LOCALES, type I18n, type Locale, type MessageKey } from '../lib/i18n.ts';
+
+interface UnitSettingsProps {
+  units: UnitPreferences;
+  onChange: (units: UnitPreferences) => void;
+  onLocaleChange: (locale: Locale) => void;
+  i18n: I18n;
+}
+
+const GROUPS = [
+  { key: 'temperature', options: TEMPERATURE_UNITS },
+  { key: 'wind', options: WIND_UNITS },
+  { key: 'pressure', options: PRESSURE_UNITS },
+  { key: 'precipitation', options: PRECIPITATION_UNITS },
+] as const;
+
+// Units with a spelled-out name; the rest are shown as their symbol in every language
+const UNIT_NAMES: Record<string, MessageKey> = {
+  celsius: 'unit.celsius',
+  fahrenheit: 'unit.fahrenheit',
+  kn: 'unit.kn',
+};
+
+export default function UnitSettings({ units, onChange, onLocaleChange, i18n }: UnitSettingsProps) {
+  const { t } = i18n;
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        title={t('settings.title')}
+        aria-expanded={open}
+        className="p-4 bg-[#0f172a]/80 backdrop-blur-xl border border-white/10 rounded-lg text-slate-400 hover:text-sky-300 transition-colors duration-300"
+      >
+        <Settings2 className="w-5 h-5" />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute end-0 z-30 mt-2 w-80 bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-2xl p-5 shadow-2xl space-y-5"
+          >
+            <div>
+              <p className="font-mono text-[10px] tracking-[0.2em] text-sky-300 uppercase mb-2">{t('settings.language')}</p>
+              <div className="flex rounded-lg border border-white/10 overflow-hidden">
+                {(Object.keys(LOCALES) as Locale[]).map((locale) => (
+                  <button
+                    key={locale}
+                    type="button"
+                    lang={LOCALES[locale].tag}
+                    onClick={() => onLocaleChange(locale)}
+                    aria-pressed={i18n.locale === locale}
+                    className={`flex-1 py-2 text-xs transition-colors ${i18n.locale === locale ? 'bg-sky-500/20 text-white' : 'text-slate-400 hover:bg-white/5'}`}
+                  >
+                    {LOCALES[locale].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="font-mono text-[10px] tracking-[0.2em] text-sky-300 uppercase">{t('settings.units')}</p>
+              <div className="flex gap-2 font-mono text-[10px] uppercase tracking-widest">
+                <button type="button" onClick={() => onChange(DEFAULT_UNITS)} className="text-slate-400 hover:text-white">{t('settings.metric')}</button>
+                <span className="text-slate-600">/</span>
+                <button type="button" onClick={() => onChange(IMPERIAL_UNITS)} className="text-slate-400 hover:text-white">{t('settings.imperial')}</button>
+              </div>
+            </div>
+
+            {GROUPS.map((group) => (
+              <div key={group.key}>
+                <p className="text-[10px] text-slate-400 font-mono uppercase tracking-widest mb-2">{t(`settings.${group.key}`)}</p>
+                <div className="flex rounded-lg border border-white/10 overflow-hidden">
+                  {Object.entries(group.options).map(([value, spec]) => {
+                    const selected = units[group.key] === value;
+                    return (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => onChange({ ...units, [group.key]: value })}
+                        aria-pressed={selected}
+                        className={`flex-1 py-2 font-mono text-xs transition-colors ${selected ? 'bg-sky-500/20 text-white' : 'text-slate-400 hover:bg-white/5'}`}
+                      >
+                        {UNIT_NAMES[value] ? t(UNIT_NAMES[value]) : spec.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WeatherSnapshot } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import type { I18n } from '../lib/i18n.ts';
+import { isBriefingProfile, type AiBriefing, type BriefingProfile } from '../lib/briefing.ts';
+import { streamBriefing } from '../lib/weatherApi.ts';
+import { readStored, writeStored } from '../lib/storage.ts';
+
+const PROFILE_KEY = 'amarsipahi.briefingProfile';
+
+const loadProfile = (): BriefingProfile => readStored(PROFILE_KEY, (stored) => (isBriefingProfile(stored) ? stored : 'general'));
+
+// The persisted briefing profile and a single in-flight briefing stream; starting a new one cancels the last
+export const useBriefing = (format: UnitFormatter, i18n: I18n) => {
+  const [profile, setProfile] = useState<BriefingProfile>(loadProfile);
+  const [streaming, setStreaming] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => writeStored(PROFILE_KEY, profile), [profile]);
+
+  const cancel = useCallback(() => {
+    controller.current?.abort();
+    controller.current = null;
+    setStreaming(false);
+  }, []);
+
+  // Resolves with the finished briefing, or null when a newer request superseded this one
+  const brief = async (snapshot: WeatherSnapshot, onUpdate: (briefing: AiBriefing) => void) => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setStreaming(true);
+    try {
+      const briefing = await streamBriefing(snapshot, format, profile, i18n, onUpdate, current.signal);
+      onUpdate(briefing);
+      return briefing;
+    } catch {
+      return null;
+    } finally {
+      if (controller.current === current) {
+        controller.current = null;
+        setStreaming(false);
+      }
+    }
+  };
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  return { profile, setProfile, streaming, brief, cancel };
+};
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import type { WeatherSnapshot } from '../types.ts';
+import { compareWithNormals, localDate, NORMAL_YEARS, type ClimateComparison } from '../lib/history.ts';
+import { loadSameDayHistory } from '../lib/weatherApi.ts';
+
+// Today's forecast against the same calendar day in past years; null until loaded or when the archive is unavailable
+export const useClimateComparison = (weather: WeatherSnapshot | null) => {
+  const [comparison, setComparison] = useState<ClimateComparison | null>(null);
+  const date = weather && weather.daily.time.length > 0 ? localDate(weather.daily.time[0], weather.timezone) : null;
+
+  useEffect(() => {
+    setComparison(null);
+    if (!weather || !date) return;
+    const controller = new AbortController();
+    loadSameDayHistory(weather, date, NORMAL_YEARS, controller.signal)
+      .then((past) => {
+        if (!controller.signal.aborted) setComparison(compareWithNormals(weather.daily, past));
+      })
+      .catch(() => {
+        // Anomaly badges are supplementary; the card simply goes without them
+      });
+    return () => controller.abort();
+  }, [weather?.latitude, weather?.longitude, date]);
+
+  return comparison;
+};
@@ -0,0 +1,24 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createI18n, detectLocale, isLocale, LOCALES, type Locale } from '../lib/i18n.ts';
+import { readStored, writeStored } from '../lib/storage.ts';
+
+const STORAGE_KEY = 'amarsipahi.locale';
+
+// Without a stored choice, the browser's languages decide
+const loadLocale = (): Locale =>
+  readStored(STORAGE_KEY, (stored) => (isLocale(stored) ? stored : detectLocale(navigator.languages ?? [navigator.language])));
+
+// The persisted UI language; it also sets the document language and text direction
+export const useLocale = () => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    writeStored(STORAGE_KEY, locale);
+    document.documentElement.lang = LOCALES[locale].tag;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+
+  return { locale, setLocale, i18n };
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import type { GeoLocation, SavedLocation } from '../types.ts';
+import { createSavedLocation, parseSavedLocations } from '../lib/savedLocations.ts';
+import { readStoredJson, writeStoredJson } from '../lib/storage.ts';
+
+const STORAGE_KEY = 'amarsipahi.recentSearches';
+const MAX_RECENT = 8;
+
+const loadRecent = () => readStoredJson(STORAGE_KEY, (raw) => parseSavedLocations(raw).slice(0, MAX_RECENT));
+
+// Most recently opened locations first, one entry per place
+export const useRecentSearches = () => {
+  const [recent, setRecent] = useState<SavedLocation[]>(loadRecent);
+
+  useEffect(() => writeStoredJson(STORAGE_KEY, recent), [recent]);
+
+  const remember = (location: GeoLocation, verified: boolean) => {
+    const entry = createSavedLocation(location, verified);
+    setRecent((prev) => [entry, ...prev.filter((item) => item.id !== entry.id)].slice(0, MAX_RECENT));
+  };
+
+  const clear = () => setRecent([]);
+
+  return { recent, remember, clear };
+};
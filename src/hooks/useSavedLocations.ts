@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GeoLocation, SavedLocation } from '../types.ts';
+import { createSavedLocation, moveItem, parseSavedLocations, savedLocationId } from '../lib/savedLocations.ts';
+import { ensure, isRecord, requestJson, toApiError, type ApiError } from '../lib/apiClient.ts';
+import { readStored, readStoredJson, writeStored, writeStoredJson } from '../lib/storage.ts';
+
+const STORAGE_KEY = 'amarsipahi.favourites';
+const SYNC_KEY = 'amarsipahi.favourites.syncId';
+const PUSH_DELAY_MS = 500;
+
+// Favourites kept in localStorage and, when a sync code is set, mirrored to the SQLite backend
+const validateRemote = (body: unknown) => {
+  ensure(isRecord(body) && Array.isArray(body.locations), 'locations');
+  return parseSavedLocations(body.locations);
+};
+
+export const useSavedLocations = () => {
+  const [saved, setSaved] = useState<SavedLocation[]>(() => readStoredJson(STORAGE_KEY, parseSavedLocations));
+  const [syncId, setSyncId] = useState<string | null>(() => readStored(SYNC_KEY, (stored) => stored));
+  const [syncReady, setSyncReady] = useState(false);
+  const [syncError, setSyncError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    writeStoredJson(STORAGE_KEY, saved);
+  }, [saved]);
+
+  useEffect(() => {
+    writeStored(SYNC_KEY, syncId);
+  }, [syncId]);
+
+  // Pull once per sync code; the backend is the source of truth, an empty remote list is seeded from here
+  useEffect(() => {
+    setSyncReady(false);
+    setSyncError(null);
+    if (!syncId) return;
+
+    let cancelled = false;
+    requestJson(`/api/favourites/${encodeURIComponent(syncId)}`, validateRemote)
+      .then((remote) => {
+        if (cancelled) return;
+        if (remote.length > 0) setSaved(remote);
+        setSyncReady(true);
+      })
+      .catch((err) => {
+        if (!cancelled) setSyncError(toApiError(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [syncId]);
+
+  // Push local edits, debounced so a burst of reorders is a single request
+  useEffect(() => {
+    if (!syncId || !syncReady) return;
+    const timer = setTimeout(() => {
+      requestJson(`/api/favourites/${encodeURIComponent(syncId)}`, validateRemote, {
+        init: {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ locations: saved }),
+        },
+      })
+        .then(() => setSyncError(null))
+        .catch((err) => setSyncError(toApiError(err)));
+    }, PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [saved, syncId, syncReady]);
+
+  const isSaved = useCallback(
+    (location: GeoLocation) => saved.some((entry) => entry.id === savedLocationId(location)),
+    [saved]
+  );
+
+  const toggle = useCallback((location: GeoLocation, verified: boolean) => {
+    const id = savedLocationId(location);
+    setSaved((prev) =>
+      prev.some((entry) => entry.id === id)
+        ? prev.filter((entry) => entry.id !== id)
+        : [...prev, createSavedLocation(location, verified)]
+    );
+  }, []);
+
+  const rename = useCallback((id: string, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    setSaved((prev) => prev.map((entry) => (entry.id === id ? { ...entry, label: trimmed } : entry)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setSaved((prev) => prev.filter((entry) => entry.id !== id));
+  }, []);
+
+  const move = useCallback((from: number, to: number) => {
+    setSaved((prev) => moveItem(prev, from, to));
+  }, []);
+
+  return {
+    saved,
+    isSaved,
+    toggle,
+    rename,
+    remove,
+    move,
+    syncId,
+    syncError,
+    enableSync: () => setSyncId(crypto.randomUUID()),
+    linkSync: (code: string) => setSyncId(code.trim() || null),
+    disableSync: () => setSyncId(null),
+  };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createUnitFormatter, normalizeUnitPreferences, type UnitPreferences } from '../lib/units.ts';
+import { readStoredJson, writeStoredJson } from '../lib/storage.ts';
+
+const STORAGE_KEY = 'amarsipahi.units';
+
+// Unit preferences persisted in localStorage, plus the formatter every card renders through.
+// `linked` (units pinned by a shared link) is shown instead of the stored preferences but never stored: it lasts
+// until the viewer picks units themselves or `releaseLinkedUnits` is called on leaving the linked view.
+// `locale` is the Intl tag for numbers.
+export const useUnitPreferences = (linked?: UnitPreferences, locale?: string) => {
+  const [saved, setSaved] = useState<UnitPreferences>(() => readStoredJson(STORAGE_KEY, normalizeUnitPreferences));
+  const [pinned, setPinned] = useState<UnitPreferences | null>(linked ?? null);
+  const units = pinned ?? saved;
+
+  useEffect(() => writeStoredJson(STORAGE_KEY, saved), [saved]);
+
+  const format = useMemo(() => createUnitFormatter(units, locale), [units, locale]);
+
+  // A choice made in the settings is the viewer's own, so it is stored and replaces the link's units
+  const setUnits = (next: UnitPreferences) => {
+    setPinned(null);
+    setSaved(next);
+  };
+
+  const releaseLinkedUnits = () => setPinned(null);
+
+  return { units, setUnits, releaseLinkedUnits, format };
+};
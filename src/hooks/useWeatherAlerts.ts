@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WeatherSnapshot } from '../types.ts';
+import type { UnitFormatter } from '../lib/units.ts';
+import type { Translate } from '../lib/i18n.ts';
+import {
+  DEFAULT_ALERT_RULES, describeAlert, evaluateAlertRules, parseAlertRules, parseSeenAlerts, updateSeenAlerts,
+  type AlertRule, type SeenAlert, type TriggeredAlert,
+} from '../lib/alerts.ts';
+import { readStoredJson, writeStoredJson } from '../lib/storage.ts';
+
+const RULES_KEY = 'amarsipahi.alerts.rules';
+const NOTIFY_KEY = 'amarsipahi.alerts.notify';
+// Alert keys already announced (and possibly dismissed) while their condition persists
+const SEEN_KEY = 'amarsipahi.alerts.seen';
+
+interface LatestState {
+  rules: AlertRule[];
+  notify: boolean;
+  format: UnitFormatter;
+  t: Translate;
+  seen: Record<string, SeenAlert>;
+}
+
+// Nothing stored yet means the defaults; a stored empty list means the user removed them all
+const loadRules = () => readStoredJson(RULES_KEY, (raw) => (raw === undefined ? DEFAULT_ALERT_RULES : parseAlertRules(raw)));
+
+const loadNotify = () => readStoredJson(NOTIFY_KEY, (raw) => raw === true);
+
+const loadSeen = () => readStoredJson(SEEN_KEY, parseSeenAlerts);
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Alert rules, their latest matches per location, and deduplicated browser notifications
+export const useWeatherAlerts = (format: UnitFormatter, t: Translate) => {
+  const [rules, setRules] = useState<AlertRule[]>(loadRules);
+  const [notify, setNotify] = useState<boolean>(loadNotify);
+  const [active, setActive] = useState<Record<string, TriggeredAlert[]>>({});
+  const [seen, setSeen] = useState<Record<string, SeenAlert>>(loadSeen);
+  // Latest telemetry per location, so rule edits can be re-evaluated without refetching
+  const snapshots = useRef(new Map<string, WeatherSnapshot>());
+  const latest = useRef<LatestState>({ rules, notify, format, t, seen });
+  latest.current = { rules, notify, format, t, seen };
+
+  useEffect(() => writeStoredJson(RULES_KEY, rules), [rules]);
+  useEffect(() => writeStoredJson(NOTIFY_KEY, notify), [notify]);
+  useEffect(() => writeStoredJson(SEEN_KEY, seen), [seen]);
+
+  const apply = useCallback((locationId: string, alerts: TriggeredAlert[], announce: boolean) => {
+    const { notify: notifyEnabled, format: formatter, t: translate, seen: previous }: LatestState = latest.current;
+    setActive((prev) => ({ ...prev, [locationId]: alerts }));
+
+    const { seen: next, fresh } = updateSeenAlerts(previous, locationId, alerts);
+    if (announce && notifyEnabled && notificationsSupported() && Notification.permission === 'granted') {
+      for (const alert of fresh) {
+        new Notification(`${translate(`severity.${alert.rule.severity}`)} · ${alert.city}`, {
+          body: describeAlert(alert, formatter, translate),
+          tag: alert.key,
+        });
+      }
+    }
+    latest.current.seen = next;
+    setSeen(next);
+  }, []);
+
+  const evaluate = useCallback((weather: WeatherSnapshot, locationId: string) => {
+    snapshots.current.set(locationId, weather);
+    apply(locationId, evaluateAlertRules(latest.current.rules, weather, locationId), true);
+  }, [apply]);
+
+  // Rule edits re-run against the telemetry we already hold
+  useEffect(() => {
+    snapshots.current.forEach((weather, locationId) => {
+      apply(locationId, evaluateAlertRules(rules, weather, locationId), true);
+    });
+  }, [rules, apply]);
+
+  const enableNotifications = async (enabled: boolean) => {
+    if (enabled && notificationsSupported() && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    setNotify(enabled && notificationsSupported() && Notification.permission === 'granted');
+  };
+
+  const dismiss = (key: string) => {
+    setSeen((prev) => ({ ...prev, [key]: { dismissed: true } }));
+  };
+
+  const visibleAlerts = (locationId?: string) =>
+    (locationId ? active[locationId] ?? [] : Object.values(active).flat())
+      .filter((alert) => !seen[alert.key]?.dismissed);
+
+  return {
+    rules,
+    setRules,
+    notify,
+    notificationsSupported: notificationsSupported(),
+    enableNotifications,
+    evaluate,
+    dismiss,
+    visibleAlerts,
+  };
+};
@@ -0,0 +1,117 @@
+import { useRef, useState } from 'react';
+import type { UnitFormatter } from '../lib/units.ts';
+import type { I18n } from '../lib/i18n.ts';
+import { normalizeChatTurns, type ChatContext, type ChatPart, type ChatTurn } from '../lib/chat.ts';
+import { runChatTool } from '../lib/chatTools.ts';
+import { describeApiError, ensure, isRecord, requestJson, toApiError } from '../lib/apiClient.ts';
+
+// Model replies can take a while when the model reasons before answering
+const CHAT_TIMEOUT_MS = 60000;
+
+const validateReply = (body: unknown): ChatTurn => {
+  ensure(isRecord(body), 'body');
+  const [turn] = normalizeChatTurns([body.turn]);
+  ensure(turn?.role === 'model', 'turn');
+  return turn;
+};
+
+// Guards against a model that keeps calling tools without ever answering
+const MAX_TOOL_ROUNDS = 6;
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  // Tool calls the assistant made while composing this answer, in order
+  toolCalls: ToolCallRecord[];
+  error?: boolean;
+}
+
+// The weather assistant conversation. The backend relays each step to Gemini;
+// function calls come back here and run through the app's own fetching code.
+export const useWeatherChat = (format: UnitFormatter, i18n: I18n, context: () => Omit<ChatContext, 'units' | 'now'>) => {
+  const { t } = i18n;
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [busy, setBusy] = useState(false);
+  // Full Gemini conversation, including tool calls and results the transcript only summarises
+  const turns = useRef<ChatTurn[]>([]);
+  // Bumped on reset so an answer still in flight does not land in a cleared conversation
+  const generation = useRef(0);
+
+  const send = async (question: string) => {
+    const text = question.trim();
+    if (!text || busy) return;
+
+    const started = generation.current;
+    const assistantId = crypto.randomUUID();
+    const conversation: ChatTurn[] = [...turns.current, { role: 'user', parts: [{ text }] }];
+    const toolCalls: ToolCallRecord[] = [];
+    const update = (patch: Partial<ChatMessage>) => {
+      if (generation.current !== started) return;
+      setMessages((prev) => prev.map((message) => (message.id === assistantId ? { ...message, ...patch } : message)));
+    };
+
+    setMessages((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), role: 'user', text, toolCalls: [] },
+      { id: assistantId, role: 'assistant', text: '', toolCalls: [] },
+    ]);
+    setBusy(true);
+
+    try {
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const chatContext: ChatContext = { ...context(), units: format.symbols, now: new Date().toString() };
+        const turn = await requestJson('/api/chat', validateReply, {
+          init: {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ turns: conversation, context: chatContext }),
+          },
+          timeoutMs: CHAT_TIMEOUT_MS,
+        });
+        if (generation.current !== started) return;
+        conversation.push(turn);
+
+        const calls = turn.parts.flatMap((part) => (part.functionCall ? [part.functionCall] : []));
+        if (calls.length === 0) {
+          turns.current = conversation;
+          update({ text: turn.parts.map((part) => part.text ?? '').join('').trim() || t('chat.noAnswer') });
+          return;
+        }
+        if (round === MAX_TOOL_ROUNDS) {
+          update({ text: t('chat.tooManyToolCalls'), error: true });
+          return;
+        }
+
+        const responses: ChatPart[] = [];
+        for (const call of calls) {
+          const result = await runChatTool(call, format, i18n.locale);
+          toolCalls.push({ name: call.name, args: call.args, result });
+          update({ toolCalls: [...toolCalls] });
+          responses.push({ functionResponse: { id: call.id, name: call.name, response: result } });
+        }
+        conversation.push({ role: 'user', parts: responses });
+      }
+    } catch (err) {
+      // The failed exchange is left out of the conversation so the question can simply be asked again
+      update({ text: describeApiError(toApiError(err), t), error: true });
+    } finally {
+      if (generation.current === started) setBusy(false);
+    }
+  };
+
+  const reset = () => {
+    generation.current++;
+    turns.current = [];
+    setMessages([]);
+    setBusy(false);
+  };
+
+  return { messages, busy, send, reset };
+};
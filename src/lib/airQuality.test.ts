@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAirQuality } from './airQuality.ts';
+
+describe('parseAirQuality', () => {
+  it('reads current readings and hourly series, marking missing values as NaN', () => {
+    const airQuality = parseAirQuality({
+      current: { european_aqi: 42, us_aqi: 'high', pm2_5: 11.3, grass_pollen: 24 },
+      hourly: { time: [1792368000, 1792371600], european_aqi: [42, null] },
+    });
+    assert.equal(airQuality?.europeanAqi, 42);
+    assert.ok(Number.isNaN(airQuality?.usAqi));
+    assert.equal(airQuality?.pm25, 11.3);
+    assert.equal(airQuality?.pollen.grass, 24);
+    assert.ok(Number.isNaN(airQuality?.pollen.birch));
+    assert.deepEqual(airQuality?.hourly.europeanAqi, [42, NaN]);
+    assert.deepEqual(airQuality?.hourly.usAqi, []);
+  });
+
+  it('returns null without any usable index', () => {
+    for (const raw of [undefined, null, 'aqi', { current: { pm2_5: 11.3 } }, { current: [42] }]) {
+      assert.equal(parseAirQuality(raw), null);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import type { AirQuality, PollenType } from '../types.ts';
+import { isRecord } from './apiClient.ts';
+
+// AQI scales and categories, shared by the air-quality card and the backend briefing prompt
+
+export type AqiScale = 'european' | 'us';
+
+export type AqiCategoryId =
+  | 'good' | 'fair' | 'moderate' | 'poor' | 'veryPoor' | 'extremelyPoor'
+  | 'unhealthySensitive' | 'unhealthy' | 'veryUnhealthy' | 'hazardous';
+
+export interface AqiCategory {
+  // Stable id for translated labels; `label` is the English name used in prompts
+  id: AqiCategoryId;
+  label: string;
+  // Upper bound of the category (inclusive); the last one is open-ended
+  max: number;
+  // Tailwind classes: text colour and bar/swatch background
+  text: string;
+  fill: string;
+}
+
+export const AQI_SCALES: Record<AqiScale, { label: string; categories: AqiCategory[] }> = {
+  european: {
+    label: 'European AQI',
+    categories: [
+      { id: 'good', label: 'Good', max: 20, text: 'text-emerald-300', fill: 'bg-emerald-400' },
+      { id: 'fair', label: 'Fair', max: 40, text: 'text-lime-300', fill: 'bg-lime-400' },
+      { id: 'moderate', label: 'Moderate', max: 60, text: 'text-yellow-300', fill: 'bg-yellow-400' },
+      { id: 'poor', label: 'Poor', max: 80, text: 'text-orange-300', fill: 'bg-orange-400' },
+      { id: 'veryPoor', label: 'Very poor', max: 100, text: 'text-red-400', fill: 'bg-red-500' },
+      { id: 'extremelyPoor', label: 'Extremely poor', max: Infinity, text: 'text-fuchsia-400', fill: 'bg-fuchsia-600' },
+    ],
+  },
+  us: {
+    label: 'US AQI',
+    categories: [
+      { id: 'good', label: 'Good', max: 50, text: 'text-emerald-300', fill: 'bg-emerald-400' },
+      { id: 'moderate', label: 'Moderate', max: 100, text: 'text-yellow-300', fill: 'bg-yellow-400' },
+      { id: 'unhealthySensitive', label: 'Unhealthy for sensitive groups', max: 150, text: 'text-orange-300', fill: 'bg-orange-400' },
+      { id: 'unhealthy', label: 'Unhealthy', max: 200, text: 'text-red-400', fill: 'bg-red-500' },
+      { id: 'veryUnhealthy', label: 'Very unhealthy', max: 300, text: 'text-purple-400', fill: 'bg-purple-500' },
+      { id: 'hazardous', label: 'Hazardous', max: Infinity, text: 'text-rose-400', fill: 'bg-rose-800' },
+    ],
+  },
+};
+
+export const getAqiCategory = (scale: AqiScale, value: number): AqiCategory | null => {
+  if (!Number.isFinite(value)) return null;
+  return AQI_SCALES[scale].categories.find((category) => value <= category.max) ?? null;
+};
+
+export const POLLEN_TYPES: Record<PollenType, string> = {
+  alder: 'Alder',
+  birch: 'Birch',
+  grass: 'Grass',
+  mugwort: 'Mugwort',
+  olive: 'Olive',
+  ragweed: 'Ragweed',
+};
+
+export const isPollenType = (value: unknown): value is PollenType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(POLLEN_TYPES, value);
+
+export type PollenLevel = 'none' | 'low' | 'moderate' | 'high' | 'veryHigh';
+
+// Rough grains/m³ bands; species differ, but these track common allergy forecasts
+export const getPollenLevel = (grains: number): PollenLevel =>
+  grains < 1 ? 'none' : grains < 20 ? 'low' : grains < 100 ? 'moderate' : grains < 500 ? 'high' : 'veryHigh';
+
+const numbers = (series: unknown): number[] =>
+  Array.isArray(series) ? series.map((value) => (typeof value === 'number' ? value : NaN)) : [];
+
+const value = (raw: unknown) => (typeof raw === 'number' ? raw : NaN);
+
+// Returns null when the response carries no usable index at all
+export const parseAirQuality = (data: unknown): AirQuality | null => {
+  const current = isRecord(data) && isRecord(data.current) ? data.current : {};
+  const hourly = isRecord(data) && isRecord(data.hourly) ? data.hourly : {};
+  const airQuality: AirQuality = {
+    europeanAqi: value(current.european_aqi),
+    usAqi: value(current.us_aqi),
+    pm25: value(current.pm2_5),
+    pm10: value(current.pm10),
+    ozone: value(current.ozone),
+    nitrogenDioxide: value(current.nitrogen_dioxide),
+    pollen: Object.fromEntries(
+      (Object.keys(POLLEN_TYPES) as PollenType[]).map((type) => [type, value(current[`${type}_pollen`])])
+    ) as Record<PollenType, number>,
+    hourly: {
+      time: numbers(hourly.time),
+      europeanAqi: numbers(hourly.european_aqi),
+      usAqi: numbers(hourly.us_aqi),
+      pm25: numbers(hourly.pm2_5),
+    },
+  };
+  return Number.isFinite(airQuality.europeanAqi) || Number.isFinite(airQuality.usAqi) ? airQuality : null;
+};
+
+// The most abundant pollen right now, or null outside the pollen model's coverage
+export const dominantPollen = (pollen: Record<PollenType, number>) => {
+  const [type, grains] = (Object.entries(pollen) as [PollenType, number][])
+    .filter(([, count]) => Number.isFinite(count))
+    .sort((a, b) => b[1] - a[1])[0] ?? [];
+  return type && grains >= 1 ? { type, grains } : null;
+};
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_ALERT_RULES, evaluateAlertRules, parseAlertRules, parseSeenAlerts, updateSeenAlerts, type AlertRule,
+} from './alerts.ts';
+import { parseDaily, parseHourly } from './forecast.ts';
+import type { WeatherSnapshot } from '../types.ts';
+
+const HOUR = 3600;
+// 06:30 on 19 October 2026 in Asia/Kolkata
+const NOW = Date.parse('2026-10-19T06:30:00+05:30') / 1000;
+const TODAY = Date.parse('2026-10-19T00:00:00+05:30') / 1000;
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: 'heat', metric: 'temperature', comparator: '>=', threshold: 30, locationId: null, severity: 'warning', enabled: true,
+  ...overrides,
+});
+
+// Currently 24 °C; the hour that started at 05:00 reached 35 °C, later hours climb to 31 °C at 10:00
+const weather = (overrides: Partial<WeatherSnapshot> = {}): WeatherSnapshot => ({
+  city: 'Pune', latitude: 18.5196, longitude: 73.8554, verified: true,
+  temp: 24, feelsLike: 26, condition: 'Clear Sky', weatherCode: 0, humidity: 60, windSpeed: 10, windGusts: 18,
+  pressure: 1010, uvIndex: 2, precipitation: 0, isDay: true, airQuality: null, timezone: 'Asia/Kolkata',
+  hourly: parseHourly({
+    time: [NOW - 1.5 * HOUR, NOW - 0.5 * HOUR, NOW + 0.5 * HOUR, NOW + 3.5 * HOUR],
+    temperature_2m: [35, 24, 26, 31],
+  }),
+  daily: parseDaily({ time: [TODAY, TODAY + 24 * HOUR], uv_index_max: [6, 9] }),
+  ...overrides,
+});
+
+describe('parseAlertRules', () => {
+  it('keeps well-formed rules', () => {
+    assert.deepEqual(parseAlertRules(DEFAULT_ALERT_RULES), DEFAULT_ALERT_RULES);
+  });
+
+  it('drops malformed rules', () => {
+    const [rule] = DEFAULT_ALERT_RULES;
+    const malformed = [
+      null,
+      'rule',
+      { ...rule, id: 7 },
+      { ...rule, metric: 'toString' },
+      { ...rule, comparator: '==' },
+      { ...rule, threshold: '8' },
+      { ...rule, threshold: Infinity },
+      { ...rule, locationId: undefined },
+      { ...rule, severity: 'fatal' },
+      { ...rule, enabled: 1 },
+    ];
+    assert.deepEqual(parseAlertRules([...malformed, rule]), [rule]);
+  });
+
+  it('reads anything but an array as no rules', () => {
+    assert.deepEqual(parseAlertRules({ rules: DEFAULT_ALERT_RULES }), []);
+  });
+});
+
+describe('evaluateAlertRules', () => {
+  it('reports a match in current conditions ahead of the forecast', () => {
+    const [alert, ...rest] = evaluateAlertRules([rule({})], weather({ temp: 32 }), 'pune', NOW);
+    assert.equal(rest.length, 0);
+    assert.equal(alert.resolution, 'current');
+    assert.equal(alert.value, 32);
+    assert.equal(alert.forecastTime, null);
+    assert.equal(alert.key, 'heat:pune:now');
+  });
+
+  it('skips forecast hours that have passed and reports the first upcoming match', () => {
+    const [alert] = evaluateAlertRules([rule({})], weather(), 'pune', NOW);
+    assert.equal(alert.resolution, 'hourly');
+    assert.equal(alert.value, 31);
+    assert.equal(alert.forecastTime, NOW + 3.5 * HOUR);
+    assert.equal(alert.key, 'heat:pune:2026-10-19');
+  });
+
+  it('falls back to the daily forecast for metrics without hourly values', () => {
+    const [alert] = evaluateAlertRules([rule({ id: 'uv', metric: 'uvIndex', threshold: 8 })], weather(), 'pune', NOW);
+    assert.equal(alert.resolution, 'daily');
+    assert.equal(alert.value, 9);
+    assert.equal(alert.key, 'uv:pune:2026-10-20');
+  });
+
+  it('applies a rule scoped to one location only there, and skips disabled rules', () => {
+    const rules = [rule({ locationId: 'delhi' }), rule({ id: 'off', enabled: false })];
+    assert.deepEqual(evaluateAlertRules(rules, weather({ temp: 32 }), 'pune', NOW), []);
+    assert.equal(evaluateAlertRules(rules, weather({ temp: 32 }), 'delhi', NOW).length, 1);
+  });
+
+  it('orders matches by severity, most severe first', () => {
+    const rules = [
+      rule({ id: 'a', severity: 'info' }),
+      rule({ id: 'b', severity: 'critical' }),
+      rule({ id: 'c', severity: 'warning' }),
+    ];
+    const alerts = evaluateAlertRules(rules, weather({ temp: 32 }), 'pune', NOW);
+    assert.deepEqual(alerts.map((alert) => alert.rule.id), ['b', 'c', 'a']);
+  });
+});
+
+describe('updateSeenAlerts', () => {
+  it('keeps the key of a forecast match that moves within the same day, so it is announced once', () => {
+    const first = evaluateAlertRules([rule({})], weather(), 'pune', NOW);
+    const { seen, fresh } = updateSeenAlerts({}, 'pune', first);
+    assert.equal(fresh.length, 1);
+
+    // An hour later the forecast peak has shifted by an hour but is still today
+    const later = weather({
+      hourly: parseHourly({ time: [NOW + 0.5 * HOUR, NOW + 4.5 * HOUR], temperature_2m: [27, 30.5] }),
+    });
+    const second = evaluateAlertRules([rule({})], later, 'pune', NOW + HOUR);
+    assert.equal(second[0].key, first[0].key);
+    const dismissed = { ...seen, [first[0].key]: { dismissed: true } };
+    const next = updateSeenAlerts(dismissed, 'pune', second);
+    assert.deepEqual(next.fresh, []);
+    assert.deepEqual(next.seen, dismissed);
+  });
+
+  it('lets a condition fire again once it has cleared, leaving other locations alone', () => {
+    const alerts = evaluateAlertRules([rule({})], weather({ temp: 32 }), 'pune', NOW);
+    const elsewhere = { 'heat:delhi:now': { dismissed: true } };
+    const { seen } = updateSeenAlerts({ ...elsewhere, 'heat:pune:now': { dismissed: true } }, 'pune', []);
+    assert.deepEqual(seen, elsewhere);
+    const again = updateSeenAlerts(seen, 'pune', alerts);
+    assert.deepEqual(again.fresh, alerts);
+    assert.deepEqual(again.seen['heat:pune:now'], { dismissed: false });
+  });
+});
+
+describe('parseSeenAlerts', () => {
+  it('keeps only entries with a dismissed flag', () => {
+    assert.deepEqual(
+      parseSeenAlerts({ 'a:pune:now': { dismissed: true }, 'b:pune:now': { dismissed: 'yes' }, 'c:pune:now': null }),
+      { 'a:pune:now': { dismissed: true } }
+    );
+    assert.deepEqual(parseSeenAlerts(['a:pune:now']), {});
+  });
+});
@@ -0,0 +1,235 @@
+import type { UnitFormatter, UnitPreferences } from './units.ts';
+import type { WeatherSnapshot } from '../types.ts';
+import type { Translate } from './i18n.ts';
+import { isRecord } from './apiClient.ts';
+
+export type AlertMetric =
+  | 'temperature' | 'feelsLike' | 'windSpeed' | 'windGusts' | 'uvIndex'
+  | 'precipitation' | 'precipitationProbability' | 'humidity';
+
+export type AlertComparator = '>' | '>=' | '<' | '<=';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Thresholds are stored in metric (°C, km/h, mm) and converted for display like every other value
+export interface AlertRule {
+  id: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  // Saved-location id, or null to watch every location
+  locationId: string | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+export interface TriggeredAlert {
+  // Stable while the same condition persists; used for deduplicating notifications
+  key: string;
+  rule: AlertRule;
+  locationId: string;
+  city: string;
+  value: number;
+  // Whether the match is in current conditions or in the hourly/daily forecast
+  resolution: 'current' | 'hourly' | 'daily';
+  // Unix seconds of the first matching forecast hour or day, or null for current conditions
+  forecastTime: number | null;
+  timezone: string;
+}
+
+interface MetricSpec {
+  label: string;
+  // Unit family used to convert and format the value, if any
+  unit?: keyof UnitPreferences;
+  suffix?: string;
+  current?: (w: WeatherSnapshot) => number;
+  hourly?: (w: WeatherSnapshot, idx: number) => number;
+  daily?: (w: WeatherSnapshot, idx: number) => number;
+}
+
+export const ALERT_METRICS: Record<AlertMetric, MetricSpec> = {
+  temperature: {
+    label: 'Temperature',
+    unit: 'temperature',
+    current: (w) => w.temp,
+    hourly: (w, idx) => w.hourly.temperature[idx],
+  },
+  feelsLike: {
+    label: 'Feels like',
+    unit: 'temperature',
+    current: (w) => w.feelsLike,
+  },
+  windSpeed: {
+    label: 'Wind speed',
+    unit: 'wind',
+    current: (w) => w.windSpeed,
+    hourly: (w, idx) => w.hourly.windSpeed[idx],
+  },
+  windGusts: {
+    label: 'Wind gusts',
+    unit: 'wind',
+    current: (w) => w.windGusts,
+    hourly: (w, idx) => w.hourly.windGusts[idx],
+  },
+  uvIndex: {
+    label: 'UV index',
+    current: (w) => w.uvIndex,
+    daily: (w, idx) => w.daily.uvIndexMax[idx],
+  },
+  precipitation: {
+    label: 'Precipitation',
+    unit: 'precipitation',
+    current: (w) => w.precipitation,
+  },
+  precipitationProbability: {
+    label: 'Precipitation chance',
+    suffix: '%',
+    hourly: (w, idx) => w.hourly.precipitationProbability[idx],
+  },
+  humidity: {
+    label: 'Humidity',
+    suffix: '%',
+    current: (w) => w.humidity,
+  },
+};
+
+export const ALERT_COMPARATORS: AlertComparator[] = ['>', '>=', '<', '<='];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+const matches = (value: number, comparator: AlertComparator, threshold: number) => {
+  if (!Number.isFinite(value)) return false;
+  switch (comparator) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+  }
+};
+
+// Local calendar day of a timestamp, so a forecast match drifting by an hour keeps its key
+const localDay = (unixSeconds: number, timeZone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone }).format(unixSeconds * 1000);
+  } catch {
+    return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+  }
+};
+
+// Checks current conditions first, then the hourly and daily forecast, reporting the earliest match per rule
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  weather: WeatherSnapshot,
+  locationId: string,
+  nowSeconds = Date.now() / 1000
+): TriggeredAlert[] => {
+  const triggered: TriggeredAlert[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled || (rule.locationId !== null && rule.locationId !== locationId)) continue;
+    const spec = ALERT_METRICS[rule.metric];
+    const base = { rule, locationId, city: weather.city, timezone: weather.timezone };
+
+    const current = spec.current?.(weather);
+    if (current !== undefined && matches(current, rule.comparator, rule.threshold)) {
+      triggered.push({ ...base, key: `${rule.id}:${locationId}:now`, value: current, resolution: 'current', forecastTime: null });
+      continue;
+    }
+
+    let found: { value: number; time: number; resolution: 'hourly' | 'daily' } | null = null;
+    if (spec.hourly) {
+      const { time } = weather.hourly;
+      for (let idx = 0; idx < time.length && !found; idx++) {
+        if (time[idx] + 3600 <= nowSeconds) continue;
+        const value = spec.hourly(weather, idx);
+        if (matches(value, rule.comparator, rule.threshold)) found = { value, time: time[idx], resolution: 'hourly' };
+      }
+    }
+    if (spec.daily && !found) {
+      const { time } = weather.daily;
+      for (let idx = 0; idx < time.length && !found; idx++) {
+        const value = spec.daily(weather, idx);
+        if (matches(value, rule.comparator, rule.threshold)) found = { value, time: time[idx], resolution: 'daily' };
+      }
+    }
+    if (found) {
+      triggered.push({
+        ...base,
+        key: `${rule.id}:${locationId}:${localDay(found.time, weather.timezone)}`,
+        value: found.value,
+        resolution: found.resolution,
+        forecastTime: found.time,
+      });
+    }
+  }
+
+  return triggered.sort((a, b) => SEVERITY_RANK[b.rule.severity] - SEVERITY_RANK[a.rule.severity]);
+};
+
+const isAlertRule = (rule: unknown): rule is AlertRule =>
+  isRecord(rule) &&
+  typeof rule.id === 'string' &&
+  typeof rule.metric === 'string' && Object.prototype.hasOwnProperty.call(ALERT_METRICS, rule.metric) &&
+  ALERT_COMPARATORS.some((comparator) => comparator === rule.comparator) &&
+  typeof rule.threshold === 'number' && Number.isFinite(rule.threshold) &&
+  (rule.locationId === null || typeof rule.locationId === 'string') &&
+  ALERT_SEVERITIES.some((severity) => severity === rule.severity) &&
+  typeof rule.enabled === 'boolean';
+
+// Coerces stored rules, dropping anything malformed
+export const parseAlertRules = (raw: unknown): AlertRule[] => (Array.isArray(raw) ? raw : []).filter(isAlertRule);
+
+// An alert key already announced (and possibly dismissed) while its condition persists
+export interface SeenAlert {
+  dismissed: boolean;
+}
+
+// Coerces the stored seen map; entries that are not `{dismissed: boolean}` are dropped, so their alerts announce again
+export const parseSeenAlerts = (raw: unknown): Record<string, SeenAlert> => Object.fromEntries(
+  Object.entries(isRecord(raw) ? raw : {}).flatMap(([key, value]) =>
+    isRecord(value) && typeof value.dismissed === 'boolean' ? [[key, { dismissed: value.dismissed }]] : [])
+);
+
+// The seen map once `alerts` are the latest matches for `locationId`, and the alerts seen for the first time.
+// Entries of other locations are kept; for this one, keys whose condition has cleared are dropped so they can fire again.
+export const updateSeenAlerts = (previous: Record<string, SeenAlert>, locationId: string, alerts: TriggeredAlert[]) => {
+  const seen: Record<string, SeenAlert> = {};
+  for (const [key, value] of Object.entries(previous)) {
+    if (!key.includes(`:${locationId}:`)) seen[key] = value;
+  }
+  const fresh: TriggeredAlert[] = [];
+  for (const alert of alerts) {
+    const known = previous[alert.key];
+    seen[alert.key] = known ?? { dismissed: false };
+    if (!known) fresh.push(alert);
+  }
+  return { seen, fresh };
+};
+
+// A couple of sensible starting rules for field crews
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-uv', metric: 'uvIndex', comparator: '>=', threshold: 8, locationId: null, severity: 'warning', enabled: true },
+  { id: 'default-gusts', metric: 'windGusts', comparator: '>', threshold: 60, locationId: null, severity: 'critical', enabled: true },
+  { id: 'default-freeze', metric: 'temperature', comparator: '<=', threshold: 0, locationId: null, severity: 'warning', enabled: true },
+];
+
+export const formatAlertValue = (metric: AlertMetric, value: number, format: UnitFormatter) => {
+  const spec = ALERT_METRICS[metric];
+  if (spec.unit === 'temperature') return format.temperature(value);
+  if (spec.unit === 'wind') return format.wind(value);
+  if (spec.unit === 'precipitation') return format.precipitation(value);
+  return `${Math.round(value * 10) / 10}${spec.suffix ?? ''}`;
+};
+
+// "Wind gusts 72 km/h (rule > 60 km/h)"
+export const describeAlert = (alert: TriggeredAlert, format: UnitFormatter, t: Translate) => {
+  const { rule } = alert;
+  return t('alerts.describe', {
+    metric: t(`alertMetric.${rule.metric}`),
+    value: formatAlertValue(rule.metric, alert.value, format),
+    comparator: rule.comparator,
+    threshold: formatAlertValue(rule.metric, rule.threshold, format),
+  });
+};
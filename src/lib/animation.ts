@@ -0,0 +1,20 @@
+// Shared motion variants for the bento grid and its cards
+export const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: { staggerChildren: 0.1, delayChildren: 0.2 },
+  },
+  exit: { opacity: 0, transition: { duration: 0.3 } },
+};
+
+export const itemVariants = {
+  hidden: { y: 20, opacity: 0, filter: "blur(10px)", scale: 0.95 },
+  visible: {
+    y: 0,
+    opacity: 1,
+    filter: "blur(0px)",
+    scale: 1,
+    transition: { type: "spring", stiffness: 50, damping: 15 },
+  },
+};
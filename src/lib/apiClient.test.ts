@@ -0,0 +1,146 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiError, describeApiError, ensure, isAbortError, isRecord, requestJson, toApiError } from './apiClient.ts';
+import { createTranslator } from './i18n.ts';
+
+const realFetch = globalThis.fetch;
+
+// Replaces fetch for one test; `respond` sees the request and may honour its abort signal
+const mockFetch = (respond: (url: string, init: RequestInit) => Response | Promise<Response>) => {
+  globalThis.fetch = async (input, init = {}) => respond(String(input), init);
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Never answers; rejects the way fetch does once the request is aborted, or at once if it already was
+const hang = (_url: string, init: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    const abort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    if (init.signal?.aborted) abort();
+    init.signal?.addEventListener('abort', abort);
+  });
+
+const rejection = async (promise: Promise<unknown>) =>
+  promise.then(() => assert.fail('expected a rejection'), (err: unknown) => err);
+
+const apiError = async (promise: Promise<unknown>) => {
+  const err = await rejection(promise);
+  assert.ok(err instanceof ApiError);
+  return err;
+};
+
+describe('requestJson', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('resolves with the validated body and passes the request options through', async () => {
+    let seen: RequestInit | undefined;
+    mockFetch((url, init) => {
+      assert.equal(url, '/api/geocode?name=Pune');
+      seen = init;
+      return json({ results: [] });
+    });
+    const body = await requestJson('/api/geocode?name=Pune', (value) => {
+      ensure(isRecord(value) && Array.isArray(value.results), 'results');
+      return value.results;
+    }, { init: { headers: { Accept: 'application/json' } } });
+    assert.deepEqual(body, []);
+    assert.deepEqual(seen?.headers, { Accept: 'application/json' });
+    assert.ok(seen?.signal instanceof AbortSignal);
+  });
+
+  it('maps HTTP statuses to error kinds and keeps the server message for the console', async () => {
+    const cases: [number, string][] = [[404, 'not-found'], [429, 'rate-limit'], [504, 'timeout'], [408, 'timeout'], [502, 'server'], [400, 'server']];
+    for (const [status, kind] of cases) {
+      mockFetch(() => json({ error: `Failed with ${status}` }, status));
+      const err = await apiError(requestJson('/api/forecast'));
+      assert.equal(err.kind, kind);
+      assert.equal(err.status, status);
+      assert.equal(err.message, `Failed with ${status}`);
+    }
+  });
+
+  it('reads Retry-After into retryAfter', async () => {
+    mockFetch(() => json({ error: 'Too many requests' }, 429, { 'Retry-After': '30' }));
+    assert.equal((await apiError(requestJson('/api/chat'))).retryAfter, 30);
+
+    mockFetch(() => json({ error: 'Too many requests' }, 429));
+    assert.equal((await apiError(requestJson('/api/chat'))).retryAfter, undefined);
+  });
+
+  it('describes error answers without a JSON body by their status', async () => {
+    mockFetch(() => new Response('Bad Gateway', { status: 502 }));
+    const err = await apiError(requestJson('/api/forecast'));
+    assert.equal(err.kind, 'server');
+    assert.match(err.message, /HTTP 502/);
+  });
+
+  it('fails a successful answer that is not JSON as malformed', async () => {
+    mockFetch(() => new Response('<html>', { status: 200 }));
+    assert.equal((await apiError(requestJson('/api/forecast'))).kind, 'malformed');
+  });
+
+  it('fails as malformed when the validator rejects the body', async () => {
+    mockFetch(() => json({ results: 'none' }));
+    const err = await apiError(requestJson('/api/geocode', (value) => {
+      ensure(isRecord(value) && Array.isArray(value.results), 'results');
+      return value.results;
+    }));
+    assert.equal(err.kind, 'malformed');
+    assert.match(err.message, /\(results\)/);
+  });
+
+  it('reports fetch failures as network errors', async () => {
+    mockFetch(() => Promise.reject(new TypeError('Failed to fetch')));
+    assert.equal((await apiError(requestJson('/api/forecast'))).kind, 'network');
+  });
+
+  it('times out a request that never answers', async () => {
+    mockFetch(hang);
+    assert.equal((await apiError(requestJson('/api/forecast', undefined, { timeoutMs: 20 }))).kind, 'timeout');
+  });
+
+  it('rejects with the AbortError when the caller cancels', async () => {
+    mockFetch(hang);
+    const controller = new AbortController();
+    const pending = requestJson('/api/forecast', undefined, { signal: controller.signal });
+    controller.abort();
+    const err = await rejection(pending);
+    assert.ok(!(err instanceof ApiError));
+    assert.ok(isAbortError(err));
+  });
+
+  it('does not start a request whose signal is already aborted', async () => {
+    mockFetch(hang);
+    const controller = new AbortController();
+    controller.abort();
+    assert.ok(isAbortError(await rejection(requestJson('/api/forecast', undefined, { signal: controller.signal }))));
+  });
+});
+
+describe('toApiError', () => {
+  it('keeps ApiErrors and maps anything else', () => {
+    const original = new ApiError('rate-limit', { status: 429, reason: 'Slow down' });
+    assert.equal(toApiError(original), original);
+    assert.equal(toApiError(new TypeError('Failed to fetch')).kind, 'network');
+    const other = toApiError(new Error('Broken'));
+    assert.equal(other.kind, 'server');
+    assert.equal(other.message, 'Broken');
+  });
+});
+
+describe('describeApiError', () => {
+  it('translates the kind and never shows the untranslated reason', () => {
+    const error = new ApiError('timeout', { status: 504, reason: 'Upstream timed out after 10000 ms' });
+    assert.equal(describeApiError(error, createTranslator('en')), 'The request timed out.');
+    assert.equal(describeApiError(error, createTranslator('hi')), 'अनुरोध का समय समाप्त हो गया।');
+  });
+
+  it('prefers a translated detail', () => {
+    const t = createTranslator('en');
+    const error = new ApiError('not-found', { detail: t('search.notFound', { name: 'Atlantis' }) });
+    assert.equal(describeApiError(error, t), '"Atlantis" was not found in the global database.');
+  });
+});
@@ -0,0 +1,118 @@
+import type { Translate } from './i18n.ts';
+
+// Transport for every call to our backend: timeouts, cancellation, and one error type the UI can branch on
+
+export type ApiErrorKind = 'not-found' | 'network' | 'timeout' | 'rate-limit' | 'malformed' | 'server' | 'geolocation';
+
+export interface ApiErrorOptions {
+  status?: number;
+  retryAfter?: number;
+  // Text already in the interface language, shown instead of the kind's message (e.g. the name that was not found)
+  detail?: string;
+  // The backend's explanation or the check that failed; logged but never shown, since it is not translated
+  reason?: string;
+}
+
+// Users see the kind, translated through the catalogues (see describeApiError); `message` is for the console
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  // HTTP status, when a response arrived at all
+  status?: number;
+  // Seconds the backend asked us to wait, for rate-limit errors
+  retryAfter?: number;
+  detail?: string;
+
+  constructor(kind: ApiErrorKind, { status, retryAfter, detail, reason }: ApiErrorOptions = {}) {
+    super(reason ?? detail ?? kind);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfter = retryAfter;
+    this.detail = detail;
+  }
+}
+
+// What went wrong, in the interface language
+export const describeApiError = (error: ApiError, t: Translate) => error.detail ?? t(`error.${error.kind}.message`);
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export interface RequestOptions {
+  init?: RequestInit;
+  // Cancels the request; an aborted request rejects with the signal's AbortError, never an ApiError
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// Superseded requests are cancelled on purpose and must not surface as failures
+export const isAbortError = (err: unknown) => (err as { name?: string } | null)?.name === 'AbortError';
+
+const kindForStatus = (status: number): ApiErrorKind =>
+  status === 404 ? 'not-found' : status === 429 ? 'rate-limit' : status === 408 || status === 504 ? 'timeout' : 'server';
+
+// Fetches a JSON document and hands it to `validate`, which returns the typed value or throws (see `ensure`)
+export const requestJson = async <T = unknown>(
+  url: string,
+  validate: (body: unknown) => T = (body) => body as T,
+  { init, signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions = {}
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) throw new ApiError('timeout');
+      if (signal?.aborted) throw err;
+      throw new ApiError('network', { reason: (err as Error | null)?.message });
+    }
+
+    let body: unknown;
+    try {
+      body = await res.json();
+    } catch (err) {
+      if (timedOut) throw new ApiError('timeout');
+      if (signal?.aborted) throw err;
+      if (res.ok) throw new ApiError('malformed', { status: res.status, reason: 'The response was not valid JSON.' });
+      body = null;
+    }
+
+    if (!res.ok) {
+      const message = (body as { error?: unknown } | null)?.error;
+      const retryAfter = Number(res.headers.get('Retry-After'));
+      throw new ApiError(kindForStatus(res.status), {
+        status: res.status,
+        retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+        reason: typeof message === 'string' ? message : `Request failed with HTTP ${res.status}.`,
+      });
+    }
+    return validate(body);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// Guard for response validators: fails the request as malformed, naming the offending field
+export const ensure: (condition: unknown, field: string) => asserts condition = (condition, field) => {
+  if (!condition) throw new ApiError('malformed', { reason: `Unexpected response from the server (${field}).` });
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Anything thrown while loading data, as an ApiError the error panel can render
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+  const reason = (err as Error | null)?.message;
+  return new ApiError(err instanceof TypeError ? 'network' : 'server', { reason });
+};
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SUN_TIMES_TOLERANCE_MINUTES, compareSunTimes, getMoonIllumination, getSunTimes } from './astronomy.ts';
+
+const PUNE = [18.5204, 73.8567] as const;
+const LONGYEARBYEN = [78.2232, 15.6267] as const;
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+
+// Published almanac times are to the minute; allow two for rounding and the observer's exact position
+const assertNear = (actual: number | null, expected: string, minutes = 2) => {
+  assert.ok(actual !== null, `expected a time near ${expected}`);
+  const gap = Math.abs(actual - at(expected)) / 60;
+  assert.ok(gap <= minutes, `${new Date(actual * 1000).toISOString()} is ${gap.toFixed(1)} min from ${expected}`);
+};
+
+describe('getSunTimes', () => {
+  it('matches published sunrise and sunset for Pune at the solstices', () => {
+    const june = getSunTimes(at('2026-06-21T12:00:00+05:30'), ...PUNE);
+    assertNear(june.sunrise.rise, '2026-06-21T06:00:00+05:30');
+    assertNear(june.sunrise.set, '2026-06-21T19:14:00+05:30');
+    assert.equal(june.polar, null);
+
+    const december = getSunTimes(at('2026-12-21T12:00:00+05:30'), ...PUNE);
+    assertNear(december.sunrise.rise, '2026-12-21T07:03:00+05:30');
+    assertNear(december.sunrise.set, '2026-12-21T18:04:00+05:30');
+    assert.ok(december.dayLength < june.dayLength);
+  });
+
+  it('matches published sunrise and sunset for New York west of Greenwich', () => {
+    const times = getSunTimes(at('2024-06-20T12:00:00-04:00'), 40.7128, -74.006);
+    assertNear(times.sunrise.rise, '2024-06-20T05:25:00-04:00');
+    assertNear(times.sunrise.set, '2024-06-20T20:31:00-04:00');
+  });
+
+  it('orders twilight, sunrise and golden hour around solar noon', () => {
+    const { civil, blueGolden, sunrise, golden, solarNoon } = getSunTimes(at('2026-10-19T12:00:00+05:30'), ...PUNE);
+    const morning = [civil.rise, blueGolden.rise, sunrise.rise, golden.rise, solarNoon];
+    const evening = [solarNoon, golden.set, sunrise.set, blueGolden.set, civil.set];
+    for (const sequence of [morning, evening]) {
+      for (let i = 1; i < sequence.length; i++) assert.ok((sequence[i - 1] ?? NaN) < (sequence[i] ?? NaN));
+    }
+  });
+
+  it('reports polar day in Svalbard at midsummer', () => {
+    const times = getSunTimes(at('2026-06-21T12:00:00+02:00'), ...LONGYEARBYEN);
+    assert.equal(times.polar, 'day');
+    assert.deepEqual(times.sunrise, { rise: null, set: null });
+    assert.equal(times.dayLength, 86400);
+  });
+
+  it('reports polar night in Svalbard at midwinter', () => {
+    const times = getSunTimes(at('2026-12-21T12:00:00+01:00'), ...LONGYEARBYEN);
+    assert.equal(times.polar, 'night');
+    assert.deepEqual(times.sunrise, { rise: null, set: null });
+    assert.equal(times.dayLength, 0);
+  });
+});
+
+describe('getMoonIllumination', () => {
+  it('is half lit and waxing at the first quarter of 18 January 2024 (03:53 UTC)', () => {
+    const moon = getMoonIllumination(at('2024-01-18T03:53:00Z'));
+    assert.equal(moon.name, 'firstQuarter');
+    assert.ok(Math.abs(moon.phase - 0.25) < 0.01, `phase ${moon.phase}`);
+    assert.ok(Math.abs(moon.fraction - 0.5) < 0.02, `fraction ${moon.fraction}`);
+  });
+
+  it('is dark at the new moon and fully lit at the full moon around it', () => {
+    const newMoon = getMoonIllumination(at('2024-01-11T11:57:00Z'));
+    assert.equal(newMoon.name, 'new');
+    assert.ok(newMoon.fraction < 0.01);
+
+    const fullMoon = getMoonIllumination(at('2024-01-25T17:54:00Z'));
+    assert.equal(fullMoon.name, 'full');
+    assert.ok(fullMoon.fraction > 0.99);
+  });
+});
+
+describe('compareSunTimes', () => {
+  const rise = at('2026-10-19T06:30:00+05:30');
+  const set = at('2026-10-19T18:11:00+05:30');
+  const computed = { rise, set };
+
+  it('reports the larger of the sunrise and sunset gaps in minutes, within the tolerance', () => {
+    assert.equal(compareSunTimes(computed, rise + 60, set - 180), 3);
+  });
+
+  it('flags a forecast beyond the tolerance', () => {
+    assert.equal(compareSunTimes(computed, rise + (SUN_TIMES_TOLERANCE_MINUTES + 1) * 60, set), SUN_TIMES_TOLERANCE_MINUTES + 1);
+  });
+
+  it('compares only the side both have', () => {
+    assert.equal(compareSunTimes(computed, undefined, set + 120), 2);
+    assert.equal(compareSunTimes({ rise: null, set }, rise + 600, set + 60), 1);
+  });
+
+  it('returns null when there is nothing to compare', () => {
+    assert.equal(compareSunTimes(computed, undefined, undefined), null);
+    assert.equal(compareSunTimes(computed, NaN, Infinity), null);
+    assert.equal(compareSunTimes({ rise: null, set: null }, rise, set), null);
+  });
+});
@@ -0,0 +1,235 @@
+// Sun and moon events computed from coordinates and date alone, so they work offline.
+// Formulas after Vladimir Agafonkin's SunCalc (BSD-2-Clause), which follows the astronomy answers at
+// aa.quae.nl; accurate to about a minute for sun events away from the poles. All times are unix seconds.
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86_400_000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+// Obliquity of the Earth's axis
+const OBLIQUITY = RAD * 23.4397;
+
+const toJulian = (ms: number) => ms / DAY_MS - 0.5 + J1970;
+const fromJulian = (julian: number) => (julian + 0.5 - J1970) * DAY_MS;
+const toDays = (ms: number) => toJulian(ms) - J2000;
+
+const rightAscension = (longitude: number, latitude: number) =>
+  Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude));
+
+const declination = (longitude: number, latitude: number) =>
+  Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude));
+
+const altitude = (hourAngle: number, phi: number, dec: number) =>
+  Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+
+const siderealTime = (days: number, lw: number) => RAD * (280.16 + 360.9856235 * days) - lw;
+
+const solarMeanAnomaly = (days: number) => RAD * (357.5291 + 0.98560028 * days);
+
+const eclipticLongitude = (anomaly: number) => {
+  const center = RAD * (1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const perihelion = RAD * 102.9372;
+  return anomaly + center + perihelion + Math.PI;
+};
+
+const sunCoords = (days: number) => {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return { dec: declination(longitude, 0), ra: rightAscension(longitude, 0) };
+};
+
+// Sun altitude in degrees at an instant, for placing the "now" marker
+export const sunAltitude = (unixSeconds: number, latitude: number, longitude: number) => {
+  const days = toDays(unixSeconds * 1000);
+  const { dec, ra } = sunCoords(days);
+  return altitude(siderealTime(days, RAD * -longitude) - ra, RAD * latitude, dec) / RAD;
+};
+
+const J0 = 0.0009;
+
+const approxTransit = (hourAngle: number, lw: number, cycle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+
+const solarTransitJ = (days: number, anomaly: number, longitude: number) =>
+  J2000 + days + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+
+// NaN when the sun never reaches that altitude on the day
+const hourAngleFor = (height: number, phi: number, dec: number) =>
+  Math.acos((Math.sin(height) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec)));
+
+// Morning and evening crossings of a sun altitude, or null for days the sun stays above or below it
+export interface Crossing {
+  rise: number | null;
+  set: number | null;
+}
+
+export interface SunTimes {
+  solarNoon: number;
+  // Upper limb on the horizon, with standard refraction (-0.833°)
+  sunrise: Crossing;
+  // Sun 6° below the horizon
+  civil: Crossing;
+  // Sun 4° below the horizon: blue hour runs from civil twilight to here, golden hour from here to 6° up
+  blueGolden: Crossing;
+  // Sun 6° above the horizon
+  golden: Crossing;
+  // Seconds between sunrise and sunset; 0 or 86 400 when the sun never crosses the horizon
+  dayLength: number;
+  // Which way the day went when there is no sunrise or sunset
+  polar: 'day' | 'night' | null;
+}
+
+// Events of the local day containing `unixSeconds` (pass a time near local noon)
+export const getSunTimes = (unixSeconds: number, latitude: number, longitude: number): SunTimes => {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const days = toDays(unixSeconds * 1000);
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const transitDays = approxTransit(0, lw, cycle);
+  const anomaly = solarMeanAnomaly(transitDays);
+  const longitudeOfSun = eclipticLongitude(anomaly);
+  const dec = declination(longitudeOfSun, 0);
+  const noon = solarTransitJ(transitDays, anomaly, longitudeOfSun);
+
+  const crossing = (degrees: number): Crossing => {
+    const hourAngle = hourAngleFor(degrees * RAD, phi, dec);
+    if (Number.isNaN(hourAngle)) return { rise: null, set: null };
+    const set = solarTransitJ(approxTransit(hourAngle, lw, cycle), anomaly, longitudeOfSun);
+    return { rise: fromJulian(noon - (set - noon)) / 1000, set: fromJulian(set) / 1000 };
+  };
+
+  const sunrise = crossing(-0.833);
+  const noonAltitude = altitude(0, phi, dec) / RAD;
+  const polar = sunrise.rise !== null ? null : noonAltitude > 0 ? 'day' : 'night';
+  return {
+    solarNoon: fromJulian(noon) / 1000,
+    sunrise,
+    civil: crossing(-6),
+    blueGolden: crossing(-4),
+    golden: crossing(6),
+    dayLength: sunrise.rise !== null && sunrise.set !== null ? sunrise.set - sunrise.rise : polar === 'day' ? 86_400 : 0,
+    polar,
+  };
+};
+
+// Geocentric ecliptic coordinates of the moon
+const moonCoords = (days: number) => {
+  const meanLongitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const meanDistance = RAD * (93.272 + 13.22935 * days);
+  const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const latitude = RAD * 5.128 * Math.sin(meanDistance);
+  return {
+    ra: rightAscension(longitude, latitude),
+    dec: declination(longitude, latitude),
+    // Kilometres
+    distance: 385001 - 20905 * Math.cos(meanAnomaly),
+  };
+};
+
+const moonAltitude = (ms: number, phi: number, lw: number) => {
+  const days = toDays(ms);
+  const { ra, dec } = moonCoords(days);
+  const height = altitude(siderealTime(days, lw) - ra, phi, dec);
+  // Atmospheric refraction lifts bodies near the horizon; below it the horizon value applies
+  const lifted = Math.max(height, 0);
+  return height + 0.0002967 / Math.tan(lifted + 0.00312536 / (lifted + 0.08901179));
+};
+
+export type MoonPhase =
+  | 'new' | 'waxingCrescent' | 'firstQuarter' | 'waxingGibbous'
+  | 'full' | 'waningGibbous' | 'lastQuarter' | 'waningCrescent';
+
+const MOON_PHASES: MoonPhase[] = [
+  'new', 'waxingCrescent', 'firstQuarter', 'waxingGibbous', 'full', 'waningGibbous', 'lastQuarter', 'waningCrescent',
+];
+
+export interface MoonIllumination {
+  // 0 to 1, lit share of the disc
+  fraction: number;
+  // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phase: number;
+  name: MoonPhase;
+}
+
+export const getMoonIllumination = (unixSeconds: number): MoonIllumination => {
+  const days = toDays(unixSeconds * 1000);
+  const sun = sunCoords(days);
+  const moon = moonCoords(days);
+  // Distance from the Earth to the Sun in kilometres
+  const sunDistance = 149598000;
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const incidence = Math.atan2(sunDistance * Math.sin(elongation), moon.distance - sunDistance * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const phase = 0.5 + (0.5 * incidence * (angle < 0 ? -1 : 1)) / Math.PI;
+  return {
+    fraction: (1 + Math.cos(incidence)) / 2,
+    phase,
+    // Eight named phases, each centred on its exact moment
+    name: MOON_PHASES[Math.round(phase * 8) % 8],
+  };
+};
+
+// Moonrise and moonset within the 24 hours after `dayStart` (local midnight), found by fitting a parabola
+// through the moon's altitude every two hours. A missing value means the moon did not rise or set that day.
+export const getMoonTimes = (dayStart: number, latitude: number, longitude: number): Crossing => {
+  const phi = RAD * latitude;
+  const lw = RAD * -longitude;
+  // Altitude of the moon's centre when its upper limb touches the horizon
+  const horizon = 0.133 * RAD;
+  const heightAt = (hours: number) => moonAltitude((dayStart + hours * 3600) * 1000, phi, lw) - horizon;
+
+  let rise: number | null = null;
+  let set: number | null = null;
+  let h0 = heightAt(0);
+  for (let hour = 1; hour <= 24 && (rise === null || set === null); hour += 2) {
+    const h1 = heightAt(hour);
+    const h2 = heightAt(hour + 1);
+    const a = (h0 + h2) / 2 - h1;
+    const b = (h2 - h0) / 2;
+    const xe = -b / (2 * a);
+    const ye = (a * xe + b) * xe + h1;
+    const discriminant = b * b - 4 * a * h1;
+    let roots = 0;
+    let x1 = 0;
+    let x2 = 0;
+    if (discriminant >= 0) {
+      const dx = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+      x1 = xe - dx;
+      x2 = xe + dx;
+      if (Math.abs(x1) <= 1) roots++;
+      if (Math.abs(x2) <= 1) roots++;
+      if (x1 < -1) x1 = x2;
+    }
+    if (roots === 1) {
+      if (h0 < 0) rise ??= hour + x1;
+      else set ??= hour + x1;
+    } else if (roots === 2) {
+      rise ??= hour + (ye < 0 ? x2 : x1);
+      set ??= hour + (ye < 0 ? x1 : x2);
+    }
+    h0 = h2;
+  }
+
+  return {
+    rise: rise === null ? null : dayStart + rise * 3600,
+    set: set === null ? null : dayStart + set * 3600,
+  };
+};
+
+// Largest gap in minutes between the computed sunrise/sunset and the forecast's, or null when either side lacks them.
+// Open-Meteo reports to the minute, so a few minutes of disagreement is expected.
+export const SUN_TIMES_TOLERANCE_MINUTES = 5;
+
+export const compareSunTimes = (computed: Crossing, forecastSunrise: number | undefined, forecastSunset: number | undefined) => {
+  const gaps = [
+    [computed.rise, forecastSunrise],
+    [computed.set, forecastSunset],
+  ].flatMap(([ours, theirs]) =>
+    typeof ours === 'number' && typeof theirs === 'number' && Number.isFinite(theirs) ? [Math.abs(ours - theirs) / 60] : []
+  );
+  return gaps.length > 0 ? Math.round(Math.max(...gaps)) : null;
+};
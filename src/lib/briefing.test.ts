@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeBriefing } from './briefing.ts';
+
+describe('normalizeBriefing', () => {
+  it('keeps well-formed fields and clamps the confidence', () => {
+    assert.deepEqual(
+      normalizeBriefing({ summary: 'Light rain.', risks: ['Slippery roads', 3], recommendations: [], confidence: 1.4 }, 'gemini'),
+      { summary: 'Light rain.', risks: ['Slippery roads'], recommendations: [], confidence: 1, source: 'gemini' }
+    );
+  });
+
+  it('reads anything but an object as an empty briefing', () => {
+    for (const raw of [undefined, null, 'Light rain.']) {
+      assert.deepEqual(normalizeBriefing(raw, 'fallback'), {
+        summary: '', risks: [], recommendations: [], confidence: undefined, source: 'fallback',
+      });
+    }
+  });
+});
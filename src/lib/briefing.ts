@@ -0,0 +1,110 @@
+import type { AirQuality, PollenType, WeatherSnapshot } from '../types.ts';
+import { dominantPollen } from './airQuality.ts';
+import { isRecord } from './apiClient.ts';
+import type { Locale, Translate } from './i18n.ts';
+import type { UnitPreferences } from './units.ts';
+
+// Briefing profiles and the structured briefing shape, shared by the UI and the backend prompt
+
+export type BriefingProfile = 'general' | 'commuter' | 'outdoorWorker' | 'runner' | 'photographer' | 'agriculture';
+
+export const BRIEFING_PROFILES: Record<BriefingProfile, { label: string; focus: string }> = {
+  general: {
+    label: 'General',
+    focus: 'a general audience planning their day',
+  },
+  commuter: {
+    label: 'Commuter',
+    focus: 'a commuter travelling by road, rail or bike: visibility, wet or icy surfaces, wind and delays',
+  },
+  outdoorWorker: {
+    label: 'Outdoor Worker',
+    focus: 'an outdoor field crew: heat and cold stress, UV exposure, lightning, gusts and safe working windows',
+  },
+  runner: {
+    label: 'Runner',
+    focus: 'a runner: heat index, humidity, air feel, hydration and the best time of day to train',
+  },
+  photographer: {
+    label: 'Photographer',
+    focus: 'a landscape photographer: light quality, cloud cover, visibility, precipitation and gear protection',
+  },
+  agriculture: {
+    label: 'Agriculture',
+    focus: 'a farmer: irrigation, spraying windows, frost or heat risk to crops and livestock, field access',
+  },
+};
+
+export const isBriefingProfile = (value: unknown): value is BriefingProfile =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BRIEFING_PROFILES, value);
+
+// The air-quality readings the briefing prompt quotes; null marks a value the models do not cover
+export interface BriefingAirQuality {
+  europeanAqi: number | null;
+  usAqi: number | null;
+  pm25: number | null;
+  pollen: PollenType | null;
+}
+
+const finite = (value: number) => (Number.isFinite(value) ? value : null);
+
+export const toBriefingAirQuality = (airQuality: AirQuality | null): BriefingAirQuality | null =>
+  airQuality && {
+    europeanAqi: finite(airQuality.europeanAqi),
+    usAqi: finite(airQuality.usAqi),
+    pm25: finite(airQuality.pm25),
+    pollen: dominantPollen(airQuality.pollen)?.type ?? null,
+  };
+
+// Body of POST /api/briefing; the scheduled webhook briefings build theirs the same way
+export const toBriefingRequest = (
+  snapshot: WeatherSnapshot,
+  units: UnitPreferences,
+  profile: BriefingProfile,
+  language: Locale
+) => ({
+  location: snapshot.city,
+  condition: snapshot.condition,
+  weatherCode: snapshot.weatherCode,
+  temp: snapshot.temp,
+  feelsLike: snapshot.feelsLike,
+  humidity: snapshot.humidity,
+  windSpeed: snapshot.windSpeed,
+  uvIndex: snapshot.uvIndex,
+  units,
+  profile,
+  language,
+  airQuality: toBriefingAirQuality(snapshot.airQuality),
+});
+
+export interface AiBriefing {
+  summary: string;
+  risks: string[];
+  recommendations: string[];
+  // 0 to 1; absent while the briefing is still streaming
+  confidence?: number;
+  source: 'gemini' | 'fallback';
+}
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+// Coerces model output (complete or partially streamed) into a briefing
+export const normalizeBriefing = (raw: unknown, source: AiBriefing['source']): AiBriefing => {
+  const { summary, risks, recommendations, confidence } = isRecord(raw) ? raw : {};
+  return {
+    summary: typeof summary === 'string' ? summary : '',
+    risks: strings(risks),
+    recommendations: strings(recommendations),
+    confidence: typeof confidence === 'number' ? Math.min(Math.max(confidence, 0), 1) : undefined,
+    source,
+  };
+};
+
+// Plain briefing used whenever Gemini is unavailable; condition and feelsLike arrive already translated and formatted
+export const fallbackBriefing = (condition: string, feelsLike: string, t: Translate, note = ''): AiBriefing => ({
+  summary: `${t('briefing.fallback', { condition: condition.toLowerCase(), feelsLike })}${note}`,
+  risks: [],
+  recommendations: [],
+  source: 'fallback',
+});
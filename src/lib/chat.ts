@@ -0,0 +1,66 @@
+// Conversation shapes for the weather assistant, shared by the chat panel and the backend relay.
+// Turns mirror Gemini's Content/Part format so tool calls round-trip without translation.
+
+import { isRecord } from './apiClient.ts';
+
+export type ChatToolName = 'search_locations' | 'get_current_conditions' | 'get_hourly_forecast' | 'get_daily_forecast';
+
+export interface ChatFunctionCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatPart {
+  text?: string;
+  functionCall?: ChatFunctionCall;
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+  // Opaque signature Gemini attaches to its turns; it must be echoed back unchanged
+  thoughtSignature?: string;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ChatPart[];
+}
+
+// Where the user is looking and how values should be quoted; sent with every chat request
+export interface ChatContext {
+  location?: { label: string; latitude: number; longitude: number };
+  units: Record<'temperature' | 'wind' | 'pressure' | 'precipitation', string>;
+  // The user's local clock with its offset, so "tomorrow" and "Friday" resolve correctly
+  now: string;
+}
+
+const normalizePart = (raw: unknown): ChatPart | null => {
+  if (!isRecord(raw)) return null;
+  const { text, functionCall: call, functionResponse: response, thoughtSignature } = raw;
+  const part: ChatPart = {};
+  if (typeof text === 'string') part.text = text;
+  if (isRecord(call) && typeof call.name === 'string') {
+    part.functionCall = {
+      id: typeof call.id === 'string' ? call.id : undefined,
+      name: call.name,
+      args: isRecord(call.args) ? call.args : {},
+    };
+  }
+  if (isRecord(response) && typeof response.name === 'string' && isRecord(response.response)) {
+    part.functionResponse = {
+      id: typeof response.id === 'string' ? response.id : undefined,
+      name: response.name,
+      response: response.response,
+    };
+  }
+  if (typeof thoughtSignature === 'string') part.thoughtSignature = thoughtSignature;
+  return part.text !== undefined || part.functionCall || part.functionResponse ? part : null;
+};
+
+// Coerces untrusted conversation input (request bodies, model output), dropping anything malformed
+export const normalizeChatTurns = (raw: unknown): ChatTurn[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((turn: unknown): ChatTurn[] => {
+    if (!isRecord(turn) || (turn.role !== 'user' && turn.role !== 'model')) return [];
+    const parts = (Array.isArray(turn.parts) ? turn.parts : [])
+      .map(normalizePart)
+      .filter((part): part is ChatPart => part !== null);
+    return parts.length > 0 ? [{ role: turn.role, parts }] : [];
+  });
@@ -0,0 +1,31 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runChatTool } from './chatTools.ts';
+import { createUnitFormatter, DEFAULT_UNITS } from './units.ts';
+
+const realFetch = globalThis.fetch;
+const format = createUnitFormatter(DEFAULT_UNITS);
+
+describe('chat tools', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('searches locations in the interface language', async () => {
+    const urls: string[] = [];
+    globalThis.fetch = async (input) => {
+      urls.push(String(input));
+      return Response.json({
+        results: [{ id: 1259229, name: 'पुणे', latitude: 18.5196, longitude: 73.8554, country: 'भारत', country_code: 'IN' }],
+      });
+    };
+    const result = await runChatTool({ name: 'search_locations', args: { name: 'Pune' } }, format, 'hi');
+    assert.equal(new URL(urls[0], 'http://app').searchParams.get('language'), 'hi');
+    assert.deepEqual(result.results, [{ label: 'पुणे, भारत', latitude: 18.5196, longitude: 73.8554, population: undefined }]);
+  });
+
+  it('reports failures and unknown tools as error results', async () => {
+    assert.deepEqual(await runChatTool({ name: 'search_locations', args: {} }, format, 'en'), { error: 'name is required.' });
+    assert.deepEqual(await runChatTool({ name: 'launch', args: {} }, format, 'en'), { error: 'Unknown tool "launch".' });
+  });
+});
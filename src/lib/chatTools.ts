@@ -0,0 +1,124 @@
+import type { WeatherSnapshot } from '../types.ts';
+import type { UnitFormatter } from './units.ts';
+import type { Locale } from './i18n.ts';
+import type { ChatFunctionCall, ChatToolName } from './chat.ts';
+import { formatCoordinates } from './coordinates.ts';
+import { formatLocationLabel } from './locations.ts';
+import { formatLocalIso } from './time.ts';
+import { getWeatherCondition } from './weatherCodes.ts';
+import { loadTelemetry, searchLocations } from './weatherApi.ts';
+import { toBriefingAirQuality } from './briefing.ts';
+
+// Assistant tools, executed in the browser so they share the geocoding and forecast code of the weather view.
+// Results are converted to the user's units and use local ISO times, so the model can quote them directly;
+// place names come back in the interface language.
+
+const SEARCH_RESULT_COUNT = 5;
+
+const coordinateArgs = (args: Record<string, unknown>) => {
+  const latitude = Number(args.latitude);
+  const longitude = Number(args.longitude);
+  if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+    throw new Error('latitude and longitude must be valid decimal degrees.');
+  }
+  const label = typeof args.label === 'string' && args.label.trim() ? args.label.trim() : formatCoordinates({ latitude, longitude });
+  return { name: label, latitude, longitude };
+};
+
+const fetchSnapshot = (args: Record<string, unknown>) => loadTelemetry(coordinateArgs(args), false);
+
+const unitsOf = (format: UnitFormatter) => ({ ...format.symbols, precipitationProbability: '%', humidity: '%' });
+
+type ChatTool = (args: Record<string, unknown>, format: UnitFormatter, locale: Locale) => Promise<Record<string, unknown>>;
+
+const TOOLS: Record<ChatToolName, ChatTool> = {
+  search_locations: async (args, _format, locale) => {
+    const name = typeof args.name === 'string' ? args.name.trim() : '';
+    if (!name) throw new Error('name is required.');
+    const results = await searchLocations(name, SEARCH_RESULT_COUNT, undefined, locale);
+    return {
+      results: results.map((location) => ({
+        label: formatLocationLabel(location),
+        latitude: location.latitude,
+        longitude: location.longitude,
+        population: location.population,
+      })),
+    };
+  },
+
+  get_current_conditions: async (args, format) => {
+    const weather: WeatherSnapshot = await fetchSnapshot(args);
+    const { fromMetric } = format;
+    return {
+      location: weather.city,
+      timezone: weather.timezone,
+      localTime: formatLocalIso(Date.now() / 1000, weather.timezone),
+      units: unitsOf(format),
+      condition: weather.condition,
+      isDay: weather.isDay,
+      temperature: fromMetric.temperature(weather.temp),
+      feelsLike: fromMetric.temperature(weather.feelsLike),
+      humidity: weather.humidity,
+      windSpeed: fromMetric.wind(weather.windSpeed),
+      windGusts: fromMetric.wind(weather.windGusts),
+      pressure: fromMetric.pressure(weather.pressure),
+      precipitation: fromMetric.precipitation(weather.precipitation),
+      uvIndex: weather.uvIndex,
+      airQuality: toBriefingAirQuality(weather.airQuality),
+    };
+  },
+
+  get_hourly_forecast: async (args, format) => {
+    const weather: WeatherSnapshot = await fetchSnapshot(args);
+    const { hourly } = weather;
+    const { fromMetric } = format;
+    return {
+      location: weather.city,
+      timezone: weather.timezone,
+      units: unitsOf(format),
+      hours: hourly.time.map((time, idx) => ({
+        time: formatLocalIso(time, weather.timezone),
+        condition: getWeatherCondition(hourly.weatherCode[idx]),
+        temperature: fromMetric.temperature(hourly.temperature[idx]),
+        precipitationProbability: hourly.precipitationProbability[idx],
+        windSpeed: fromMetric.wind(hourly.windSpeed[idx]),
+        windGusts: fromMetric.wind(hourly.windGusts[idx]),
+      })),
+    };
+  },
+
+  get_daily_forecast: async (args, format) => {
+    const weather: WeatherSnapshot = await fetchSnapshot(args);
+    const { daily } = weather;
+    const { fromMetric } = format;
+    return {
+      location: weather.city,
+      timezone: weather.timezone,
+      units: unitsOf(format),
+      days: daily.time.map((time, idx) => ({
+        date: formatLocalIso(time, weather.timezone).slice(0, 10),
+        condition: getWeatherCondition(daily.weatherCode[idx]),
+        temperatureMax: fromMetric.temperature(daily.temperatureMax[idx]),
+        temperatureMin: fromMetric.temperature(daily.temperatureMin[idx]),
+        precipitationProbabilityMax: daily.precipitationProbabilityMax[idx],
+        windSpeedMax: fromMetric.wind(daily.windSpeedMax[idx]),
+        uvIndexMax: daily.uvIndexMax[idx],
+      })),
+    };
+  },
+};
+
+// Runs one function call; failures are reported back to the model as an error result rather than thrown
+export const runChatTool = async (
+  call: ChatFunctionCall,
+  format: UnitFormatter,
+  locale: Locale
+): Promise<Record<string, unknown>> => {
+  const tool = Object.prototype.hasOwnProperty.call(TOOLS, call.name) ? TOOLS[call.name as ChatToolName] : null;
+  if (!tool) return { error: `Unknown tool "${call.name}".` };
+  try {
+    return await tool(call.args, format, locale);
+  } catch (err) {
+    return { error: (err instanceof Error && err.message) || 'Tool failed.' };
+  }
+};
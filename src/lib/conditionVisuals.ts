@@ -0,0 +1,39 @@
+import type { ConditionFamily } from './weatherCodes.ts';
+
+export interface ConditionVisual {
+  // CSS background for the page-wide glow
+  glow: string;
+  // Tailwind text colour for the hero art
+  accent: string;
+}
+
+const glow = (rgb: string, alpha: number) =>
+  `radial-gradient(circle at 50% 0%, rgba(${rgb}, ${alpha}) 0%, transparent 70%)`;
+
+const DAY: Record<ConditionFamily, ConditionVisual> = {
+  clear: { glow: glow('251, 146, 60', 0.18), accent: 'text-orange-300' },
+  cloudy: { glow: glow('14, 165, 233', 0.15), accent: 'text-sky-200' },
+  overcast: { glow: glow('148, 163, 184', 0.14), accent: 'text-slate-300' },
+  fog: { glow: glow('203, 213, 225', 0.12), accent: 'text-slate-200' },
+  drizzle: { glow: glow('56, 189, 248', 0.14), accent: 'text-sky-300' },
+  rain: { glow: glow('37, 99, 235', 0.18), accent: 'text-blue-300' },
+  freezing: { glow: glow('103, 232, 249', 0.16), accent: 'text-cyan-200' },
+  snow: { glow: glow('226, 232, 240', 0.16), accent: 'text-white' },
+  thunderstorm: { glow: glow('139, 92, 246', 0.2), accent: 'text-violet-300' },
+  unknown: { glow: glow('14, 165, 233', 0.15), accent: 'text-sky-200' },
+};
+
+const NIGHT: Record<ConditionFamily, ConditionVisual> = {
+  clear: { glow: glow('99, 102, 241', 0.14), accent: 'text-indigo-200' },
+  cloudy: { glow: glow('59, 130, 246', 0.1), accent: 'text-slate-300' },
+  overcast: { glow: glow('71, 85, 105', 0.12), accent: 'text-slate-400' },
+  fog: { glow: glow('100, 116, 139', 0.1), accent: 'text-slate-400' },
+  drizzle: { glow: glow('30, 64, 175', 0.12), accent: 'text-sky-400' },
+  rain: { glow: glow('30, 58, 138', 0.16), accent: 'text-blue-400' },
+  freezing: { glow: glow('8, 145, 178', 0.14), accent: 'text-cyan-300' },
+  snow: { glow: glow('148, 163, 184', 0.14), accent: 'text-slate-200' },
+  thunderstorm: { glow: glow('109, 40, 217', 0.18), accent: 'text-violet-400' },
+  unknown: { glow: glow('59, 130, 246', 0.1), accent: 'text-slate-300' },
+};
+
+export const getConditionVisual = (family: ConditionFamily, isDay: boolean) => (isDay ? DAY : NIGHT)[family];
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatCoordinates, parseCoordinates, type Coordinates } from './coordinates.ts';
+
+// DMS converts through fractions of a degree, so compare to a few metres
+const assertCoordinates = (actual: Coordinates | null, latitude: number, longitude: number) => {
+  assert.ok(actual, 'expected coordinates');
+  assert.ok(Math.abs(actual.latitude - latitude) < 1e-4, `latitude ${actual.latitude}`);
+  assert.ok(Math.abs(actual.longitude - longitude) < 1e-4, `longitude ${actual.longitude}`);
+};
+
+describe('parseCoordinates', () => {
+  it('reads decimal pairs with a comma or a space', () => {
+    assert.deepEqual(parseCoordinates('18.5204, 73.8567'), { latitude: 18.5204, longitude: 73.8567 });
+    assert.deepEqual(parseCoordinates('-33.86 151.21'), { latitude: -33.86, longitude: 151.21 });
+    assert.deepEqual(parseCoordinates('  0,-0.1278 '), { latitude: 0, longitude: -0.1278 });
+  });
+
+  it('reads hemisphere letters before or after the number', () => {
+    assert.deepEqual(parseCoordinates('18.52° N, 73.85° E'), { latitude: 18.52, longitude: 73.85 });
+    assert.deepEqual(parseCoordinates('33.86s 151.21e'), { latitude: -33.86, longitude: 151.21 });
+    assert.deepEqual(parseCoordinates('N 51.5 W 0.12'), { latitude: 51.5, longitude: -0.12 });
+  });
+
+  it('reads degrees, minutes and seconds with ASCII or typographic marks', () => {
+    assertCoordinates(parseCoordinates('18°31\'13.4"N 73°51\'24"E'), 18.520389, 73.856667);
+    assertCoordinates(parseCoordinates('18°31′13.4″N, 73°51′24″E'), 18.520389, 73.856667);
+    assertCoordinates(parseCoordinates("40°42'46''N 74°0'22''W"), 40.712778, -74.006111);
+    assertCoordinates(parseCoordinates('-33 52, 151 12'), -33.866667, 151.2);
+  });
+
+  it('reads bare six-number DMS as two halves', () => {
+    assertCoordinates(parseCoordinates('18 31 13 73 51 24'), 18.520278, 73.856667);
+  });
+
+  it('swaps longitude-first input when the hemispheres say so', () => {
+    assert.deepEqual(parseCoordinates('73.8567 E, 18.5204 N'), { latitude: 18.5204, longitude: 73.8567 });
+    assertCoordinates(parseCoordinates('W 74 0 22 N 40 42 46'), 40.712778, -74.006111);
+  });
+
+  it('rejects place names and half-written coordinates', () => {
+    for (const input of ['', '   ', 'Paris', 'Paris, France', '12.5N', '12.5', '18.5, 73.8, 10', '1 2 3', '1 2 3 4 5 6 7 8']) {
+      assert.equal(parseCoordinates(input), null, input);
+    }
+  });
+
+  it('rejects out-of-range values and malformed DMS', () => {
+    for (const input of ['91, 0', '-90.5 10', '45, 180.01', '45 -181', '18 60 0 73 0 0', '18 30 60 73 0 0', '18.5 30 0 73 0 0']) {
+      assert.equal(parseCoordinates(input), null, input);
+    }
+  });
+
+  it('rejects hemispheres on the wrong axis', () => {
+    for (const input of ['18.5 N 73.8 N', '18.5 E 73.8 E', '18.5 N, 73.8 S']) {
+      assert.equal(parseCoordinates(input), null, input);
+    }
+  });
+
+  it('round-trips its own formatted output', () => {
+    const formatted = formatCoordinates({ latitude: -33.8688, longitude: -70.6693 });
+    assert.equal(formatted, '33.8688° S, 70.6693° W');
+    assert.deepEqual(parseCoordinates(formatted), { latitude: -33.8688, longitude: -70.6693 });
+  });
+});
@@ -0,0 +1,86 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const HEMISPHERES = /[NSEW]/;
+
+// Parses one axis, e.g. "-33.86", "18.52° N", "18°31'13.4\"N" or "W 73 51 24"
+const parseAxis = (part: string) => {
+  let hemisphere = '';
+  const body = part
+    .replace(HEMISPHERES, (letter) => {
+      hemisphere = letter;
+      return ' ';
+    })
+    .replace(/[°'"]/g, ' ')
+    .trim();
+
+  if (!body || !/^-?\d+(\.\d+)?(\s+\d+(\.\d+)?){0,2}$/.test(body)) return null;
+
+  const [degrees, minutes = 0, seconds = 0] = body.split(/\s+/).map(Number);
+  if (minutes >= 60 || seconds >= 60) return null;
+  // Fractional degrees cannot be combined with minutes or seconds
+  if (!Number.isInteger(degrees) && (minutes || seconds)) return null;
+
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const negative = degrees < 0 || Object.is(degrees, -0) || hemisphere === 'S' || hemisphere === 'W';
+  return { value: negative ? -magnitude : magnitude, hemisphere };
+};
+
+// Splits free text into its latitude and longitude halves
+const splitAxes = (input: string): [string, string] | null => {
+  if (input.includes(',')) {
+    const parts = input.split(',');
+    return parts.length === 2 ? [parts[0], parts[1]] : null;
+  }
+
+  const letterIndex = input.search(HEMISPHERES);
+  if (letterIndex !== -1) {
+    // Leading letters ("N 18.5 E 73.8") split before the second letter, trailing ones after the first
+    if (input.slice(0, letterIndex).trim() === '') {
+      const second = input.slice(letterIndex + 1).search(HEMISPHERES);
+      if (second === -1) return null;
+      const at = letterIndex + 1 + second;
+      return [input.slice(0, at), input.slice(at)];
+    }
+    return [input.slice(0, letterIndex + 1), input.slice(letterIndex + 1)];
+  }
+
+  // Bare numbers: "lat lon", or DMS halves of equal length ("18 31 13 73 51 24")
+  const tokens = input.trim().split(/\s+/);
+  if (tokens.length % 2 !== 0 || tokens.length > 6) return null;
+  const half = tokens.length / 2;
+  return [tokens.slice(0, half).join(' '), tokens.slice(half).join(' ')];
+};
+
+// Returns coordinates when the input is a lat/lon pair in decimal or DMS notation, otherwise null
+export const parseCoordinates = (input: string): Coordinates | null => {
+  const normalized = input
+    .toUpperCase()
+    .replace(/[′’]/g, "'")
+    .replace(/[″”]|''/g, '"')
+    .trim();
+  if (!normalized) return null;
+
+  const halves = splitAxes(normalized);
+  if (!halves) return null;
+
+  let first = parseAxis(halves[0]);
+  let second = parseAxis(halves[1]);
+  if (!first || !second) return null;
+
+  // Accept longitude-first input when the hemispheres say so
+  if ('EW'.includes(first.hemisphere || '_') && 'NS'.includes(second.hemisphere || '_')) {
+    [first, second] = [second, first];
+  }
+  if ('EW'.includes(first.hemisphere || '_') || 'NS'.includes(second.hemisphere || '_')) return null;
+
+  const latitude = first.value;
+  const longitude = second.value;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+export const formatCoordinates = ({ latitude, longitude }: Coordinates) =>
+  `${Math.abs(latitude).toFixed(4)}° ${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(4)}° ${longitude >= 0 ? 'E' : 'W'}`;
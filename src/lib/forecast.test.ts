@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDaily, parseHourly } from './forecast.ts';
+
+describe('forecast series', () => {
+  it('reads hourly series and marks values that are not numbers as NaN', () => {
+    const hourly = parseHourly({ time: [1792368000, 1792371600], temperature_2m: [24.1, null], is_day: 'yes' });
+    assert.deepEqual(hourly.time, [1792368000, 1792371600]);
+    assert.deepEqual(hourly.temperature, [24.1, NaN]);
+    assert.deepEqual(hourly.isDay, []);
+    assert.deepEqual(hourly.windSpeed, []);
+  });
+
+  it('reads daily series, including sunrise and sunset', () => {
+    const daily = parseDaily({ time: [1792348200], sunrise: [1792370220], sunset: [1792412580], uv_index_max: [7.5] });
+    assert.deepEqual(daily.sunrise, [1792370220]);
+    assert.deepEqual(daily.sunset, [1792412580]);
+    assert.deepEqual(daily.uvIndexMax, [7.5]);
+  });
+
+  it('treats a missing or malformed block as empty series', () => {
+    for (const raw of [undefined, null, 'daily', [1, 2]]) {
+      assert.deepEqual(parseDaily(raw).time, []);
+      assert.deepEqual(parseHourly(raw).temperature, []);
+    }
+  });
+});
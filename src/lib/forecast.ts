@@ -0,0 +1,123 @@
+import type { AirQuality, DailyForecast, DailyHistory, GeoLocation, HourlyForecast, WeatherSnapshot } from '../types.ts';
+import { ensure, isRecord } from './apiClient.ts';
+import { formatLocationLabel } from './locations.ts';
+import { createTranslator, translateCondition } from './i18n.ts';
+
+// The subset of the Open-Meteo forecast we request (see CURRENT_FIELDS in server/weather.ts)
+interface ForecastCurrent {
+  temperature_2m: number;
+  relative_humidity_2m: number;
+  apparent_temperature: number;
+  is_day: number;
+  precipitation: number;
+  weather_code: number;
+  surface_pressure: number;
+  wind_speed_10m: number;
+  wind_gusts_10m: number;
+  uv_index: number;
+}
+
+export interface ForecastResponse {
+  timezone: string;
+  current: ForecastCurrent;
+  // Series are checked for shape here and coerced value by value below
+  hourly: Record<string, unknown>;
+  daily: Record<string, unknown>;
+}
+
+const FORECAST_CURRENT_FIELDS: (keyof ForecastCurrent)[] = [
+  'temperature_2m', 'relative_humidity_2m', 'apparent_temperature', 'is_day', 'precipitation',
+  'weather_code', 'surface_pressure', 'wind_speed_10m', 'wind_gusts_10m', 'uv_index',
+];
+
+export const validateForecast = (body: unknown): ForecastResponse => {
+  ensure(isRecord(body), 'body');
+  ensure(typeof body.timezone === 'string', 'timezone');
+  const { current, hourly, daily } = body;
+  ensure(isRecord(current), 'current');
+  for (const field of FORECAST_CURRENT_FIELDS) ensure(typeof current[field] === 'number', `current.${field}`);
+  ensure(isRecord(hourly) && Array.isArray(hourly.time), 'hourly.time');
+  ensure(isRecord(daily) && Array.isArray(daily.time), 'daily.time');
+  return body as unknown as ForecastResponse;
+};
+
+const numbers = (series: unknown): number[] =>
+  Array.isArray(series) ? series.map((value) => (typeof value === 'number' ? value : NaN)) : [];
+
+// A block of series keyed by Open-Meteo field name; anything but an object reads as empty series
+const seriesBlock = (block: unknown): Record<string, unknown> => (isRecord(block) ? block : {});
+
+export const parseHourly = (raw: unknown): HourlyForecast => {
+  const hourly = seriesBlock(raw);
+  return {
+    time: numbers(hourly.time),
+    temperature: numbers(hourly.temperature_2m),
+    precipitationProbability: numbers(hourly.precipitation_probability),
+    windSpeed: numbers(hourly.wind_speed_10m),
+    windGusts: numbers(hourly.wind_gusts_10m),
+    weatherCode: numbers(hourly.weather_code),
+    isDay: numbers(hourly.is_day),
+  };
+};
+
+export const parseDaily = (raw: unknown): DailyForecast => {
+  const daily = seriesBlock(raw);
+  return {
+    time: numbers(daily.time),
+    weatherCode: numbers(daily.weather_code),
+    temperatureMax: numbers(daily.temperature_2m_max),
+    temperatureMin: numbers(daily.temperature_2m_min),
+    precipitationProbabilityMax: numbers(daily.precipitation_probability_max),
+    windSpeedMax: numbers(daily.wind_speed_10m_max),
+    uvIndexMax: numbers(daily.uv_index_max),
+    sunrise: numbers(daily.sunrise),
+    sunset: numbers(daily.sunset),
+  };
+};
+
+export const parseArchiveDaily = (raw: unknown): DailyHistory => {
+  const daily = seriesBlock(raw);
+  return {
+    time: numbers(daily.time),
+    weatherCode: numbers(daily.weather_code),
+    temperatureMax: numbers(daily.temperature_2m_max),
+    temperatureMin: numbers(daily.temperature_2m_min),
+    temperatureMean: numbers(daily.temperature_2m_mean),
+    precipitationSum: numbers(daily.precipitation_sum),
+    windSpeedMax: numbers(daily.wind_speed_10m_max),
+  };
+};
+
+// Snapshots keep the English condition name; it is translated for display and quoted as-is in prompts
+const englishCondition = (code: number) => translateCondition(code, createTranslator('en'));
+
+// Shapes a validated forecast into the snapshot the app and the scheduled briefings work from
+export const toWeatherSnapshot = (
+  location: GeoLocation,
+  verified: boolean,
+  forecast: ForecastResponse,
+  airQuality: AirQuality | null
+): WeatherSnapshot => {
+  const { current } = forecast;
+  return {
+    city: formatLocationLabel(location),
+    latitude: location.latitude,
+    longitude: location.longitude,
+    verified,
+    temp: current.temperature_2m,
+    feelsLike: current.apparent_temperature,
+    condition: englishCondition(current.weather_code),
+    weatherCode: current.weather_code,
+    humidity: current.relative_humidity_2m,
+    windSpeed: current.wind_speed_10m,
+    windGusts: current.wind_gusts_10m,
+    pressure: current.surface_pressure,
+    uvIndex: current.uv_index,
+    precipitation: current.precipitation,
+    isDay: current.is_day === 1,
+    timezone: forecast.timezone || 'UTC',
+    hourly: parseHourly(forecast.hourly),
+    daily: parseDaily(forecast.daily),
+    airQuality,
+  };
+};
@@ -0,0 +1,91 @@
+import type { DailyForecast, DailyHistory } from '../types.ts';
+import type { UnitFormatter } from './units.ts';
+import { formatLocalIso } from './time.ts';
+
+// Archive dates are local calendar days (YYYY-MM-DD) of the location
+
+// The reanalysis behind the archive starts here
+export const FIRST_ARCHIVE_DATE = '1940-01-01';
+
+export const HISTORY_PRESETS = [
+  { id: 'week', days: 7 },
+  { id: 'month', days: 30 },
+  { id: 'quarter', days: 90 },
+  { id: 'year', days: 365 },
+] as const;
+
+// Past years averaged into the "normal" for a calendar day
+export const NORMAL_YEARS = 10;
+
+export const localDate = (unixSeconds: number, timeZone: string) => formatLocalIso(unixSeconds, timeZone).slice(0, 10);
+
+export const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+
+// Range ending today (in the location's zone) covering `days` days
+export const recentRange = (days: number, timeZone: string) => {
+  const end = localDate(Date.now() / 1000, timeZone);
+  return { start: shiftDate(end, 1 - days), end };
+};
+
+const mean = (values: number[]) => {
+  const known = values.filter(Number.isFinite);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : NaN;
+};
+
+export interface TemperatureAnomaly {
+  kind: 'high' | 'low';
+  // Today's forecast and the past-years mean, both in °C
+  value: number;
+  normal: number;
+}
+
+export interface ClimateComparison {
+  // Years that actually had data for this day
+  years: number;
+  anomalies: TemperatureAnomaly[];
+}
+
+// Today's forecast high and low against the same calendar day in past years
+export const compareWithNormals = (daily: DailyForecast, past: DailyHistory): ClimateComparison | null => {
+  const years = past.temperatureMax.filter(Number.isFinite).length;
+  if (years === 0 || daily.time.length === 0) return null;
+  const anomalies = [
+    { kind: 'high' as const, value: daily.temperatureMax[0], normal: mean(past.temperatureMax) },
+    { kind: 'low' as const, value: daily.temperatureMin[0], normal: mean(past.temperatureMin) },
+  ].filter((anomaly) => Number.isFinite(anomaly.value) && Number.isFinite(anomaly.normal));
+  return anomalies.length > 0 ? { years, anomalies } : null;
+};
+
+// Difference in the user's temperature unit; a plain conversion would add the Fahrenheit offset to a delta
+export const formatTemperatureDelta = (
+  anomaly: TemperatureAnomaly,
+  format: UnitFormatter,
+  number: (value: number) => string = String
+) => {
+  const delta = format.fromMetric.temperature(anomaly.value) - format.fromMetric.temperature(anomaly.normal);
+  return `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${number(Math.abs(delta))}°`;
+};
+
+export interface HistorySummary {
+  warmest: number;
+  coldest: number;
+  meanTemperature: number;
+  totalPrecipitation: number;
+  wetDays: number;
+  maxWind: number;
+}
+
+export const summarizeHistory = (history: DailyHistory): HistorySummary => {
+  const known = (values: number[]) => values.filter(Number.isFinite);
+  const precipitation = known(history.precipitationSum);
+  return {
+    warmest: Math.max(...known(history.temperatureMax)),
+    coldest: Math.min(...known(history.temperatureMin)),
+    meanTemperature: mean(history.temperatureMean),
+    totalPrecipitation: precipitation.reduce((sum, value) => sum + value, 0),
+    // Days with at least 1 mm, the usual climatological threshold
+    wetDays: precipitation.filter((value) => value >= 1).length,
+    maxWind: Math.max(...known(history.windSpeedMax)),
+  };
+};
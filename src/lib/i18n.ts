@@ -0,0 +1,88 @@
+import { en } from '../locales/en.ts';
+import { hi } from '../locales/hi.ts';
+import { ur } from '../locales/ur.ts';
+
+// Locales, message catalogues and locale-aware number formatting, shared by the UI and the backend
+
+export type Locale = 'en' | 'hi' | 'ur';
+
+export type MessageKey = keyof typeof en;
+
+// Every locale translates every key; the compiler enforces it
+export type Catalogue = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+interface LocaleSpec {
+  // Endonym, shown in the language picker
+  label: string;
+  // BCP 47 tag for Intl number and date formatting
+  tag: string;
+  dir: 'ltr' | 'rtl';
+  // English name, used to ask the model for a briefing in this language
+  language: string;
+}
+
+export const LOCALES: Record<Locale, LocaleSpec> = {
+  en: { label: 'English', tag: 'en-GB', dir: 'ltr', language: 'English' },
+  hi: { label: 'हिन्दी', tag: 'hi-IN', dir: 'ltr', language: 'Hindi' },
+  ur: { label: 'اردو', tag: 'ur', dir: 'rtl', language: 'Urdu' },
+};
+
+const CATALOGUES: Record<Locale, Catalogue> = { en, hi, ur };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// First supported language in the browser's preference list, matched on the primary subtag ("hi-IN" → "hi")
+export const detectLocale = (languages: readonly string[]): Locale =>
+  languages.map((language) => language.split('-')[0].toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
+
+// "{name}" placeholders are filled from params; numbers are formatted for the locale
+export const createTranslator = (locale: Locale): Translate => {
+  const catalogue = CATALOGUES[locale];
+  const numbers = new Intl.NumberFormat(LOCALES[locale].tag);
+  return (key, params) =>
+    (catalogue[key] ?? en[key]).replace(/\{(\w+)\}/g, (placeholder, name) => {
+      const value = params?.[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+};
+
+export interface I18n {
+  locale: Locale;
+  tag: string;
+  dir: 'ltr' | 'rtl';
+  t: Translate;
+  // Plain numbers and percentages in the locale's digits and separators
+  number: (value: number, digits?: number) => string;
+  percent: (value: number) => string;
+}
+
+export const createI18n = (locale: Locale): I18n => {
+  const { tag, dir } = LOCALES[locale];
+  const percent = new Intl.NumberFormat(tag, { style: 'percent', maximumFractionDigits: 0 });
+  return {
+    locale,
+    tag,
+    dir,
+    t: createTranslator(locale),
+    number: (value, digits = 0) =>
+      Number.isFinite(value)
+        ? new Intl.NumberFormat(tag, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value)
+        : '—',
+    // Takes a 0-100 value, as the APIs report humidity and precipitation chance
+    percent: (value) => (Number.isFinite(value) ? percent.format(value / 100) : '—'),
+  };
+};
+
+// Condition names are stored in English (they also go into prompts) and translated for display
+export const translateCondition = (code: number, t: Translate) => {
+  const key = `condition.${code}`;
+  return Object.prototype.hasOwnProperty.call(en, key) ? t(key as MessageKey) : t('condition.unknown', { code: String(code) });
+};
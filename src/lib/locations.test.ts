@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGeoResults } from './locations.ts';
+
+describe('parseGeoResults', () => {
+  it('reads geocoding results, keeping only string place fields', () => {
+    const [pune] = parseGeoResults({
+      results: [{ id: 1259229, name: 'Pune', latitude: 18.5196, longitude: 73.8554, admin1: 'Maharashtra', country: 7, country_code: 'IN', population: 3124458 }],
+    });
+    assert.deepEqual(pune, {
+      id: 1259229, name: 'Pune', latitude: 18.5196, longitude: 73.8554,
+      admin1: 'Maharashtra', country: undefined, countryCode: 'IN', population: 3124458,
+    });
+  });
+
+  it('drops results without numeric coordinates', () => {
+    const results = parseGeoResults({ results: [null, 'Pune', { name: 'Pune', latitude: '18.5', longitude: 73.8 }, { latitude: 0, longitude: 0 }] });
+    assert.deepEqual(results.map(({ name, latitude }) => [name, latitude]), [['', 0]]);
+  });
+
+  it('reads anything but a results array as no results', () => {
+    for (const raw of [undefined, null, [], { results: 'Pune' }]) assert.deepEqual(parseGeoResults(raw), []);
+  });
+});
@@ -0,0 +1,30 @@
+import type { GeoLocation } from '../types.ts';
+import { isRecord } from './apiClient.ts';
+
+// Non-empty strings only; anything else is left out of the location
+const text = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+export const parseGeoResults = (data: unknown): GeoLocation[] =>
+  (isRecord(data) && Array.isArray(data.results) ? data.results : []).flatMap((result: unknown): GeoLocation[] => {
+    if (!isRecord(result) || typeof result.latitude !== 'number' || typeof result.longitude !== 'number') return [];
+    const { id, name, latitude, longitude, admin1, country, country_code: countryCode, population } = result;
+    return [{
+      id: typeof id === 'number' ? id : undefined,
+      name: text(name) ?? '',
+      latitude,
+      longitude,
+      admin1: text(admin1),
+      country: text(country),
+      countryCode: text(countryCode),
+      population: typeof population === 'number' ? population : undefined,
+    }];
+  });
+
+// "Springfield, Illinois, United States"; repeated parts (city-states, regions named after their capital) are dropped
+export const formatLocationLabel = (location: GeoLocation) =>
+  [location.name, location.admin1, location.country]
+    .filter((part, idx, parts): part is string => !!part && parts.indexOf(part) === idx)
+    .join(', ');
+
+export const formatPopulation = (population: number, locale?: string) =>
+  new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(population);
@@ -0,0 +1,100 @@
+import type { GeoLocation, WeatherSnapshot } from '../types.ts';
+import type { AiBriefing } from './briefing.ts';
+import { ApiError } from './apiClient.ts';
+
+// Last-known telemetry per location, kept in IndexedDB so the app can render something when offline
+
+const DB_NAME = 'amarsipahi';
+// Bumped whenever the record shape changes; see onupgradeneeded
+const DB_VERSION = 2;
+const STORE = 'telemetry';
+
+export interface StoredTelemetry {
+  // Saved-location id of the place (see savedLocationId)
+  id: string;
+  location: GeoLocation;
+  verified: boolean;
+  weather: WeatherSnapshot;
+  // Absent until a briefing has been fetched for the place; the dashboard, which does not request them, keeps it
+  aiAnalysis?: AiBriefing;
+  // Epoch milliseconds when the telemetry was fetched
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // The store is only a cache of telemetry the app can fetch again, so records written by an older
+      // version are dropped rather than migrated
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('savedAt', 'savedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open should be retried on the next call rather than cached forever
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const rememberTelemetry = async (record: StoredTelemetry) => {
+  try {
+    await run('readwrite', (store) => store.put(record));
+  } catch (err) {
+    console.warn('Could not persist telemetry for offline use:', err);
+  }
+};
+
+export const recallTelemetry = async (id: string) => {
+  try {
+    return (await run<StoredTelemetry | undefined>('readonly', (store) => store.get(id))) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Fresh telemetry from a view that does not request briefings: the briefing already stored for the place is kept
+export const refreshTelemetry = async (record: Omit<StoredTelemetry, 'aiAnalysis'>) => {
+  const previous = await recallTelemetry(record.id);
+  await rememberTelemetry({ ...record, aiAnalysis: previous?.aiAnalysis });
+};
+
+// The most recently fetched location, used when the app starts without a connection
+export const recallLatestTelemetry = async () => {
+  try {
+    const db = await openDb();
+    return await new Promise<StoredTelemetry | null>((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).index('savedAt').openCursor(null, 'prev');
+      request.onsuccess = () => resolve(request.result ? (request.result.value as StoredTelemetry) : null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch {
+    return null;
+  }
+};
+
+// Requests that never reached the network, as classified by the API client
+export const isOfflineError = (err: unknown) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) || (err instanceof ApiError && err.kind === 'network');
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePartialJson } from './partialJson.ts';
+
+describe('parsePartialJson', () => {
+  it('parses a complete document as is', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "risks": ["Floods"], "confidence": 0.8}'), {
+      summary: 'Rain.', risks: ['Floods'], confidence: 0.8,
+    });
+  });
+
+  it('closes an open string, array and object', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "Light rain'), { summary: 'Light rain' });
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "risks": ["Flo'), { summary: 'Rain.', risks: ['Flo'] });
+  });
+
+  it('drops a dangling key, with or without its colon', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "risks"'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "risks": '), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "ri'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"summ'), {});
+  });
+
+  it('drops a trailing comma', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.",'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"risks": ["Floods", '), { risks: ['Floods'] });
+  });
+
+  it('drops a half-written number or literal and keeps complete ones', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "confidence": 0.'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "confidence": -'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"summary": "Rain.", "final": tr'), { summary: 'Rain.' });
+    assert.deepEqual(parsePartialJson('{"values": [1, nu'), { values: [1] });
+    assert.deepEqual(parsePartialJson('{"final": true, "confidence": 0.8'), { final: true, confidence: 0.8 });
+  });
+
+  it('keeps escaped quotes and drops a backslash cut before what it escapes', () => {
+    assert.deepEqual(parsePartialJson('{"summary": "A \\"yellow\\" warn'), { summary: 'A "yellow" warn' });
+    assert.deepEqual(parsePartialJson('{"summary": "A \\"yellow\\'), { summary: 'A "yellow' });
+    assert.deepEqual(parsePartialJson('{"summary": "C:\\\\'), { summary: 'C:\\' });
+  });
+
+  it('returns undefined when nothing usable has arrived', () => {
+    assert.equal(parsePartialJson(''), undefined);
+    assert.equal(parsePartialJson('Here is'), undefined);
+  });
+});
@@ -0,0 +1,46 @@
+// Literals and numbers that can end a document; "tr", "-" or "0." are still being written
+const COMPLETE_LITERAL = /^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/;
+
+// Best-effort parse of a JSON document that is still being streamed: open strings, arrays and
+// objects are closed and a dangling key or separator is dropped. Returns undefined when nothing usable is there yet.
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+
+  let repaired = text;
+  // A backslash cut off before the character it escapes is dropped with it
+  if (inString) repaired = `${escaped ? repaired.slice(0, -1) : repaired}"`;
+  const inObject = stack[stack.length - 1] === '}';
+  // Drop whatever cannot stand on its own at the end, until nothing changes: separators, a key without its value
+  // (with or without the colon), half-written literals and numbers
+  for (let previous = ''; previous !== repaired;) {
+    previous = repaired;
+    repaired = repaired
+      .replace(/\s+$/, '')
+      .replace(/,$/, '')
+      .replace(/"(?:[^"\\]|\\.)*"\s*:$/, '')
+      .replace(/[a-z\d.+-]+$/i, (token) => (COMPLETE_LITERAL.test(token) ? token : ''));
+    if (inObject) repaired = repaired.replace(/([{,]\s*)"(?:[^"\\]|\\.)*"$/, '$1');
+  }
+  repaired += stack.reverse().join('');
+
+  try {
+    return JSON.parse(repaired);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { REPORT_SCHEMA, REPORT_SCHEMA_VERSION, REPORT_UNITS, reportToCsv, type WeatherReport } from './report.ts';
+
+const REPORT: WeatherReport = {
+  schema: REPORT_SCHEMA,
+  schemaVersion: REPORT_SCHEMA_VERSION,
+  generatedAt: '2026-10-19T06:00:00.000Z',
+  location: { name: '=HYPERLINK("http://example.com","Pune")', latitude: 18.5196, longitude: -73.8554, verified: false, timezone: 'Asia/Kolkata' },
+  units: REPORT_UNITS,
+  current: {
+    weatherCode: 61, condition: 'Slight rain', temperature: -2.5, feelsLike: null, humidity: 81, windSpeed: 12.4,
+    windGusts: 20, pressure: 1008, uvIndex: 3.2, precipitation: 0.2, isDay: true,
+  },
+  briefing: { summary: 'Light rain, clearing later.', risks: ['+cmd|calc', '@SUM(A1)', '-5 visibility'], recommendations: [], confidence: null, source: 'fallback' },
+  airQuality: null,
+  hourly: [],
+  daily: [],
+};
+
+const row = (csv: string, field: string) => csv.split('\r\n').filter((line) => line.split(',')[2] === field);
+
+describe('reportToCsv', () => {
+  it('defuses text a spreadsheet would run as a formula', () => {
+    const csv = reportToCsv(REPORT);
+    assert.deepEqual(row(csv, 'name'), ['location,,name,"\'=HYPERLINK(""http://example.com"",""Pune"")",']);
+    assert.deepEqual(row(csv, 'risk'), ["briefing,,risk,'+cmd|calc,", "briefing,,risk,'@SUM(A1),", "briefing,,risk,'-5 visibility,"]);
+  });
+
+  it('keeps negative numbers numeric', () => {
+    const csv = reportToCsv(REPORT);
+    assert.deepEqual(row(csv, 'longitude'), ['location,,longitude,-73.8554,']);
+    assert.deepEqual(row(csv, 'temperature'), ['current,,temperature,-2.5,°C']);
+  });
+});
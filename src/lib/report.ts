@@ -0,0 +1,398 @@
+import type { PollenType, WeatherData } from '../types.ts';
+import { formatCoordinates } from './coordinates.ts';
+import { createTranslator, translateCondition, type I18n } from './i18n.ts';
+import { formatHour, formatLocalIso, formatWeekday, formatDayOfMonth } from './time.ts';
+import type { UnitFormatter } from './units.ts';
+import { AQI_SCALES, getAqiCategory, getPollenLevel, POLLEN_TYPES, type AqiScale } from './airQuality.ts';
+import { slugify } from './routes.ts';
+
+// Exported weather reports. JSON and CSV follow the versioned schema below and always carry metric values,
+// whatever units the user picked; Markdown and print are for people and follow the user's units and language.
+// Bump REPORT_SCHEMA_VERSION when a field is renamed, removed or changes meaning. New fields do not bump it.
+
+export const REPORT_SCHEMA = 'amarsipahi.weather-report';
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportFormat = 'markdown' | 'csv' | 'json';
+
+export const REPORT_FORMATS: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+};
+
+export const REPORT_UNITS = {
+  temperature: '°C',
+  windSpeed: 'km/h',
+  pressure: 'hPa',
+  precipitation: 'mm',
+  humidity: '%',
+  precipitationProbability: '%',
+  concentration: 'µg/m³',
+  pollen: 'grains/m³',
+} as const;
+
+// Hours shown in the Markdown and print tables, as in the hourly strip
+const HOURS_SHOWN = 48;
+
+// Values the models did not produce are null, never NaN
+type Reading = number | null;
+
+export interface ReportCurrent {
+  weatherCode: number;
+  // English WMO name
+  condition: string;
+  temperature: Reading;
+  feelsLike: Reading;
+  humidity: Reading;
+  windSpeed: Reading;
+  windGusts: Reading;
+  pressure: Reading;
+  uvIndex: Reading;
+  precipitation: Reading;
+  isDay: boolean;
+}
+
+export interface ReportBriefing {
+  summary: string;
+  risks: string[];
+  recommendations: string[];
+  // 0 to 1; null for the standard briefing
+  confidence: Reading;
+  source: 'gemini' | 'fallback';
+}
+
+export interface ReportAirQuality {
+  europeanAqi: Reading;
+  usAqi: Reading;
+  pm25: Reading;
+  pm10: Reading;
+  ozone: Reading;
+  nitrogenDioxide: Reading;
+  pollen: Record<PollenType, Reading>;
+}
+
+export interface ReportHour {
+  // Local wall-clock time at the location, "2026-10-19T14:00"
+  time: string;
+  weatherCode: Reading;
+  temperature: Reading;
+  precipitationProbability: Reading;
+  windSpeed: Reading;
+  windGusts: Reading;
+  isDay: boolean;
+}
+
+export interface ReportDay {
+  // Local calendar date at the location, "2026-10-19"
+  date: string;
+  weatherCode: Reading;
+  condition: string;
+  temperatureMax: Reading;
+  temperatureMin: Reading;
+  precipitationProbabilityMax: Reading;
+  windSpeedMax: Reading;
+  uvIndexMax: Reading;
+}
+
+export interface WeatherReport {
+  schema: typeof REPORT_SCHEMA;
+  schemaVersion: typeof REPORT_SCHEMA_VERSION;
+  // UTC instant the report was generated, ISO 8601
+  generatedAt: string;
+  location: {
+    name: string;
+    latitude: number;
+    longitude: number;
+    // True only when the place came from an unambiguous geocoding result
+    verified: boolean;
+    // IANA zone every local time in the report is expressed in
+    timezone: string;
+  };
+  units: typeof REPORT_UNITS;
+  current: ReportCurrent;
+  // Null when no briefing was available (e.g. offline)
+  briefing: ReportBriefing | null;
+  // Null when the air-quality service had no data for the location
+  airQuality: ReportAirQuality | null;
+  // The whole loaded forecast, oldest first
+  hourly: ReportHour[];
+  daily: ReportDay[];
+}
+
+const finite = (value: number): Reading => (Number.isFinite(value) ? value : null);
+
+const english = createTranslator('en');
+
+export const buildWeatherReport = (weather: WeatherData, generatedAt = Date.now()): WeatherReport => {
+  const { hourly, daily, airQuality, aiAnalysis, timezone } = weather;
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date(generatedAt).toISOString(),
+    location: {
+      name: weather.city,
+      latitude: weather.latitude,
+      longitude: weather.longitude,
+      verified: weather.verified,
+      timezone,
+    },
+    units: REPORT_UNITS,
+    current: {
+      weatherCode: weather.weatherCode,
+      condition: weather.condition,
+      temperature: finite(weather.temp),
+      feelsLike: finite(weather.feelsLike),
+      humidity: finite(weather.humidity),
+      windSpeed: finite(weather.windSpeed),
+      windGusts: finite(weather.windGusts),
+      pressure: finite(weather.pressure),
+      uvIndex: finite(weather.uvIndex),
+      precipitation: finite(weather.precipitation),
+      isDay: weather.isDay,
+    },
+    briefing: aiAnalysis && {
+      summary: aiAnalysis.summary,
+      risks: aiAnalysis.risks,
+      recommendations: aiAnalysis.recommendations,
+      confidence: aiAnalysis.confidence ?? null,
+      source: aiAnalysis.source,
+    },
+    airQuality: airQuality && {
+      europeanAqi: finite(airQuality.europeanAqi),
+      usAqi: finite(airQuality.usAqi),
+      pm25: finite(airQuality.pm25),
+      pm10: finite(airQuality.pm10),
+      ozone: finite(airQuality.ozone),
+      nitrogenDioxide: finite(airQuality.nitrogenDioxide),
+      pollen: Object.fromEntries(
+        (Object.keys(POLLEN_TYPES) as PollenType[]).map((type) => [type, finite(airQuality.pollen[type])])
+      ) as Record<PollenType, Reading>,
+    },
+    hourly: hourly.time.map((time, idx) => ({
+      time: formatLocalIso(time, timezone),
+      weatherCode: finite(hourly.weatherCode[idx]),
+      temperature: finite(hourly.temperature[idx]),
+      precipitationProbability: finite(hourly.precipitationProbability[idx]),
+      windSpeed: finite(hourly.windSpeed[idx]),
+      windGusts: finite(hourly.windGusts[idx]),
+      isDay: hourly.isDay[idx] !== 0,
+    })),
+    daily: daily.time.map((time, idx) => ({
+      date: formatLocalIso(time, timezone).slice(0, 10),
+      weatherCode: finite(daily.weatherCode[idx]),
+      condition: translateCondition(daily.weatherCode[idx], english),
+      temperatureMax: finite(daily.temperatureMax[idx]),
+      temperatureMin: finite(daily.temperatureMin[idx]),
+      precipitationProbabilityMax: finite(daily.precipitationProbabilityMax[idx]),
+      windSpeedMax: finite(daily.windSpeedMax[idx]),
+      uvIndexMax: finite(daily.uvIndexMax[idx]),
+    })),
+  };
+};
+
+export const reportToJson = (report: WeatherReport) => `${JSON.stringify(report, null, 2)}\n`;
+
+// RFC 4180 quoting: fields holding a comma, quote or line break are wrapped and their quotes doubled.
+// Text that a spreadsheet would run as a formula (place names, model output) gets a leading apostrophe;
+// numbers are left alone so negative readings stay numeric.
+const csvField = (value: string | number | boolean | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const CSV_COLUMNS = ['section', 'time', 'field', 'value', 'unit'] as const;
+
+const HOURLY_UNITS: Partial<Record<keyof ReportHour, string>> = {
+  temperature: REPORT_UNITS.temperature,
+  precipitationProbability: REPORT_UNITS.precipitationProbability,
+  windSpeed: REPORT_UNITS.windSpeed,
+  windGusts: REPORT_UNITS.windSpeed,
+};
+
+const DAILY_UNITS: Partial<Record<keyof ReportDay, string>> = {
+  temperatureMax: REPORT_UNITS.temperature,
+  temperatureMin: REPORT_UNITS.temperature,
+  precipitationProbabilityMax: REPORT_UNITS.precipitationProbability,
+  windSpeedMax: REPORT_UNITS.windSpeed,
+};
+
+const CURRENT_UNITS: Partial<Record<keyof ReportCurrent, string>> = {
+  temperature: REPORT_UNITS.temperature,
+  feelsLike: REPORT_UNITS.temperature,
+  humidity: REPORT_UNITS.humidity,
+  windSpeed: REPORT_UNITS.windSpeed,
+  windGusts: REPORT_UNITS.windSpeed,
+  pressure: REPORT_UNITS.pressure,
+  precipitation: REPORT_UNITS.precipitation,
+};
+
+// One long table of section,time,field,value,unit rows, so every part of the report fits a single file.
+// Lists (risks, recommendations) repeat their field once per item, in order.
+export const reportToCsv = (report: WeatherReport) => {
+  type Row = [string, string, string, string | number | boolean | null, string];
+  const rows: Row[] = [
+    ['meta', '', 'schema', report.schema, ''],
+    ['meta', '', 'schemaVersion', report.schemaVersion, ''],
+    ['meta', '', 'generatedAt', report.generatedAt, ''],
+    ...Object.entries(report.location).map(([field, value]): Row => ['location', '', field, value, '']),
+    ...Object.entries(report.current).map(([field, value]): Row =>
+      ['current', '', field, value, CURRENT_UNITS[field as keyof ReportCurrent] ?? '']),
+  ];
+
+  if (report.briefing) {
+    const { summary, risks, recommendations, confidence, source } = report.briefing;
+    rows.push(
+      ['briefing', '', 'summary', summary, ''],
+      ...risks.map((risk): Row => ['briefing', '', 'risk', risk, '']),
+      ...recommendations.map((recommendation): Row => ['briefing', '', 'recommendation', recommendation, '']),
+      ['briefing', '', 'confidence', confidence, ''],
+      ['briefing', '', 'source', source, ''],
+    );
+  }
+
+  if (report.airQuality) {
+    const { pollen, ...readings } = report.airQuality;
+    rows.push(
+      ...Object.entries(readings).map(([field, value]): Row =>
+        ['airQuality', '', field, value, field.endsWith('Aqi') ? '' : REPORT_UNITS.concentration]),
+      ...Object.entries(pollen).map(([type, value]): Row => ['airQuality', '', `pollen.${type}`, value, REPORT_UNITS.pollen]),
+    );
+  }
+
+  for (const { time, ...values } of report.hourly) {
+    rows.push(...Object.entries(values).map(([field, value]): Row =>
+      ['hourly', time, field, value, HOURLY_UNITS[field as keyof ReportHour] ?? '']));
+  }
+  for (const { date, ...values } of report.daily) {
+    rows.push(...Object.entries(values).map(([field, value]): Row =>
+      ['daily', date, field, value, DAILY_UNITS[field as keyof ReportDay] ?? '']));
+  }
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Hours from the one in progress onwards, as the hourly strip shows them
+export const upcomingHours = (weather: WeatherData, count = HOURS_SHOWN, now = Date.now()) => {
+  const { hourly } = weather;
+  const firstIndex = Math.max(hourly.time.findIndex((time) => time + 3600 > now / 1000), 0);
+  return hourly.time.slice(firstIndex, firstIndex + count).map((_, offset) => firstIndex + offset);
+};
+
+// Forecast gaps (NaN) print as a dash rather than "NaN°C"
+export const formatReading = (value: number, show: (value: number) => string) => (Number.isFinite(value) ? show(value) : '—');
+
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const table = (header: string[], rows: string[][]) =>
+  [header, header.map(() => '---'), ...rows].map((row) => `| ${row.map(cell).join(' | ')} |`).join('\n');
+
+// A readable report in the user's units and language. The front matter carries the schema version,
+// so scripts can tell which layout they are reading; the body is not meant for parsing.
+export const reportToMarkdown = (weather: WeatherData, format: UnitFormatter, i18n: I18n, generatedAt = Date.now()) => {
+  const { t, tag } = i18n;
+  const { timezone, hourly, daily, airQuality, aiAnalysis } = weather;
+  const generated = new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeStyle: 'short' }).format(generatedAt);
+
+  const sections = [
+    [
+      '---',
+      `schema: ${REPORT_SCHEMA}`,
+      `schemaVersion: ${REPORT_SCHEMA_VERSION}`,
+      `generatedAt: ${new Date(generatedAt).toISOString()}`,
+      `latitude: ${weather.latitude}`,
+      `longitude: ${weather.longitude}`,
+      `timezone: ${timezone}`,
+      '---',
+    ].join('\n'),
+    `# ${t('export.title', { city: weather.city })}`,
+    `${t('export.generated', { time: generated })} · ${formatCoordinates(weather)} · ${timezone}`,
+    `## ${t('export.current')}`,
+    table([t('export.metric'), t('export.value')], [
+      [t('export.condition'), translateCondition(weather.weatherCode, t)],
+      [t('alertMetric.temperature'), format.temperature(weather.temp)],
+      [t('weather.feelsLike'), format.temperature(weather.feelsLike)],
+      [t('weather.humidity'), i18n.percent(weather.humidity)],
+      [t('weather.wind'), format.wind(weather.windSpeed)],
+      [t('alertMetric.windGusts'), format.wind(weather.windGusts)],
+      [t('weather.pressure'), format.pressure(weather.pressure)],
+      [t('weather.uvIndex'), i18n.number(weather.uvIndex, 1)],
+      [t('weather.precipitation'), format.precipitation(weather.precipitation)],
+    ]),
+    `## ${t('briefing.title')}`,
+  ];
+
+  if (aiAnalysis?.summary) {
+    sections.push(aiAnalysis.summary);
+    if (aiAnalysis.risks.length > 0) {
+      sections.push(`### ${t('briefing.risks')}`, aiAnalysis.risks.map((risk) => `- ${risk}`).join('\n'));
+    }
+    if (aiAnalysis.recommendations.length > 0) {
+      sections.push(
+        `### ${t('briefing.recommendations')}`,
+        aiAnalysis.recommendations.map((recommendation) => `- ${recommendation}`).join('\n'),
+      );
+    }
+    sections.push(aiAnalysis.source === 'fallback'
+      ? `_${t('briefing.standard')}_`
+      : `_${t('briefing.confidence')}: ${aiAnalysis.confidence === undefined ? '—' : i18n.percent(aiAnalysis.confidence * 100)}_`);
+  } else {
+    sections.push(`_${t('export.noBriefing')}_`);
+  }
+
+  if (airQuality) {
+    const rows = (Object.keys(AQI_SCALES) as AqiScale[]).map((scale) => {
+      const value = scale === 'european' ? airQuality.europeanAqi : airQuality.usAqi;
+      const category = getAqiCategory(scale, value);
+      return [t(`air.scale.${scale}`), `${i18n.number(value)}${category ? ` · ${t(`aqi.${category.id}`)}` : ''}`];
+    });
+    rows.push(
+      ['PM2.5', `${i18n.number(airQuality.pm25)} µg/m³`],
+      ['PM10', `${i18n.number(airQuality.pm10)} µg/m³`],
+      ['O₃', `${i18n.number(airQuality.ozone)} µg/m³`],
+      ['NO₂', `${i18n.number(airQuality.nitrogenDioxide)} µg/m³`],
+      ...(Object.keys(POLLEN_TYPES) as PollenType[])
+        .filter((type) => Number.isFinite(airQuality.pollen[type]))
+        .map((type) => [
+          `${t('air.pollen')} · ${t(`pollen.${type}`)}`,
+          t(`pollenLevel.${getPollenLevel(airQuality.pollen[type])}`),
+        ]),
+    );
+    sections.push(`## ${t('air.title')}`, table([t('export.metric'), t('export.value')], rows));
+  }
+
+  sections.push(
+    `## ${t('daily.title')}`,
+    table(
+      [t('export.date'), t('export.condition'), t('export.low'), t('export.high'), t('alertMetric.precipitationProbability'), t('weather.wind'), t('weather.uvIndex')],
+      daily.time.map((time, idx) => [
+        `${formatWeekday(time, timezone, tag)} ${formatDayOfMonth(time, timezone, tag)}`,
+        translateCondition(daily.weatherCode[idx], t),
+        formatReading(daily.temperatureMin[idx], format.temperature),
+        formatReading(daily.temperatureMax[idx], format.temperature),
+        i18n.percent(daily.precipitationProbabilityMax[idx]),
+        formatReading(daily.windSpeedMax[idx], format.wind),
+        i18n.number(daily.uvIndexMax[idx]),
+      ]),
+    ),
+    `## ${t('hourly.title')}`,
+    table(
+      [t('export.time'), t('export.condition'), t('alertMetric.temperature'), t('alertMetric.precipitationProbability'), t('weather.wind'), t('alertMetric.windGusts')],
+      upcomingHours(weather).map((idx) => [
+        `${formatWeekday(hourly.time[idx], timezone, tag)} ${formatHour(hourly.time[idx], timezone, tag)}`,
+        translateCondition(hourly.weatherCode[idx], t),
+        formatReading(hourly.temperature[idx], format.temperature),
+        i18n.percent(hourly.precipitationProbability[idx]),
+        formatReading(hourly.windSpeed[idx], format.wind),
+        formatReading(hourly.windGusts[idx], format.wind),
+      ]),
+    ),
+  );
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+// "amarsipahi-pune-2026-10-19.csv", dated in the location's zone
+export const reportFileName = (weather: WeatherData, reportFormat: ReportFormat, generatedAt = Date.now()) =>
+  `amarsipahi-${slugify(weather.city)}-${formatLocalIso(generatedAt / 1000, weather.timezone).slice(0, 10)}.${REPORT_FORMATS[reportFormat].extension}`;
@@ -0,0 +1,102 @@
+import type { GeoLocation } from '../types.ts';
+import {
+  DEFAULT_UNITS, IMPERIAL_UNITS, PRECIPITATION_UNITS, PRESSURE_UNITS, TEMPERATURE_UNITS, WIND_UNITS,
+  normalizeUnitPreferences, type UnitPreferences,
+} from './units.ts';
+import { searchLocations } from './weatherApi.ts';
+import { isAbortError } from './apiClient.ts';
+import type { Locale } from './i18n.ts';
+
+// Shareable weather URLs: /w/:slug?lat=&lon=&units=
+// The coordinates are authoritative; the slug is the place name, used to recover its full geocoding entry.
+
+export interface WeatherRoute {
+  slug: string;
+  latitude: number;
+  longitude: number;
+  // Absent when the link does not pin units
+  units?: UnitPreferences;
+}
+
+const ROUTE_PATTERN = /^\/w\/([^/]+)\/?$/;
+
+export const slugify = (name: string) =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '') || 'location';
+
+// "san-jose" → "San Jose", for links whose place cannot be looked up again
+export const unslugify = (slug: string) =>
+  slug.split('-').filter(Boolean).map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const sameUnits = (a: UnitPreferences, b: UnitPreferences) =>
+  a.temperature === b.temperature && a.wind === b.wind && a.pressure === b.pressure && a.precipitation === b.precipitation;
+
+// "metric" and "imperial" for the presets, otherwise "celsius,mph,hPa,mm"
+const encodeUnits = (units: UnitPreferences) =>
+  sameUnits(units, DEFAULT_UNITS) ? 'metric'
+    : sameUnits(units, IMPERIAL_UNITS) ? 'imperial'
+      : [units.temperature, units.wind, units.pressure, units.precipitation].join(',');
+
+const decodeUnits = (value: string | null): UnitPreferences | undefined => {
+  if (!value) return undefined;
+  if (value === 'metric') return DEFAULT_UNITS;
+  if (value === 'imperial') return IMPERIAL_UNITS;
+  const [temperature, wind, pressure, precipitation] = value.split(',');
+  const known = temperature in TEMPERATURE_UNITS && wind in WIND_UNITS && pressure in PRESSURE_UNITS &&
+    precipitation in PRECIPITATION_UNITS;
+  return known ? normalizeUnitPreferences({ temperature, wind, pressure, precipitation }) : undefined;
+};
+
+export const buildWeatherPath = (location: GeoLocation, units: UnitPreferences) => {
+  const params = new URLSearchParams({
+    lat: location.latitude.toFixed(4),
+    lon: location.longitude.toFixed(4),
+    units: encodeUnits(units),
+  });
+  return `/w/${encodeURIComponent(slugify(location.name))}?${params}`;
+};
+
+// Returns null for any URL that is not a complete weather route
+export const parseWeatherRoute = (pathname: string, search: string): WeatherRoute | null => {
+  const match = ROUTE_PATTERN.exec(pathname);
+  if (!match) return null;
+  const params = new URLSearchParams(search);
+  const latitude = Number(params.get('lat'));
+  const longitude = Number(params.get('lon'));
+  if (!params.get('lat') || !params.get('lon') || !(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) return null;
+  let slug: string;
+  try {
+    slug = decodeURIComponent(match[1]);
+  } catch {
+    slug = match[1];
+  }
+  return { slug, latitude, longitude, units: decodeUnits(params.get('units')) };
+};
+
+// How far (in degrees) a geocoding hit may sit from the linked coordinates and still count as the same place
+const ROUTE_MATCH_TOLERANCE = 0.01;
+
+// Looks the slug up again so a shared link shows the same verified place; otherwise falls back to bare coordinates
+export const resolveRouteLocation = async (
+  route: WeatherRoute,
+  language: Locale,
+  signal?: AbortSignal
+): Promise<{ location: GeoLocation; verified: boolean }> => {
+  const name = unslugify(route.slug);
+  const fallback = { location: { name, latitude: route.latitude, longitude: route.longitude }, verified: false };
+  try {
+    const results = await searchLocations(name, 10, signal, language);
+    const match = results.find((result) =>
+      Math.abs(result.latitude - route.latitude) <= ROUTE_MATCH_TOLERANCE &&
+      Math.abs(result.longitude - route.longitude) <= ROUTE_MATCH_TOLERANCE
+    );
+    return match ? { location: match, verified: true } : fallback;
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return fallback;
+  }
+};
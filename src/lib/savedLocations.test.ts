@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSavedLocation, parseSavedLocations } from './savedLocations.ts';
+
+const PUNE = createSavedLocation({ name: 'Pune', latitude: 18.5196, longitude: 73.8554, country: 'India' }, true);
+
+describe('parseSavedLocations', () => {
+  it('keeps well-formed entries and reads a missing verified flag as false', () => {
+    const { verified, ...unverified } = PUNE;
+    assert.equal(verified, true);
+    assert.deepEqual(parseSavedLocations([PUNE, unverified]), [PUNE, { ...unverified, verified: false }]);
+  });
+
+  it('drops malformed entries', () => {
+    const malformed = [
+      null,
+      'Pune',
+      { ...PUNE, id: 7 },
+      { ...PUNE, location: null },
+      { ...PUNE, location: { ...PUNE.location, latitude: '18.5' } },
+    ];
+    assert.deepEqual(parseSavedLocations([...malformed, PUNE]), [PUNE]);
+    assert.deepEqual(parseSavedLocations({ locations: [PUNE] }), []);
+  });
+});
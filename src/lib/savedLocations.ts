@@ -0,0 +1,35 @@
+import type { GeoLocation, SavedLocation } from '../types.ts';
+import { formatLocationLabel } from './locations.ts';
+import { isRecord } from './apiClient.ts';
+
+// Two picks of the same point (to ~10 m) are the same favourite
+export const savedLocationId = ({ latitude, longitude }: GeoLocation) =>
+  `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+
+export const createSavedLocation = (location: GeoLocation, verified: boolean): SavedLocation => ({
+  id: savedLocationId(location),
+  label: formatLocationLabel(location),
+  location,
+  verified,
+});
+
+const isSavedLocation = (entry: unknown): entry is SavedLocation =>
+  isRecord(entry) &&
+  typeof entry.id === 'string' &&
+  typeof entry.label === 'string' &&
+  isRecord(entry.location) &&
+  typeof entry.location.name === 'string' &&
+  typeof entry.location.latitude === 'number' &&
+  typeof entry.location.longitude === 'number';
+
+// Drops malformed entries from storage or the sync backend
+export const parseSavedLocations = (raw: unknown): SavedLocation[] =>
+  (Array.isArray(raw) ? raw : []).filter(isSavedLocation).map((entry) => ({ ...entry, verified: entry.verified === true }));
+
+export const moveItem = <T>(items: T[], from: number, to: number) => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
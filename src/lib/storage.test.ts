@@ -0,0 +1,48 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readStored, readStoredJson, writeStored, writeStoredJson } from './storage.ts';
+
+// Node has no localStorage; each test installs a Map-backed one, or one that throws like a blocked store
+const installStorage = (items = new Map<string, string>(), blocked = false) => {
+  const guard = () => {
+    if (blocked) throw new DOMException('The operation is insecure.', 'SecurityError');
+  };
+  Object.defineProperty(globalThis, 'localStorage', {
+    configurable: true,
+    value: {
+      getItem: (key: string) => (guard(), items.get(key) ?? null),
+      setItem: (key: string, value: string) => (guard(), void items.set(key, value)),
+      removeItem: (key: string) => (guard(), void items.delete(key)),
+    },
+  });
+  return items;
+};
+
+describe('stored values', () => {
+  afterEach(() => {
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+  });
+
+  it('round-trips text and JSON', () => {
+    const items = installStorage();
+    writeStored('locale', 'hi');
+    writeStoredJson('units', { temperature: 'fahrenheit' });
+    assert.equal(readStored('locale', (stored) => stored), 'hi');
+    assert.deepEqual(readStoredJson('units', (raw) => raw), { temperature: 'fahrenheit' });
+    writeStored('locale', null);
+    assert.equal(items.has('locale'), false);
+  });
+
+  it('hands the parser undefined for missing or unreadable JSON', () => {
+    installStorage(new Map([['rules', '[{"id": ']]));
+    assert.equal(readStoredJson('rules', (raw) => raw ?? 'defaults'), 'defaults');
+    assert.equal(readStoredJson('missing', (raw) => raw ?? 'defaults'), 'defaults');
+  });
+
+  it('falls back and drops writes when storage is unavailable', () => {
+    const items = installStorage(new Map([['locale', 'ur']]), true);
+    assert.equal(readStored('locale', (stored) => stored ?? 'en'), 'en');
+    assert.doesNotThrow(() => writeStoredJson('units', {}));
+    assert.equal(items.has('units'), false);
+  });
+});
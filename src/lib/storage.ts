@@ -0,0 +1,28 @@
+// localStorage access that never throws. Storage can be unavailable (private mode, quota) or hold values
+// written by an older version, so reads fall back and failed writes are dropped: the state then lasts for the
+// session only.
+
+// `parse` gets the stored text, or null when there is none or it cannot be read or parsed
+export const readStored = <T>(key: string, parse: (stored: string | null) => T): T => {
+  try {
+    return parse(localStorage.getItem(key));
+  } catch {
+    return parse(null);
+  }
+};
+
+// `parse` gets the stored JSON value, or undefined when there is none, and narrows it like a response validator
+export const readStoredJson = <T>(key: string, parse: (raw: unknown) => T): T =>
+  readStored(key, (stored) => parse(stored === null ? undefined : JSON.parse(stored)));
+
+// Null removes the key
+export const writeStored = (key: string, value: string | null) => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+  } catch {
+    // Dropped; see above
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown) => writeStored(key, JSON.stringify(value));
@@ -0,0 +1,33 @@
+// Forecast timestamps are rendered in the location's zone, never the browser's
+
+const formatter = (timeZone: string, options: Intl.DateTimeFormatOptions, locale?: string) => {
+  try {
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone });
+  } catch {
+    // Unknown zone names throw a RangeError; fall back to UTC rather than the browser zone
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' });
+  }
+};
+
+export const formatHour = (unixSeconds: number, timeZone: string, locale?: string) =>
+  formatter(timeZone, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }, locale).format(unixSeconds * 1000);
+
+export const formatWeekday = (unixSeconds: number, timeZone: string, locale?: string) =>
+  formatter(timeZone, { weekday: 'short' }, locale).format(unixSeconds * 1000);
+
+export const formatDayOfMonth = (unixSeconds: number, timeZone: string, locale?: string) =>
+  formatter(timeZone, { day: 'numeric', month: 'short' }, locale).format(unixSeconds * 1000);
+
+// "2026-10-19T14:00" in the location's zone, for machine-readable payloads such as assistant tool results
+export const formatLocalIso = (unixSeconds: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    formatter(timeZone, {
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }, 'en-CA').formatToParts(unixSeconds * 1000).map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+};
+
+// Wall-clock time in the browser's own zone, for app events such as when telemetry was stored
+export const formatClockTime = (epochMs: number, locale?: string) =>
+  new Date(epochMs).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_UNITS, normalizeUnitPreferences } from './units.ts';
+
+describe('normalizeUnitPreferences', () => {
+  it('keeps known units and replaces the rest with the defaults', () => {
+    assert.deepEqual(
+      normalizeUnitPreferences({ temperature: 'fahrenheit', wind: 'knots', pressure: 'inHg', precipitation: 7 }),
+      { ...DEFAULT_UNITS, temperature: 'fahrenheit', pressure: 'inHg' }
+    );
+  });
+
+  it('does not take inherited property names for units', () => {
+    assert.deepEqual(normalizeUnitPreferences({ temperature: 'toString', wind: 'constructor' }), DEFAULT_UNITS);
+  });
+
+  it('falls back to the defaults for anything but an object', () => {
+    for (const raw of [undefined, null, 'imperial', ['celsius']]) assert.deepEqual(normalizeUnitPreferences(raw), DEFAULT_UNITS);
+  });
+});
@@ -0,0 +1,141 @@
+// Single formatting layer for every measured value, shared by the UI and the backend briefing prompt.
+// Telemetry is always fetched in metric (°C, km/h, hPa, mm) and converted here for display.
+
+import { isRecord } from './apiClient.ts';
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'kn';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type PrecipitationUnit = 'mm' | 'in';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  pressure: PressureUnit;
+  precipitation: PrecipitationUnit;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'celsius',
+  wind: 'kmh',
+  pressure: 'hPa',
+  precipitation: 'mm',
+};
+
+export const IMPERIAL_UNITS: UnitPreferences = {
+  temperature: 'fahrenheit',
+  wind: 'mph',
+  pressure: 'inHg',
+  precipitation: 'in',
+};
+
+interface UnitSpec {
+  symbol: string;
+  label: string;
+  digits: number;
+  convert: (metric: number) => number;
+  // Inverse of convert, for values the user types in their own units
+  toMetric: (value: number) => number;
+}
+
+export const TEMPERATURE_UNITS: Record<TemperatureUnit, UnitSpec> = {
+  celsius: { symbol: '°C', label: 'Celsius', digits: 0, convert: (c) => c, toMetric: (c) => c },
+  fahrenheit: { symbol: '°F', label: 'Fahrenheit', digits: 0, convert: (c) => c * 9 / 5 + 32, toMetric: (f) => (f - 32) * 5 / 9 },
+};
+
+export const WIND_UNITS: Record<WindUnit, UnitSpec> = {
+  kmh: { symbol: 'km/h', label: 'km/h', digits: 0, convert: (kmh) => kmh, toMetric: (kmh) => kmh },
+  mph: { symbol: 'mph', label: 'mph', digits: 0, convert: (kmh) => kmh / 1.609344, toMetric: (mph) => mph * 1.609344 },
+  ms: { symbol: 'm/s', label: 'm/s', digits: 1, convert: (kmh) => kmh / 3.6, toMetric: (ms) => ms * 3.6 },
+  kn: { symbol: 'kn', label: 'Knots', digits: 0, convert: (kmh) => kmh / 1.852, toMetric: (kn) => kn * 1.852 },
+};
+
+export const PRESSURE_UNITS: Record<PressureUnit, UnitSpec> = {
+  hPa: { symbol: 'hPa', label: 'hPa', digits: 0, convert: (hPa) => hPa, toMetric: (hPa) => hPa },
+  inHg: { symbol: 'inHg', label: 'inHg', digits: 2, convert: (hPa) => hPa / 33.8639, toMetric: (inHg) => inHg * 33.8639 },
+  mmHg: { symbol: 'mmHg', label: 'mmHg', digits: 0, convert: (hPa) => hPa / 1.333224, toMetric: (mmHg) => mmHg * 1.333224 },
+};
+
+export const PRECIPITATION_UNITS: Record<PrecipitationUnit, UnitSpec> = {
+  mm: { symbol: 'mm', label: 'mm', digits: 1, convert: (mm) => mm, toMetric: (mm) => mm },
+  in: { symbol: 'in', label: 'in', digits: 2, convert: (mm) => mm / 25.4, toMetric: (inches) => inches * 25.4 },
+};
+
+// Own keys only, so "toString" and friends are not mistaken for units
+const pick = <T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value) ? (value as T) : fallback;
+
+// Coerces untrusted input (localStorage, request bodies) into valid preferences
+export const normalizeUnitPreferences = (raw: unknown): UnitPreferences => {
+  const units = isRecord(raw) ? raw : {};
+  return {
+    temperature: pick(units.temperature, TEMPERATURE_UNITS, DEFAULT_UNITS.temperature),
+    wind: pick(units.wind, WIND_UNITS, DEFAULT_UNITS.wind),
+    pressure: pick(units.pressure, PRESSURE_UNITS, DEFAULT_UNITS.pressure),
+    precipitation: pick(units.precipitation, PRECIPITATION_UNITS, DEFAULT_UNITS.precipitation),
+  };
+};
+
+export interface UnitFormatter {
+  units: UnitPreferences;
+  // Converted and rounded numbers, for layouts that style the value and unit separately
+  temperatureValue: (celsius: number) => number;
+  temperatureSymbol: string;
+  // "21°C"
+  temperature: (celsius: number) => string;
+  // "21°", for dense rows where the unit is implied
+  degrees: (celsius: number) => string;
+  wind: (kmh: number) => string;
+  pressure: (hPa: number) => string;
+  precipitation: (mm: number) => string;
+  // Converted values without unit, and the way back, for numeric inputs shown in the user's units
+  symbols: Record<keyof UnitPreferences, string>;
+  fromMetric: Record<keyof UnitPreferences, (metric: number) => number>;
+  toMetric: Record<keyof UnitPreferences, (value: number) => number>;
+}
+
+export const createUnitFormatter = (units: UnitPreferences, locale?: string): UnitFormatter => {
+  const round = (spec: UnitSpec, metric: number) => {
+    const factor = 10 ** spec.digits;
+    return Math.round(spec.convert(metric) * factor) / factor;
+  };
+  const number = (spec: UnitSpec, metric: number) =>
+    new Intl.NumberFormat(locale, {
+      minimumFractionDigits: spec.digits,
+      maximumFractionDigits: spec.digits,
+    }).format(round(spec, metric));
+
+  const temperatureSpec = TEMPERATURE_UNITS[units.temperature];
+  const windSpec = WIND_UNITS[units.wind];
+  const pressureSpec = PRESSURE_UNITS[units.pressure];
+  const precipitationSpec = PRECIPITATION_UNITS[units.precipitation];
+
+  return {
+    units,
+    temperatureValue: (celsius) => round(temperatureSpec, celsius),
+    temperatureSymbol: temperatureSpec.symbol,
+    temperature: (celsius) => `${number(temperatureSpec, celsius)}${temperatureSpec.symbol}`,
+    degrees: (celsius) => `${number(temperatureSpec, celsius)}°`,
+    wind: (kmh) => `${number(windSpec, kmh)} ${windSpec.symbol}`,
+    pressure: (hPa) => `${number(pressureSpec, hPa)} ${pressureSpec.symbol}`,
+    precipitation: (mm) => `${number(precipitationSpec, mm)} ${precipitationSpec.symbol}`,
+    symbols: {
+      temperature: temperatureSpec.symbol,
+      wind: windSpec.symbol,
+      pressure: pressureSpec.symbol,
+      precipitation: precipitationSpec.symbol,
+    },
+    fromMetric: {
+      temperature: (value) => round(temperatureSpec, value),
+      wind: (value) => round(windSpec, value),
+      pressure: (value) => round(pressureSpec, value),
+      precipitation: (value) => round(precipitationSpec, value),
+    },
+    toMetric: {
+      temperature: temperatureSpec.toMetric,
+      wind: windSpec.toMetric,
+      pressure: pressureSpec.toMetric,
+      precipitation: precipitationSpec.toMetric,
+    },
+  };
+};
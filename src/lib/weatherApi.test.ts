@@ -0,0 +1,67 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { streamBriefing } from './weatherApi.ts';
+import { parseDaily, parseHourly } from './forecast.ts';
+import { createI18n } from './i18n.ts';
+import { createUnitFormatter, DEFAULT_UNITS } from './units.ts';
+import type { AiBriefing } from './briefing.ts';
+import type { WeatherSnapshot } from '../types.ts';
+
+const SNAPSHOT: WeatherSnapshot = {
+  city: 'Pune, Maharashtra, India', latitude: 18.5196, longitude: 73.8554, verified: true,
+  temp: 24.3, feelsLike: 26.1, condition: 'Slight Rain', weatherCode: 61, humidity: 81, windSpeed: 12.4, windGusts: 20,
+  pressure: 1008, uvIndex: 3.2, precipitation: 0.2, isDay: true, airQuality: null, timezone: 'Asia/Kolkata',
+  hourly: parseHourly(undefined), daily: parseDaily(undefined),
+};
+
+const realFetch = globalThis.fetch;
+
+// Answers the briefing request with these NDJSON lines, split mid-line to exercise the buffering
+const mockStream = (lines: string[], status = 200) => {
+  const text = lines.map((line) => `${line}\n`).join('');
+  globalThis.fetch = async () => new Response(
+    new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder();
+        controller.enqueue(encoder.encode(text.slice(0, 20)));
+        controller.enqueue(encoder.encode(text.slice(20)));
+        controller.close();
+      },
+    }),
+    { status }
+  );
+};
+
+const stream = async () => {
+  const i18n = createI18n('en');
+  const updates: AiBriefing[] = [];
+  const briefing = await streamBriefing(SNAPSHOT, createUnitFormatter(DEFAULT_UNITS), 'general', i18n, (partial) => updates.push(partial));
+  return { briefing, updates };
+};
+
+describe('streamBriefing', () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('reports partial briefings from text chunks, skipping events without text, then the final one', async () => {
+    mockStream([
+      JSON.stringify({ type: 'chunk', text: '{"summary": "Light ' }),
+      JSON.stringify({ type: 'chunk' }),
+      '7',
+      JSON.stringify({ type: 'chunk', text: 'rain."' }),
+      JSON.stringify({ type: 'done', cached: false, briefing: { summary: 'Light rain.', risks: ['Slippery roads'], recommendations: [], confidence: 0.8, source: 'gemini' } }),
+    ]);
+    const { briefing, updates } = await stream();
+    assert.deepEqual(updates.map((update) => update.summary), ['Light ', 'Light rain.']);
+    assert.deepEqual(briefing, { summary: 'Light rain.', risks: ['Slippery roads'], recommendations: [], confidence: 0.8, source: 'gemini' });
+  });
+
+  it('falls back to a local briefing when the request fails', async (t) => {
+    t.mock.method(console, 'error', () => {});
+    globalThis.fetch = async () => new Response(JSON.stringify({ error: 'Too many requests; try again shortly.' }), { status: 429 });
+    const { briefing } = await stream();
+    assert.equal(briefing.source, 'fallback');
+    assert.match(briefing.summary, /slight rain/);
+  });
+});
@@ -0,0 +1,123 @@
+import type { GeoLocation, WeatherSnapshot } from '../types.ts';
+import type { UnitFormatter } from './units.ts';
+import type { Coordinates } from './coordinates.ts';
+import { parseArchiveDaily, toWeatherSnapshot, validateForecast } from './forecast.ts';
+import { parseGeoResults } from './locations.ts';
+import { parseAirQuality } from './airQuality.ts';
+import { parsePartialJson } from './partialJson.ts';
+import { ensure, isAbortError, isRecord, requestJson } from './apiClient.ts';
+import { DEFAULT_LOCALE, translateCondition, type I18n, type Locale } from './i18n.ts';
+import {
+  fallbackBriefing, normalizeBriefing, toBriefingRequest, type AiBriefing, type BriefingProfile,
+} from './briefing.ts';
+
+// Open-Meteo omits `results` entirely when nothing matches
+const validateGeocode = (body: unknown) => {
+  ensure(isRecord(body), 'body');
+  ensure(body.results === undefined || Array.isArray(body.results), 'results');
+  return parseGeoResults(body);
+};
+
+const validateDailyHistory = (body: unknown) => {
+  ensure(isRecord(body), 'body');
+  ensure(isRecord(body.daily), 'daily');
+  return parseArchiveDaily(body.daily);
+};
+
+// Geocodes a place name through the backend proxy; an empty list means nothing matched.
+// `language` picks the language of the returned place names.
+export const searchLocations = (name: string, count: number, signal?: AbortSignal, language: Locale = DEFAULT_LOCALE) =>
+  requestJson(`/api/geocode?name=${encodeURIComponent(name)}&count=${count}&language=${language}`, validateGeocode, { signal });
+
+// Streams the Gemini briefing from the backend, reporting partial briefings as they arrive.
+// Falls back to a local summary so the app still works; rejects only when aborted.
+export const streamBriefing = async (
+  snapshot: WeatherSnapshot,
+  format: UnitFormatter,
+  profile: BriefingProfile,
+  i18n: I18n,
+  onUpdate: (partial: AiBriefing) => void,
+  signal?: AbortSignal
+): Promise<AiBriefing> => {
+  try {
+    const res = await fetch('/api/briefing', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toBriefingRequest(snapshot, format.units, profile, i18n.locale)),
+      signal,
+    });
+    if (!res.ok || !res.body) {
+      const body: unknown = await res.json().catch(() => null);
+      throw new Error(isRecord(body) && typeof body.error === 'string' ? body.error : 'Briefing request failed.');
+    }
+
+    // Newline-delimited JSON events: raw model text chunks, then the final briefing
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    let text = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event: unknown = JSON.parse(line);
+        if (!isRecord(event)) continue;
+        if (event.type === 'done') {
+          const { briefing } = event;
+          return normalizeBriefing(briefing, isRecord(briefing) && briefing.source === 'gemini' ? 'gemini' : 'fallback');
+        }
+        if (event.type === 'chunk' && typeof event.text === 'string') {
+          text += event.text;
+          const partial = parsePartialJson(text);
+          if (partial) onUpdate(normalizeBriefing(partial, 'gemini'));
+        }
+      }
+    }
+    throw new Error('Briefing stream ended before completion.');
+  } catch (aiErr) {
+    if (signal?.aborted) throw aiErr;
+    console.error("AI Generation failed:", aiErr);
+    return fallbackBriefing(translateCondition(snapshot.weatherCode, i18n.t), format.temperature(snapshot.feelsLike), i18n.t);
+  }
+};
+
+// Air quality is supplementary: any failure leaves the telemetry without it rather than failing the load
+const loadAirQuality = async (latitude: number, longitude: number, signal?: AbortSignal) => {
+  try {
+    return await requestJson(`/api/air-quality?latitude=${latitude}&longitude=${longitude}`, parseAirQuality, { signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn('Air quality unavailable:', err);
+    return null;
+  }
+};
+
+// Fetches forecast and air-quality telemetry for an already-resolved location
+export const loadTelemetry = async (location: GeoLocation, verified: boolean, signal?: AbortSignal): Promise<WeatherSnapshot> => {
+  const { latitude, longitude } = location;
+  const [weatherData, airQuality] = await Promise.all([
+    requestJson(`/api/forecast?latitude=${latitude}&longitude=${longitude}`, validateForecast, { signal }),
+    loadAirQuality(latitude, longitude, signal),
+  ]);
+
+  return toWeatherSnapshot(location, verified, weatherData, airQuality);
+};
+
+// Daily archive history between two local dates (YYYY-MM-DD, inclusive)
+export const loadHistory = ({ latitude, longitude }: Coordinates, startDate: string, endDate: string, signal?: AbortSignal) =>
+  requestJson(
+    `/api/archive?latitude=${latitude}&longitude=${longitude}&start_date=${startDate}&end_date=${endDate}`,
+    validateDailyHistory,
+    { signal }
+  );
+
+// The same calendar day in each of the past `years` years
+export const loadSameDayHistory = ({ latitude, longitude }: Coordinates, date: string, years: number, signal?: AbortSignal) =>
+  requestJson(
+    `/api/archive/same-day?latitude=${latitude}&longitude=${longitude}&date=${date}&years=${years}`,
+    validateDailyHistory,
+    { signal }
+  );
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Cloud, CloudDrizzle, CloudFog, CloudHail, CloudLightning, CloudMoon, CloudMoonRain, CloudRain, CloudRainWind,
+  CloudSnow, CloudSun, CloudSunRain, Cloudy, Moon, Snowflake, Sun,
+} from 'lucide-react';
+import { getWeatherCodeInfo, getWeatherCondition, getWeatherIcon, isWmoCode, WMO_CODES, type WeatherSeverity } from './weatherCodes.ts';
+import { createTranslator, translateCondition } from './i18n.ts';
+
+// The WMO 4677 subset Open-Meteo reports, written out independently of the table under test
+const EXPECTED: [code: number, label: string, severity: WeatherSeverity, day: unknown, night: unknown][] = [
+  [0, 'Clear Sky', 'none', Sun, Moon],
+  [1, 'Mainly Clear', 'none', CloudSun, CloudMoon],
+  [2, 'Partly Cloudy', 'none', CloudSun, CloudMoon],
+  [3, 'Overcast', 'none', Cloudy, Cloudy],
+  [45, 'Fog', 'low', CloudFog, CloudFog],
+  [48, 'Depositing Rime Fog', 'moderate', CloudFog, CloudFog],
+  [51, 'Light Drizzle', 'low', CloudDrizzle, CloudDrizzle],
+  [53, 'Moderate Drizzle', 'low', CloudDrizzle, CloudDrizzle],
+  [55, 'Dense Drizzle', 'moderate', CloudDrizzle, CloudDrizzle],
+  [56, 'Light Freezing Drizzle', 'moderate', CloudDrizzle, CloudDrizzle],
+  [57, 'Dense Freezing Drizzle', 'high', CloudDrizzle, CloudDrizzle],
+  [61, 'Slight Rain', 'low', CloudRain, CloudRain],
+  [63, 'Moderate Rain', 'moderate', CloudRain, CloudRain],
+  [65, 'Heavy Rain', 'high', CloudRainWind, CloudRainWind],
+  [66, 'Light Freezing Rain', 'high', CloudRain, CloudRain],
+  [67, 'Heavy Freezing Rain', 'severe', CloudRainWind, CloudRainWind],
+  [71, 'Slight Snowfall', 'low', CloudSnow, CloudSnow],
+  [73, 'Moderate Snowfall', 'moderate', CloudSnow, CloudSnow],
+  [75, 'Heavy Snowfall', 'high', Snowflake, Snowflake],
+  [77, 'Snow Grains', 'low', Snowflake, Snowflake],
+  [80, 'Slight Rain Showers', 'low', CloudSunRain, CloudMoonRain],
+  [81, 'Moderate Rain Showers', 'moderate', CloudRain, CloudRain],
+  [82, 'Violent Rain Showers', 'high', CloudRainWind, CloudRainWind],
+  [85, 'Slight Snow Showers', 'low', CloudSnow, CloudSnow],
+  [86, 'Heavy Snow Showers', 'high', Snowflake, Snowflake],
+  [95, 'Thunderstorm', 'high', CloudLightning, CloudLightning],
+  [96, 'Thunderstorm with Slight Hail', 'severe', CloudHail, CloudHail],
+  [99, 'Thunderstorm with Heavy Hail', 'severe', CloudHail, CloudHail],
+];
+
+describe('WMO weather codes', () => {
+  it('covers exactly the codes Open-Meteo reports', () => {
+    assert.deepEqual(Object.keys(WMO_CODES).map(Number), EXPECTED.map(([code]) => code));
+  });
+
+  for (const [code, label, severity, day, night] of EXPECTED) {
+    it(`describes code ${code} as ${label}`, () => {
+      assert.ok(isWmoCode(code));
+      const info = getWeatherCodeInfo(code);
+      assert.equal(info.code, code);
+      assert.equal(info.label, label);
+      assert.equal(getWeatherCondition(code), label);
+      assert.equal(info.severity, severity);
+      assert.equal(getWeatherIcon(code, true), day);
+      assert.equal(getWeatherIcon(code, false), night);
+      // Snapshots take their English condition names from the catalogue, so the two must agree
+      assert.equal(translateCondition(code, createTranslator('en')), label);
+    });
+  }
+
+  it('falls back to an unclassified condition for unknown codes', () => {
+    for (const code of [4, 50, 100, -1]) {
+      assert.equal(isWmoCode(code), false);
+      const info = getWeatherCodeInfo(code);
+      assert.equal(info.label, `Unclassified Conditions (WMO ${code})`);
+      assert.equal(info.family, 'unknown');
+      assert.equal(info.severity, 'none');
+      assert.equal(getWeatherIcon(code, true), Cloud);
+      assert.equal(getWeatherIcon(code, false), Cloud);
+      assert.equal(translateCondition(code, createTranslator('en')), info.label);
+    }
+  });
+});
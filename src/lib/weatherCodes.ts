@@ -0,0 +1,88 @@
+import {
+  Cloud, CloudDrizzle, CloudFog, CloudHail, CloudLightning, CloudMoon, CloudMoonRain, CloudRain, CloudRainWind,
+  CloudSnow, CloudSun, CloudSunRain, Cloudy, Moon, Snowflake, Sun, type LucideIcon,
+} from 'lucide-react';
+
+// WMO 4677 present-weather codes as reported by Open-Meteo (`weather_code`)
+export type WmoCode =
+  | 0 | 1 | 2 | 3
+  | 45 | 48
+  | 51 | 53 | 55 | 56 | 57
+  | 61 | 63 | 65 | 66 | 67
+  | 71 | 73 | 75 | 77
+  | 80 | 81 | 82 | 85 | 86
+  | 95 | 96 | 99;
+
+export type ConditionFamily =
+  | 'clear' | 'cloudy' | 'overcast' | 'fog' | 'drizzle' | 'rain' | 'freezing' | 'snow' | 'thunderstorm' | 'unknown';
+
+export type Intensity = 'slight' | 'moderate' | 'heavy';
+
+// Ordered from harmless to dangerous; drives alert colouring and visuals
+export type WeatherSeverity = 'none' | 'low' | 'moderate' | 'high' | 'severe';
+
+export interface WeatherCodeInfo {
+  code: number;
+  label: string;
+  family: ConditionFamily;
+  intensity?: Intensity;
+  severity: WeatherSeverity;
+  dayIcon: LucideIcon;
+  nightIcon: LucideIcon;
+}
+
+type Entry = Omit<WeatherCodeInfo, 'code'>;
+
+const entry = (
+  label: string,
+  family: ConditionFamily,
+  severity: WeatherSeverity,
+  dayIcon: LucideIcon,
+  nightIcon: LucideIcon = dayIcon,
+  intensity?: Intensity
+): Entry => ({ label, family, severity, dayIcon, nightIcon, intensity });
+
+export const WMO_CODES: Record<WmoCode, Entry> = {
+  0: entry('Clear Sky', 'clear', 'none', Sun, Moon),
+  1: entry('Mainly Clear', 'clear', 'none', CloudSun, CloudMoon),
+  2: entry('Partly Cloudy', 'cloudy', 'none', CloudSun, CloudMoon),
+  3: entry('Overcast', 'overcast', 'none', Cloudy),
+  45: entry('Fog', 'fog', 'low', CloudFog),
+  48: entry('Depositing Rime Fog', 'fog', 'moderate', CloudFog),
+  51: entry('Light Drizzle', 'drizzle', 'low', CloudDrizzle, CloudDrizzle, 'slight'),
+  53: entry('Moderate Drizzle', 'drizzle', 'low', CloudDrizzle, CloudDrizzle, 'moderate'),
+  55: entry('Dense Drizzle', 'drizzle', 'moderate', CloudDrizzle, CloudDrizzle, 'heavy'),
+  56: entry('Light Freezing Drizzle', 'freezing', 'moderate', CloudDrizzle, CloudDrizzle, 'slight'),
+  57: entry('Dense Freezing Drizzle', 'freezing', 'high', CloudDrizzle, CloudDrizzle, 'heavy'),
+  61: entry('Slight Rain', 'rain', 'low', CloudRain, CloudRain, 'slight'),
+  63: entry('Moderate Rain', 'rain', 'moderate', CloudRain, CloudRain, 'moderate'),
+  65: entry('Heavy Rain', 'rain', 'high', CloudRainWind, CloudRainWind, 'heavy'),
+  66: entry('Light Freezing Rain', 'freezing', 'high', CloudRain, CloudRain, 'slight'),
+  67: entry('Heavy Freezing Rain', 'freezing', 'severe', CloudRainWind, CloudRainWind, 'heavy'),
+  71: entry('Slight Snowfall', 'snow', 'low', CloudSnow, CloudSnow, 'slight'),
+  73: entry('Moderate Snowfall', 'snow', 'moderate', CloudSnow, CloudSnow, 'moderate'),
+  75: entry('Heavy Snowfall', 'snow', 'high', Snowflake, Snowflake, 'heavy'),
+  77: entry('Snow Grains', 'snow', 'low', Snowflake),
+  80: entry('Slight Rain Showers', 'rain', 'low', CloudSunRain, CloudMoonRain, 'slight'),
+  81: entry('Moderate Rain Showers', 'rain', 'moderate', CloudRain, CloudRain, 'moderate'),
+  82: entry('Violent Rain Showers', 'rain', 'high', CloudRainWind, CloudRainWind, 'heavy'),
+  85: entry('Slight Snow Showers', 'snow', 'low', CloudSnow, CloudSnow, 'slight'),
+  86: entry('Heavy Snow Showers', 'snow', 'high', Snowflake, Snowflake, 'heavy'),
+  95: entry('Thunderstorm', 'thunderstorm', 'high', CloudLightning, CloudLightning, 'moderate'),
+  96: entry('Thunderstorm with Slight Hail', 'thunderstorm', 'severe', CloudHail, CloudHail, 'slight'),
+  99: entry('Thunderstorm with Heavy Hail', 'thunderstorm', 'severe', CloudHail, CloudHail, 'heavy'),
+};
+
+export const isWmoCode = (code: number): code is WmoCode => Object.prototype.hasOwnProperty.call(WMO_CODES, code);
+
+export const getWeatherCodeInfo = (code: number): WeatherCodeInfo => {
+  if (isWmoCode(code)) return { code, ...WMO_CODES[code] };
+  return { code, ...entry(`Unclassified Conditions (WMO ${code})`, 'unknown', 'none', Cloud) };
+};
+
+export const getWeatherCondition = (code: number) => getWeatherCodeInfo(code).label;
+
+export const getWeatherIcon = (code: number, isDay = true): LucideIcon => {
+  const info = getWeatherCodeInfo(code);
+  return isDay ? info.dayIcon : info.nightIcon;
+};
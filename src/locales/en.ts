@@ -0,0 +1,304 @@
+// English, the reference catalogue: its keys define MessageKey and every other locale must translate all of them.
+// "{name}" marks a placeholder filled in at runtime.
+export const en = {
+  // App shell
+  'app.tagline': 'Global Atmospheric Intelligence',
+  'app.initializing': 'Initializing Core Systems',
+  'app.savedSites': 'Saved sites',
+  'app.awaiting': 'Awaiting Coordinates',
+  'app.recentSearches': 'Recent Searches',
+  'app.clear': 'Clear',
+  'app.build': 'Amarsipahi Weather OS • Build 2.0',
+  'app.online': 'Systems Nominal',
+  'app.offline': 'Offline Mode',
+  'loading.uplink': 'Establishing satellite uplink...',
+  'loading.sensors': 'Calibrating atmospheric sensors...',
+  'loading.models': 'Running predictive models...',
+  'loading.analysis': 'Synthesizing AI analysis...',
+
+  // Current conditions
+  'weather.verified': 'Verified Location',
+  'weather.staleSince': 'Stale since {time}',
+  'weather.save': 'Save site',
+  'weather.unsave': 'Remove from saved sites',
+  'weather.history': 'Weather history',
+  'weather.feelsLike': 'Feels like',
+  'weather.precipitation': 'Precipitation',
+  'weather.humidity': 'Humidity',
+  'weather.wind': 'Wind Velocity',
+  'weather.uvIndex': 'UV Index',
+  'weather.pressure': 'Pressure',
+  'weather.uvShort': 'UV {value}',
+  'climate.high': 'High',
+  'climate.low': 'Low',
+  'climate.normalHigh': 'Normal high {value}',
+  'climate.normalLow': 'Normal low {value}',
+  'climate.versus': 'vs {years}-yr normal',
+  'hourly.title': 'Next 48 Hours',
+  'daily.title': '7-Day Outlook',
+  'daily.today': 'Today',
+
+  // Location search
+  'search.placeholder': 'Enter coordinates or city...',
+  'search.submit': 'Search',
+  'search.useMyLocation': 'Use my location',
+  'search.multiple': 'Multiple matches — select one',
+  'search.notFound': '"{name}" was not found in the global database.',
+  'search.denied': 'Location access was denied.',
+  'search.unsupported': 'Geolocation is not supported by this browser.',
+  'search.unavailable': 'Unable to determine your location.',
+
+  // Errors
+  'error.not-found.title': 'No Match',
+  'error.not-found.message': 'Nothing was found for this request.',
+  'error.not-found.hint': 'Check the spelling, add a region or country, or enter coordinates.',
+  'error.network.title': 'Uplink Lost',
+  'error.network.message': 'Unable to reach the Amarsipahi backend.',
+  'error.network.hint': 'The backend could not be reached. Check your connection.',
+  'error.timeout.title': 'Signal Timeout',
+  'error.timeout.message': 'The request timed out.',
+  'error.timeout.hint': 'The request took too long. The service may be under load.',
+  'error.rate-limit.title': 'Rate Limited',
+  'error.rate-limit.message': 'The service is limiting requests.',
+  'error.rate-limit.hint': 'Too many requests in a short time. Wait a moment before retrying.',
+  'error.malformed.title': 'Corrupt Telemetry',
+  'error.malformed.message': 'The response could not be read.',
+  'error.malformed.hint': 'The data source answered with something unexpected.',
+  'error.server.title': 'System Error',
+  'error.server.message': 'The request failed on the server.',
+  'error.server.hint': 'The request could not be completed.',
+  'error.geolocation.title': 'No Position Fix',
+  'error.geolocation.message': 'Your location could not be determined.',
+  'error.geolocation.hint': 'Allow location access in the browser, or search for a place instead.',
+  'error.retryIn': 'Retry in about {seconds}s.',
+  'error.retry': 'Retry',
+
+  // Settings
+  'settings.title': 'Units and language',
+  'settings.language': 'Language',
+  'settings.units': 'Units',
+  'settings.metric': 'Metric',
+  'settings.imperial': 'Imperial',
+  'settings.temperature': 'Temperature',
+  'settings.wind': 'Wind',
+  'settings.pressure': 'Pressure',
+  'settings.precipitation': 'Precipitation',
+  'unit.celsius': 'Celsius',
+  'unit.fahrenheit': 'Fahrenheit',
+  'unit.kn': 'Knots',
+
+  // AI briefing
+  'briefing.title': 'Gemini AI Analysis',
+  'briefing.profile': 'Briefing profile',
+  'briefing.risks': 'Risks',
+  'briefing.recommendations': 'Recommendations',
+  'briefing.confidence': 'Confidence',
+  'briefing.standard': 'Standard briefing · AI unavailable',
+  'briefing.offline': 'AI analysis unavailable while offline.',
+  'briefing.fallback': 'Atmospheric conditions indicate {condition} with a perceived temperature of {feelsLike}. Standard operational precautions advised.',
+  'briefing.missingKey': ' (AI Offline - Missing API Key)',
+  'profile.general': 'General',
+  'profile.commuter': 'Commuter',
+  'profile.outdoorWorker': 'Outdoor Worker',
+  'profile.runner': 'Runner',
+  'profile.photographer': 'Photographer',
+  'profile.agriculture': 'Agriculture',
+
+  // Alerts
+  'alerts.button': 'Alert rules',
+  'alerts.title': 'Alert Rules',
+  'alerts.notifications': 'Browser notifications',
+  'alerts.empty': 'No rules yet.',
+  'alerts.enable': 'Enable rule',
+  'alerts.disable': 'Disable rule',
+  'alerts.delete': 'Delete rule',
+  'alerts.limit': 'Limit',
+  'alerts.allLocations': 'All locations',
+  'alerts.removedSite': 'Removed site',
+  'alerts.add': 'Add',
+  'alerts.now': 'Now',
+  'alerts.dismiss': 'Dismiss',
+  'alerts.describe': '{metric} {value} (rule {comparator} {threshold})',
+  'severity.info': 'Info',
+  'severity.warning': 'Warning',
+  'severity.critical': 'Critical',
+  'alertMetric.temperature': 'Temperature',
+  'alertMetric.feelsLike': 'Feels like',
+  'alertMetric.windSpeed': 'Wind speed',
+  'alertMetric.windGusts': 'Wind gusts',
+  'alertMetric.uvIndex': 'UV index',
+  'alertMetric.precipitation': 'Precipitation',
+  'alertMetric.precipitationProbability': 'Precipitation chance',
+  'alertMetric.humidity': 'Humidity',
+
+  // Saved sites
+  'dashboard.title': 'Saved Sites · {count}',
+  'dashboard.refresh': 'Refresh all',
+  'dashboard.empty': 'No saved sites yet',
+  'dashboard.emptyHint': 'Search for a location and mark it with the star to track it here.',
+  'dashboard.open': 'Open {name}',
+  'dashboard.moveUp': 'Move up',
+  'dashboard.moveDown': 'Move down',
+  'dashboard.rename': 'Rename',
+  'dashboard.remove': 'Remove',
+  'dashboard.loading': 'Acquiring telemetry',
+  'dashboard.synced': 'Synced · code',
+  'dashboard.local': 'Stored on this device only',
+  'dashboard.stopSync': 'Stop syncing',
+  'dashboard.enableSync': 'Enable sync',
+  'dashboard.existingCode': 'Existing code',
+  'dashboard.link': 'Link',
+
+  // Assistant
+  'chat.button': 'Weather assistant',
+  'chat.title': 'Weather Assistant',
+  'chat.new': 'New conversation',
+  'chat.close': 'Close',
+  'chat.intro': 'Ask about conditions or the forecast anywhere.',
+  'chat.suggestion.run': 'When is the best 2-hour window to run tomorrow?',
+  'chat.suggestion.rain': 'Will it rain in Pune before Friday?',
+  'chat.thinking': 'Consulting telemetry...',
+  'chat.placeholder': 'Ask the assistant...',
+  'chat.send': 'Send',
+  'chat.failed': 'Failed',
+  'chat.noAnswer': 'No answer was returned.',
+  'chat.tooManyToolCalls': 'The assistant made too many tool calls without answering.',
+
+  // History
+  'history.back': 'Back to current conditions',
+  'history.archive': 'Archive',
+  'history.preset.week': '7D',
+  'history.preset.month': '30D',
+  'history.preset.quarter': '90D',
+  'history.preset.year': '1Y',
+  'history.warmest': 'Warmest',
+  'history.coldest': 'Coldest',
+  'history.totalPrecipitation': 'Total Precipitation',
+  'history.wetDays': '{value} · {days} wet days',
+  'history.strongestWind': 'Strongest Wind',
+  'history.temperature': 'Daily Temperature',
+  'history.high': 'High',
+  'history.mean': 'Mean',
+  'history.low': 'Low',
+  'history.precipitation': 'Daily Precipitation',
+  'history.total': 'Total',
+  'history.wind': 'Maximum Wind',
+  'history.max': 'Max',
+
+  // Air quality
+  'air.title': 'Air Quality',
+  'air.scale.european': 'European AQI',
+  'air.scale.us': 'US AQI',
+  'air.short.european': 'EU',
+  'air.short.us': 'US',
+  'air.noData': 'No data',
+  'air.pollen': 'Pollen',
+  'air.notModelled': 'Not modelled for this region.',
+  'air.nextHours': 'Next {count} hours',
+  'aqi.good': 'Good',
+  'aqi.fair': 'Fair',
+  'aqi.moderate': 'Moderate',
+  'aqi.poor': 'Poor',
+  'aqi.veryPoor': 'Very poor',
+  'aqi.extremelyPoor': 'Extremely poor',
+  'aqi.unhealthySensitive': 'Unhealthy for sensitive groups',
+  'aqi.unhealthy': 'Unhealthy',
+  'aqi.veryUnhealthy': 'Very unhealthy',
+  'aqi.hazardous': 'Hazardous',
+  'pollen.alder': 'Alder',
+  'pollen.birch': 'Birch',
+  'pollen.grass': 'Grass',
+  'pollen.mugwort': 'Mugwort',
+  'pollen.olive': 'Olive',
+  'pollen.ragweed': 'Ragweed',
+  'pollenLevel.none': 'None',
+  'pollenLevel.low': 'Low',
+  'pollenLevel.moderate': 'Moderate',
+  'pollenLevel.high': 'High',
+  'pollenLevel.veryHigh': 'Very high',
+
+  // Sun and moon
+  'astro.title': 'Sun & Moon',
+  'astro.sunrise': 'Sunrise',
+  'astro.sunset': 'Sunset',
+  'astro.solarNoon': 'Solar noon',
+  'astro.civilDawn': 'Civil dawn',
+  'astro.civilDusk': 'Civil dusk',
+  'astro.goldenMorning': 'Morning golden hour',
+  'astro.goldenEvening': 'Evening golden hour',
+  'astro.blueMorning': 'Morning blue hour',
+  'astro.blueEvening': 'Evening blue hour',
+  'astro.dayLength': 'Day length',
+  'astro.duration': '{hours} h {minutes} min',
+  'astro.moon': 'Moon',
+  'astro.illuminated': '{value} illuminated',
+  'astro.moonrise': 'Moonrise',
+  'astro.moonset': 'Moonset',
+  'astro.noEvent': 'None today',
+  'astro.polarDay': 'Midnight sun: the sun stays up all day',
+  'astro.polarNight': 'Polar night: the sun stays down all day',
+  'astro.now': 'Now',
+  'astro.matches': 'Within {minutes} min of the forecast',
+  'astro.differs': '{minutes} min off the forecast',
+  'astro.golden': 'Golden hour',
+  'astro.blue': 'Blue hour',
+  'moonPhase.new': 'New moon',
+  'moonPhase.waxingCrescent': 'Waxing crescent',
+  'moonPhase.firstQuarter': 'First quarter',
+  'moonPhase.waxingGibbous': 'Waxing gibbous',
+  'moonPhase.full': 'Full moon',
+  'moonPhase.waningGibbous': 'Waning gibbous',
+  'moonPhase.lastQuarter': 'Last quarter',
+  'moonPhase.waningCrescent': 'Waning crescent',
+
+  // Report export
+  'export.button': 'Export report',
+  'export.print': 'Print / Save as PDF',
+  'export.waiting': 'Available once the briefing has finished',
+  'export.title': '{city} weather report',
+  'export.generated': 'Generated {time}',
+  'export.current': 'Current conditions',
+  'export.metric': 'Metric',
+  'export.value': 'Value',
+  'export.condition': 'Conditions',
+  'export.time': 'Time',
+  'export.date': 'Date',
+  'export.low': 'Low',
+  'export.high': 'High',
+  'export.noBriefing': 'No briefing available.',
+
+  // Scheduled webhook briefings
+  'webhook.title': '{city} · Daily briefing',
+  'webhook.sentFor': 'Sent for {time} ({timeZone})',
+
+  // WMO weather codes
+  'condition.0': 'Clear Sky',
+  'condition.1': 'Mainly Clear',
+  'condition.2': 'Partly Cloudy',
+  'condition.3': 'Overcast',
+  'condition.45': 'Fog',
+  'condition.48': 'Depositing Rime Fog',
+  'condition.51': 'Light Drizzle',
+  'condition.53': 'Moderate Drizzle',
+  'condition.55': 'Dense Drizzle',
+  'condition.56': 'Light Freezing Drizzle',
+  'condition.57': 'Dense Freezing Drizzle',
+  'condition.61': 'Slight Rain',
+  'condition.63': 'Moderate Rain',
+  'condition.65': 'Heavy Rain',
+  'condition.66': 'Light Freezing Rain',
+  'condition.67': 'Heavy Freezing Rain',
+  'condition.71': 'Slight Snowfall',
+  'condition.73': 'Moderate Snowfall',
+  'condition.75': 'Heavy Snowfall',
+  'condition.77': 'Snow Grains',
+  'condition.80': 'Slight Rain Showers',
+  'condition.81': 'Moderate Rain Showers',
+  'condition.82': 'Violent Rain Showers',
+  'condition.85': 'Slight Snow Showers',
+  'condition.86': 'Heavy Snow Showers',
+  'condition.95': 'Thunderstorm',
+  'condition.96': 'Thunderstorm with Slight Hail',
+  'condition.99': 'Thunderstorm with Heavy Hail',
+  'condition.unknown': 'Unclassified Conditions (WMO {code})',
+};
@@ -0,0 +1,305 @@
+import type { Catalogue } from '../lib/i18n.ts';
+
+// Hindi (हिन्दी)
+export const hi: Catalogue = {
+  // App shell
+  'app.tagline': 'वैश्विक वायुमंडलीय इंटेलिजेंस',
+  'app.initializing': 'मुख्य प्रणालियाँ प्रारंभ हो रही हैं',
+  'app.savedSites': 'सहेजे गए स्थान',
+  'app.awaiting': 'निर्देशांकों की प्रतीक्षा',
+  'app.recentSearches': 'हाल की खोजें',
+  'app.clear': 'साफ़ करें',
+  'app.build': 'अमरसिपाही वेदर OS • बिल्ड 2.0',
+  'app.online': 'सभी प्रणालियाँ सामान्य',
+  'app.offline': 'ऑफ़लाइन मोड',
+  'loading.uplink': 'उपग्रह अपलिंक स्थापित हो रहा है...',
+  'loading.sensors': 'वायुमंडलीय सेंसर कैलिब्रेट हो रहे हैं...',
+  'loading.models': 'पूर्वानुमान मॉडल चल रहे हैं...',
+  'loading.analysis': 'AI विश्लेषण तैयार हो रहा है...',
+
+  // Current conditions
+  'weather.verified': 'सत्यापित स्थान',
+  'weather.staleSince': '{time} से पुराना डेटा',
+  'weather.save': 'स्थान सहेजें',
+  'weather.unsave': 'सहेजे गए स्थानों से हटाएँ',
+  'weather.history': 'मौसम का इतिहास',
+  'weather.feelsLike': 'महसूस होता है',
+  'weather.precipitation': 'वर्षा',
+  'weather.humidity': 'आर्द्रता',
+  'weather.wind': 'हवा की गति',
+  'weather.uvIndex': 'UV सूचकांक',
+  'weather.pressure': 'वायुदाब',
+  'weather.uvShort': 'UV {value}',
+  'climate.high': 'अधिकतम',
+  'climate.low': 'न्यूनतम',
+  'climate.normalHigh': 'सामान्य अधिकतम {value}',
+  'climate.normalLow': 'सामान्य न्यूनतम {value}',
+  'climate.versus': '{years} वर्ष के सामान्य की तुलना में',
+  'hourly.title': 'अगले 48 घंटे',
+  'daily.title': '7 दिन का पूर्वानुमान',
+  'daily.today': 'आज',
+
+  // Location search
+  'search.placeholder': 'निर्देशांक या शहर लिखें...',
+  'search.submit': 'खोजें',
+  'search.useMyLocation': 'मेरा स्थान उपयोग करें',
+  'search.multiple': 'कई परिणाम मिले — एक चुनें',
+  'search.notFound': '"{name}" वैश्विक डेटाबेस में नहीं मिला।',
+  'search.denied': 'स्थान की अनुमति अस्वीकार कर दी गई।',
+  'search.unsupported': 'यह ब्राउज़र जियोलोकेशन का समर्थन नहीं करता।',
+  'search.unavailable': 'आपका स्थान निर्धारित नहीं हो सका।',
+
+  // Errors
+  'error.not-found.title': 'कोई मिलान नहीं',
+  'error.not-found.message': 'इस अनुरोध के लिए कुछ नहीं मिला।',
+  'error.not-found.hint': 'वर्तनी जाँचें, क्षेत्र या देश जोड़ें, या निर्देशांक दर्ज करें।',
+  'error.network.title': 'अपलिंक टूट गया',
+  'error.network.message': 'अमरसिपाही बैकएंड से संपर्क नहीं हो सका।',
+  'error.network.hint': 'बैकएंड तक नहीं पहुँचा जा सका। अपना कनेक्शन जाँचें।',
+  'error.timeout.title': 'सिग्नल टाइमआउट',
+  'error.timeout.message': 'अनुरोध का समय समाप्त हो गया।',
+  'error.timeout.hint': 'अनुरोध में बहुत समय लगा। सेवा पर भार हो सकता है।',
+  'error.rate-limit.title': 'अनुरोध सीमा पार',
+  'error.rate-limit.message': 'सेवा अनुरोधों को सीमित कर रही है।',
+  'error.rate-limit.hint': 'कम समय में बहुत अधिक अनुरोध। दोबारा प्रयास से पहले थोड़ा रुकें।',
+  'error.malformed.title': 'दूषित टेलीमेट्री',
+  'error.malformed.message': 'उत्तर पढ़ा नहीं जा सका।',
+  'error.malformed.hint': 'डेटा स्रोत ने अप्रत्याशित उत्तर दिया।',
+  'error.server.title': 'सिस्टम त्रुटि',
+  'error.server.message': 'सर्वर पर अनुरोध विफल रहा।',
+  'error.server.hint': 'अनुरोध पूरा नहीं हो सका।',
+  'error.geolocation.title': 'स्थिति अज्ञात',
+  'error.geolocation.message': 'आपका स्थान निर्धारित नहीं हो सका।',
+  'error.geolocation.hint': 'ब्राउज़र में स्थान की अनुमति दें, या किसी जगह को खोजें।',
+  'error.retryIn': 'लगभग {seconds} सेकंड में फिर प्रयास करें।',
+  'error.retry': 'फिर प्रयास करें',
+
+  // Settings
+  'settings.title': 'इकाइयाँ और भाषा',
+  'settings.language': 'भाषा',
+  'settings.units': 'इकाइयाँ',
+  'settings.metric': 'मीट्रिक',
+  'settings.imperial': 'इम्पीरियल',
+  'settings.temperature': 'तापमान',
+  'settings.wind': 'हवा',
+  'settings.pressure': 'वायुदाब',
+  'settings.precipitation': 'वर्षा',
+  'unit.celsius': 'सेल्सियस',
+  'unit.fahrenheit': 'फ़ारेनहाइट',
+  'unit.kn': 'नॉट',
+
+  // AI briefing
+  'briefing.title': 'Gemini AI विश्लेषण',
+  'briefing.profile': 'ब्रीफ़िंग प्रोफ़ाइल',
+  'briefing.risks': 'जोखिम',
+  'briefing.recommendations': 'सुझाव',
+  'briefing.confidence': 'विश्वास स्तर',
+  'briefing.standard': 'मानक ब्रीफ़िंग · AI उपलब्ध नहीं',
+  'briefing.offline': 'ऑफ़लाइन होने पर AI विश्लेषण उपलब्ध नहीं है।',
+  'briefing.fallback': 'वायुमंडलीय स्थितियाँ {condition} दर्शाती हैं, महसूस होने वाला तापमान {feelsLike} है। सामान्य सावधानियाँ बरतने की सलाह दी जाती है।',
+  'briefing.missingKey': ' (AI ऑफ़लाइन - API कुंजी नहीं है)',
+  'profile.general': 'सामान्य',
+  'profile.commuter': 'यात्री',
+  'profile.outdoorWorker': 'बाहरी कामगार',
+  'profile.runner': 'धावक',
+  'profile.photographer': 'फ़ोटोग्राफ़र',
+  'profile.agriculture': 'कृषि',
+
+  // Alerts
+  'alerts.button': 'अलर्ट नियम',
+  'alerts.title': 'अलर्ट नियम',
+  'alerts.notifications': 'ब्राउज़र सूचनाएँ',
+  'alerts.empty': 'अभी कोई नियम नहीं।',
+  'alerts.enable': 'नियम चालू करें',
+  'alerts.disable': 'नियम बंद करें',
+  'alerts.delete': 'नियम हटाएँ',
+  'alerts.limit': 'सीमा',
+  'alerts.allLocations': 'सभी स्थान',
+  'alerts.removedSite': 'हटाया गया स्थान',
+  'alerts.add': 'जोड़ें',
+  'alerts.now': 'अभी',
+  'alerts.dismiss': 'खारिज करें',
+  'alerts.describe': '{metric} {value} (नियम {comparator} {threshold})',
+  'severity.info': 'सूचना',
+  'severity.warning': 'चेतावनी',
+  'severity.critical': 'गंभीर',
+  'alertMetric.temperature': 'तापमान',
+  'alertMetric.feelsLike': 'महसूस होने वाला तापमान',
+  'alertMetric.windSpeed': 'हवा की गति',
+  'alertMetric.windGusts': 'हवा के झोंके',
+  'alertMetric.uvIndex': 'UV सूचकांक',
+  'alertMetric.precipitation': 'वर्षा',
+  'alertMetric.precipitationProbability': 'वर्षा की संभावना',
+  'alertMetric.humidity': 'आर्द्रता',
+
+  // Saved sites
+  'dashboard.title': 'सहेजे गए स्थान · {count}',
+  'dashboard.refresh': 'सभी रीफ़्रेश करें',
+  'dashboard.empty': 'अभी कोई स्थान सहेजा नहीं गया',
+  'dashboard.emptyHint': 'कोई स्थान खोजें और उसे यहाँ ट्रैक करने के लिए तारे से चिह्नित करें।',
+  'dashboard.open': '{name} खोलें',
+  'dashboard.moveUp': 'ऊपर ले जाएँ',
+  'dashboard.moveDown': 'नीचे ले जाएँ',
+  'dashboard.rename': 'नाम बदलें',
+  'dashboard.remove': 'हटाएँ',
+  'dashboard.loading': 'टेलीमेट्री प्राप्त हो रही है',
+  'dashboard.synced': 'सिंक किया गया · कोड',
+  'dashboard.local': 'केवल इस डिवाइस पर संग्रहीत',
+  'dashboard.stopSync': 'सिंक बंद करें',
+  'dashboard.enableSync': 'सिंक चालू करें',
+  'dashboard.existingCode': 'मौजूदा कोड',
+  'dashboard.link': 'जोड़ें',
+
+  // Assistant
+  'chat.button': 'मौसम सहायक',
+  'chat.title': 'मौसम सहायक',
+  'chat.new': 'नई बातचीत',
+  'chat.close': 'बंद करें',
+  'chat.intro': 'कहीं के भी मौसम या पूर्वानुमान के बारे में पूछें।',
+  'chat.suggestion.run': 'कल दौड़ने के लिए सबसे अच्छा 2 घंटे का समय कौन-सा है?',
+  'chat.suggestion.rain': 'क्या शुक्रवार से पहले पुणे में बारिश होगी?',
+  'chat.thinking': 'टेलीमेट्री देखी जा रही है...',
+  'chat.placeholder': 'सहायक से पूछें...',
+  'chat.send': 'भेजें',
+  'chat.failed': 'विफल',
+  'chat.noAnswer': 'कोई उत्तर नहीं मिला।',
+  'chat.tooManyToolCalls': 'सहायक ने उत्तर दिए बिना बहुत अधिक टूल कॉल किए।',
+
+  // History
+  'history.back': 'वर्तमान स्थितियों पर लौटें',
+  'history.archive': 'संग्रह',
+  'history.preset.week': '7 दिन',
+  'history.preset.month': '30 दिन',
+  'history.preset.quarter': '90 दिन',
+  'history.preset.year': '1 वर्ष',
+  'history.warmest': 'सबसे गर्म',
+  'history.coldest': 'सबसे ठंडा',
+  'history.totalPrecipitation': 'कुल वर्षा',
+  'history.wetDays': '{value} · {days} बारिश वाले दिन',
+  'history.strongestWind': 'सबसे तेज़ हवा',
+  'history.temperature': 'दैनिक तापमान',
+  'history.high': 'अधिकतम',
+  'history.mean': 'औसत',
+  'history.low': 'न्यूनतम',
+  'history.precipitation': 'दैनिक वर्षा',
+  'history.total': 'कुल',
+  'history.wind': 'अधिकतम हवा',
+  'history.max': 'अधिकतम',
+
+  // Air quality
+  'air.title': 'वायु गुणवत्ता',
+  'air.scale.european': 'यूरोपीय AQI',
+  'air.scale.us': 'अमेरिकी AQI',
+  'air.short.european': 'EU',
+  'air.short.us': 'US',
+  'air.noData': 'कोई डेटा नहीं',
+  'air.pollen': 'परागकण',
+  'air.notModelled': 'इस क्षेत्र के लिए मॉडल उपलब्ध नहीं।',
+  'air.nextHours': 'अगले {count} घंटे',
+  'aqi.good': 'अच्छा',
+  'aqi.fair': 'ठीक',
+  'aqi.moderate': 'मध्यम',
+  'aqi.poor': 'खराब',
+  'aqi.veryPoor': 'बहुत खराब',
+  'aqi.extremelyPoor': 'अत्यंत खराब',
+  'aqi.unhealthySensitive': 'संवेदनशील लोगों के लिए अस्वास्थ्यकर',
+  'aqi.unhealthy': 'अस्वास्थ्यकर',
+  'aqi.veryUnhealthy': 'बहुत अस्वास्थ्यकर',
+  'aqi.hazardous': 'खतरनाक',
+  'pollen.alder': 'एल्डर',
+  'pollen.birch': 'भोजपत्र',
+  'pollen.grass': 'घास',
+  'pollen.mugwort': 'नागदौना',
+  'pollen.olive': 'जैतून',
+  'pollen.ragweed': 'रैगवीड',
+  'pollenLevel.none': 'नहीं',
+  'pollenLevel.low': 'कम',
+  'pollenLevel.moderate': 'मध्यम',
+  'pollenLevel.high': 'अधिक',
+  'pollenLevel.veryHigh': 'बहुत अधिक',
+
+  // Sun and moon
+  'astro.title': 'सूर्य और चंद्रमा',
+  'astro.sunrise': 'सूर्योदय',
+  'astro.sunset': 'सूर्यास्त',
+  'astro.solarNoon': 'सौर मध्याह्न',
+  'astro.civilDawn': 'नागरिक भोर',
+  'astro.civilDusk': 'नागरिक सांझ',
+  'astro.goldenMorning': 'सुबह का सुनहरा समय',
+  'astro.goldenEvening': 'शाम का सुनहरा समय',
+  'astro.blueMorning': 'सुबह का नीला समय',
+  'astro.blueEvening': 'शाम का नीला समय',
+  'astro.dayLength': 'दिन की अवधि',
+  'astro.duration': '{hours} घं {minutes} मि',
+  'astro.moon': 'चंद्रमा',
+  'astro.illuminated': '{value} प्रकाशित',
+  'astro.moonrise': 'चंद्रोदय',
+  'astro.moonset': 'चंद्रास्त',
+  'astro.noEvent': 'आज नहीं',
+  'astro.polarDay': 'मध्यरात्रि सूर्य: सूर्य पूरे दिन ऊपर रहता है',
+  'astro.polarNight': 'ध्रुवीय रात: सूर्य पूरे दिन नहीं निकलता',
+  'astro.now': 'अभी',
+  'astro.matches': 'पूर्वानुमान से {minutes} मि के भीतर',
+  'astro.differs': 'पूर्वानुमान से {minutes} मि का अंतर',
+  'astro.golden': 'सुनहरा समय',
+  'astro.blue': 'नीला समय',
+  'moonPhase.new': 'अमावस्या',
+  'moonPhase.waxingCrescent': 'बढ़ता अर्धचंद्र',
+  'moonPhase.firstQuarter': 'प्रथम चतुर्थांश',
+  'moonPhase.waxingGibbous': 'बढ़ता उत्तल चंद्र',
+  'moonPhase.full': 'पूर्णिमा',
+  'moonPhase.waningGibbous': 'घटता उत्तल चंद्र',
+  'moonPhase.lastQuarter': 'अंतिम चतुर्थांश',
+  'moonPhase.waningCrescent': 'घटता अर्धचंद्र',
+
+  // Report export
+  'export.button': 'रिपोर्ट निर्यात करें',
+  'export.print': 'प्रिंट / PDF के रूप में सहेजें',
+  'export.waiting': 'विश्लेषण पूरा होने पर उपलब्ध',
+  'export.title': '{city} मौसम रिपोर्ट',
+  'export.generated': 'तैयार: {time}',
+  'export.current': 'वर्तमान स्थिति',
+  'export.metric': 'माप',
+  'export.value': 'मान',
+  'export.condition': 'स्थिति',
+  'export.time': 'समय',
+  'export.date': 'तारीख',
+  'export.low': 'न्यूनतम',
+  'export.high': 'अधिकतम',
+  'export.noBriefing': 'कोई विश्लेषण उपलब्ध नहीं।',
+
+  // Scheduled webhook briefings
+  'webhook.title': '{city} · दैनिक ब्रीफ़िंग',
+  'webhook.sentFor': '{time} ({timeZone}) के लिए भेजा गया',
+
+  // WMO weather codes
+  'condition.0': 'साफ़ आसमान',
+  'condition.1': 'अधिकतर साफ़',
+  'condition.2': 'आंशिक रूप से बादल',
+  'condition.3': 'घने बादल',
+  'condition.45': 'कोहरा',
+  'condition.48': 'पाला जमाने वाला कोहरा',
+  'condition.51': 'हल्की फुहार',
+  'condition.53': 'मध्यम फुहार',
+  'condition.55': 'घनी फुहार',
+  'condition.56': 'हल्की जमने वाली फुहार',
+  'condition.57': 'घनी जमने वाली फुहार',
+  'condition.61': 'हल्की बारिश',
+  'condition.63': 'मध्यम बारिश',
+  'condition.65': 'भारी बारिश',
+  'condition.66': 'हल्की जमने वाली बारिश',
+  'condition.67': 'भारी जमने वाली बारिश',
+  'condition.71': 'हल्की बर्फ़बारी',
+  'condition.73': 'मध्यम बर्फ़बारी',
+  'condition.75': 'भारी बर्फ़बारी',
+  'condition.77': 'हिमकण',
+  'condition.80': 'हल्की बौछारें',
+  'condition.81': 'मध्यम बौछारें',
+  'condition.82': 'तीव्र बौछारें',
+  'condition.85': 'हल्की बर्फ़ीली बौछारें',
+  'condition.86': 'भारी बर्फ़ीली बौछारें',
+  'condition.95': 'गरज के साथ तूफ़ान',
+  'condition.96': 'हल्के ओलों के साथ तूफ़ान',
+  'condition.99': 'भारी ओलों के साथ तूफ़ान',
+  'condition.unknown': 'अवर्गीकृत स्थिति (WMO {code})',
+};
@@ -0,0 +1,305 @@
+import type { Catalogue } from '../lib/i18n.ts';
+
+// Urdu (اردو), written right to left
+export const ur: Catalogue = {
+  // App shell
+  'app.tagline': 'عالمی موسمیاتی ذہانت',
+  'app.initializing': 'بنیادی نظام شروع ہو رہے ہیں',
+  'app.savedSites': 'محفوظ مقامات',
+  'app.awaiting': 'نقاط کا انتظار',
+  'app.recentSearches': 'حالیہ تلاشیں',
+  'app.clear': 'صاف کریں',
+  'app.build': 'امرسپاہی ویدر OS • بلڈ 2.0',
+  'app.online': 'تمام نظام معمول پر',
+  'app.offline': 'آف لائن موڈ',
+  'loading.uplink': 'سیٹلائٹ سے رابطہ قائم ہو رہا ہے...',
+  'loading.sensors': 'موسمیاتی سینسر درست کیے جا رہے ہیں...',
+  'loading.models': 'پیش گوئی کے ماڈل چل رہے ہیں...',
+  'loading.analysis': 'AI تجزیہ تیار ہو رہا ہے...',
+
+  // Current conditions
+  'weather.verified': 'تصدیق شدہ مقام',
+  'weather.staleSince': '{time} سے پرانا ڈیٹا',
+  'weather.save': 'مقام محفوظ کریں',
+  'weather.unsave': 'محفوظ مقامات سے ہٹائیں',
+  'weather.history': 'موسم کی تاریخ',
+  'weather.feelsLike': 'محسوس ہوتا ہے',
+  'weather.precipitation': 'بارش',
+  'weather.humidity': 'نمی',
+  'weather.wind': 'ہوا کی رفتار',
+  'weather.uvIndex': 'UV اشاریہ',
+  'weather.pressure': 'ہوا کا دباؤ',
+  'weather.uvShort': 'UV {value}',
+  'climate.high': 'زیادہ سے زیادہ',
+  'climate.low': 'کم سے کم',
+  'climate.normalHigh': 'معمول کا زیادہ سے زیادہ {value}',
+  'climate.normalLow': 'معمول کا کم سے کم {value}',
+  'climate.versus': '{years} سالہ معمول کے مقابلے میں',
+  'hourly.title': 'اگلے 48 گھنٹے',
+  'daily.title': '7 دن کی پیش گوئی',
+  'daily.today': 'آج',
+
+  // Location search
+  'search.placeholder': 'نقاط یا شہر درج کریں...',
+  'search.submit': 'تلاش کریں',
+  'search.useMyLocation': 'میرا مقام استعمال کریں',
+  'search.multiple': 'کئی نتائج ملے — ایک منتخب کریں',
+  'search.notFound': '"{name}" عالمی ڈیٹا بیس میں نہیں ملا۔',
+  'search.denied': 'مقام تک رسائی سے انکار کر دیا گیا۔',
+  'search.unsupported': 'یہ براؤزر جغرافیائی محل وقوع کی سہولت نہیں دیتا۔',
+  'search.unavailable': 'آپ کا مقام معلوم نہیں ہو سکا۔',
+
+  // Errors
+  'error.not-found.title': 'کوئی نتیجہ نہیں',
+  'error.not-found.message': 'اس درخواست کے لیے کچھ نہیں ملا۔',
+  'error.not-found.hint': 'ہجے چیک کریں، علاقہ یا ملک شامل کریں، یا نقاط درج کریں۔',
+  'error.network.title': 'رابطہ منقطع',
+  'error.network.message': 'امرسپاہی بیک اینڈ تک رسائی نہیں ہو سکی۔',
+  'error.network.hint': 'بیک اینڈ تک رسائی نہیں ہو سکی۔ اپنا کنکشن چیک کریں۔',
+  'error.timeout.title': 'سگنل ٹائم آؤٹ',
+  'error.timeout.message': 'درخواست کا وقت ختم ہو گیا۔',
+  'error.timeout.hint': 'درخواست میں بہت دیر لگی۔ سروس پر بوجھ ہو سکتا ہے۔',
+  'error.rate-limit.title': 'درخواستوں کی حد',
+  'error.rate-limit.message': 'سروس درخواستوں کو محدود کر رہی ہے۔',
+  'error.rate-limit.hint': 'کم وقت میں بہت زیادہ درخواستیں۔ دوبارہ کوشش سے پہلے کچھ دیر انتظار کریں۔',
+  'error.malformed.title': 'خراب ٹیلی میٹری',
+  'error.malformed.message': 'جواب پڑھا نہیں جا سکا۔',
+  'error.malformed.hint': 'ڈیٹا کے ماخذ نے غیر متوقع جواب دیا۔',
+  'error.server.title': 'نظام کی خرابی',
+  'error.server.message': 'سرور پر درخواست ناکام ہو گئی۔',
+  'error.server.hint': 'درخواست مکمل نہیں ہو سکی۔',
+  'error.geolocation.title': 'مقام نامعلوم',
+  'error.geolocation.message': 'آپ کا مقام معلوم نہیں ہو سکا۔',
+  'error.geolocation.hint': 'براؤزر میں مقام تک رسائی کی اجازت دیں، یا کوئی جگہ تلاش کریں۔',
+  'error.retryIn': 'تقریباً {seconds} سیکنڈ بعد دوبارہ کوشش کریں۔',
+  'error.retry': 'دوبارہ کوشش کریں',
+
+  // Settings
+  'settings.title': 'اکائیاں اور زبان',
+  'settings.language': 'زبان',
+  'settings.units': 'اکائیاں',
+  'settings.metric': 'میٹرک',
+  'settings.imperial': 'امپیریل',
+  'settings.temperature': 'درجہ حرارت',
+  'settings.wind': 'ہوا',
+  'settings.pressure': 'دباؤ',
+  'settings.precipitation': 'بارش',
+  'unit.celsius': 'سیلسیس',
+  'unit.fahrenheit': 'فارن ہائیٹ',
+  'unit.kn': 'ناٹ',
+
+  // AI briefing
+  'briefing.title': 'Gemini AI تجزیہ',
+  'briefing.profile': 'بریفنگ پروفائل',
+  'briefing.risks': 'خطرات',
+  'briefing.recommendations': 'سفارشات',
+  'briefing.confidence': 'اعتماد',
+  'briefing.standard': 'معیاری بریفنگ · AI دستیاب نہیں',
+  'briefing.offline': 'آف لائن ہونے پر AI تجزیہ دستیاب نہیں۔',
+  'briefing.fallback': 'موسمی حالات {condition} ظاہر کرتے ہیں اور محسوس ہونے والا درجہ حرارت {feelsLike} ہے۔ معمول کی احتیاطی تدابیر اختیار کرنے کا مشورہ ہے۔',
+  'briefing.missingKey': ' (AI آف لائن - API کلید موجود نہیں)',
+  'profile.general': 'عمومی',
+  'profile.commuter': 'مسافر',
+  'profile.outdoorWorker': 'بیرونی کارکن',
+  'profile.runner': 'دوڑنے والا',
+  'profile.photographer': 'فوٹوگرافر',
+  'profile.agriculture': 'زراعت',
+
+  // Alerts
+  'alerts.button': 'انتباہی اصول',
+  'alerts.title': 'انتباہی اصول',
+  'alerts.notifications': 'براؤزر اطلاعات',
+  'alerts.empty': 'ابھی کوئی اصول نہیں۔',
+  'alerts.enable': 'اصول فعال کریں',
+  'alerts.disable': 'اصول غیر فعال کریں',
+  'alerts.delete': 'اصول حذف کریں',
+  'alerts.limit': 'حد',
+  'alerts.allLocations': 'تمام مقامات',
+  'alerts.removedSite': 'ہٹایا گیا مقام',
+  'alerts.add': 'شامل کریں',
+  'alerts.now': 'ابھی',
+  'alerts.dismiss': 'مسترد کریں',
+  'alerts.describe': '{metric} {value} (اصول {comparator} {threshold})',
+  'severity.info': 'معلومات',
+  'severity.warning': 'انتباہ',
+  'severity.critical': 'سنگین',
+  'alertMetric.temperature': 'درجہ حرارت',
+  'alertMetric.feelsLike': 'محسوس ہونے والا درجہ حرارت',
+  'alertMetric.windSpeed': 'ہوا کی رفتار',
+  'alertMetric.windGusts': 'ہوا کے جھونکے',
+  'alertMetric.uvIndex': 'UV اشاریہ',
+  'alertMetric.precipitation': 'بارش',
+  'alertMetric.precipitationProbability': 'بارش کا امکان',
+  'alertMetric.humidity': 'نمی',
+
+  // Saved sites
+  'dashboard.title': 'محفوظ مقامات · {count}',
+  'dashboard.refresh': 'سب تازہ کریں',
+  'dashboard.empty': 'ابھی کوئی مقام محفوظ نہیں',
+  'dashboard.emptyHint': 'کوئی مقام تلاش کریں اور اسے یہاں دیکھنے کے لیے ستارے سے نشان زد کریں۔',
+  'dashboard.open': '{name} کھولیں',
+  'dashboard.moveUp': 'اوپر منتقل کریں',
+  'dashboard.moveDown': 'نیچے منتقل کریں',
+  'dashboard.rename': 'نام تبدیل کریں',
+  'dashboard.remove': 'ہٹائیں',
+  'dashboard.loading': 'ٹیلی میٹری حاصل کی جا رہی ہے',
+  'dashboard.synced': 'ہم آہنگ · کوڈ',
+  'dashboard.local': 'صرف اسی آلے پر محفوظ',
+  'dashboard.stopSync': 'ہم آہنگی بند کریں',
+  'dashboard.enableSync': 'ہم آہنگی فعال کریں',
+  'dashboard.existingCode': 'موجودہ کوڈ',
+  'dashboard.link': 'منسلک کریں',
+
+  // Assistant
+  'chat.button': 'موسمی معاون',
+  'chat.title': 'موسمی معاون',
+  'chat.new': 'نئی گفتگو',
+  'chat.close': 'بند کریں',
+  'chat.intro': 'کہیں کے بھی موسم یا پیش گوئی کے بارے میں پوچھیں۔',
+  'chat.suggestion.run': 'کل دوڑنے کے لیے بہترین 2 گھنٹے کا وقت کون سا ہے؟',
+  'chat.suggestion.rain': 'کیا جمعہ سے پہلے پونے میں بارش ہوگی؟',
+  'chat.thinking': 'ٹیلی میٹری دیکھی جا رہی ہے...',
+  'chat.placeholder': 'معاون سے پوچھیں...',
+  'chat.send': 'بھیجیں',
+  'chat.failed': 'ناکام',
+  'chat.noAnswer': 'کوئی جواب موصول نہیں ہوا۔',
+  'chat.tooManyToolCalls': 'اسسٹنٹ نے جواب دیے بغیر بہت زیادہ ٹول کالز کیں۔',
+
+  // History
+  'history.back': 'موجودہ حالات پر واپس جائیں',
+  'history.archive': 'محفوظ شدہ ریکارڈ',
+  'history.preset.week': '7 دن',
+  'history.preset.month': '30 دن',
+  'history.preset.quarter': '90 دن',
+  'history.preset.year': '1 سال',
+  'history.warmest': 'سب سے گرم',
+  'history.coldest': 'سب سے ٹھنڈا',
+  'history.totalPrecipitation': 'کل بارش',
+  'history.wetDays': '{value} · {days} بارش والے دن',
+  'history.strongestWind': 'تیز ترین ہوا',
+  'history.temperature': 'روزانہ درجہ حرارت',
+  'history.high': 'زیادہ سے زیادہ',
+  'history.mean': 'اوسط',
+  'history.low': 'کم سے کم',
+  'history.precipitation': 'روزانہ بارش',
+  'history.total': 'کل',
+  'history.wind': 'زیادہ سے زیادہ ہوا',
+  'history.max': 'زیادہ سے زیادہ',
+
+  // Air quality
+  'air.title': 'ہوا کا معیار',
+  'air.scale.european': 'یورپی AQI',
+  'air.scale.us': 'امریکی AQI',
+  'air.short.european': 'EU',
+  'air.short.us': 'US',
+  'air.noData': 'کوئی ڈیٹا نہیں',
+  'air.pollen': 'زردانہ',
+  'air.notModelled': 'اس خطے کے لیے ماڈل دستیاب نہیں۔',
+  'air.nextHours': 'اگلے {count} گھنٹے',
+  'aqi.good': 'اچھا',
+  'aqi.fair': 'مناسب',
+  'aqi.moderate': 'درمیانہ',
+  'aqi.poor': 'خراب',
+  'aqi.veryPoor': 'بہت خراب',
+  'aqi.extremelyPoor': 'انتہائی خراب',
+  'aqi.unhealthySensitive': 'حساس افراد کے لیے مضر صحت',
+  'aqi.unhealthy': 'مضر صحت',
+  'aqi.veryUnhealthy': 'انتہائی مضر صحت',
+  'aqi.hazardous': 'خطرناک',
+  'pollen.alder': 'ایلڈر',
+  'pollen.birch': 'بھوج پتر',
+  'pollen.grass': 'گھاس',
+  'pollen.mugwort': 'ناگ دونا',
+  'pollen.olive': 'زیتون',
+  'pollen.ragweed': 'ریگ ویڈ',
+  'pollenLevel.none': 'کوئی نہیں',
+  'pollenLevel.low': 'کم',
+  'pollenLevel.moderate': 'درمیانہ',
+  'pollenLevel.high': 'زیادہ',
+  'pollenLevel.veryHigh': 'بہت زیادہ',
+
+  // Sun and moon
+  'astro.title': 'سورج اور چاند',
+  'astro.sunrise': 'طلوع آفتاب',
+  'astro.sunset': 'غروب آفتاب',
+  'astro.solarNoon': 'نصف النہار',
+  'astro.civilDawn': 'شہری صبح',
+  'astro.civilDusk': 'شہری شام',
+  'astro.goldenMorning': 'صبح کا سنہری وقت',
+  'astro.goldenEvening': 'شام کا سنہری وقت',
+  'astro.blueMorning': 'صبح کا نیلا وقت',
+  'astro.blueEvening': 'شام کا نیلا وقت',
+  'astro.dayLength': 'دن کا دورانیہ',
+  'astro.duration': '{hours} گھنٹے {minutes} منٹ',
+  'astro.moon': 'چاند',
+  'astro.illuminated': '{value} روشن',
+  'astro.moonrise': 'طلوع ماہتاب',
+  'astro.moonset': 'غروب ماہتاب',
+  'astro.noEvent': 'آج نہیں',
+  'astro.polarDay': 'نصف شب کا سورج: سورج سارا دن طلوع رہتا ہے',
+  'astro.polarNight': 'قطبی رات: سورج سارا دن طلوع نہیں ہوتا',
+  'astro.now': 'ابھی',
+  'astro.matches': 'پیش گوئی سے {minutes} منٹ کے اندر',
+  'astro.differs': 'پیش گوئی سے {minutes} منٹ کا فرق',
+  'astro.golden': 'سنہری وقت',
+  'astro.blue': 'نیلا وقت',
+  'moonPhase.new': 'نیا چاند',
+  'moonPhase.waxingCrescent': 'بڑھتا ہلال',
+  'moonPhase.firstQuarter': 'پہلی چوتھائی',
+  'moonPhase.waxingGibbous': 'بڑھتا ہوا محدب چاند',
+  'moonPhase.full': 'پورا چاند',
+  'moonPhase.waningGibbous': 'گھٹتا ہوا محدب چاند',
+  'moonPhase.lastQuarter': 'آخری چوتھائی',
+  'moonPhase.waningCrescent': 'گھٹتا ہلال',
+
+  // Report export
+  'export.button': 'رپورٹ برآمد کریں',
+  'export.print': 'پرنٹ / PDF کے طور پر محفوظ کریں',
+  'export.waiting': 'تجزیہ مکمل ہونے پر دستیاب',
+  'export.title': '{city} موسمی رپورٹ',
+  'export.generated': 'تیار کردہ: {time}',
+  'export.current': 'موجودہ حالات',
+  'export.metric': 'پیمائش',
+  'export.value': 'قدر',
+  'export.condition': 'کیفیت',
+  'export.time': 'وقت',
+  'export.date': 'تاریخ',
+  'export.low': 'کم سے کم',
+  'export.high': 'زیادہ سے زیادہ',
+  'export.noBriefing': 'کوئی تجزیہ دستیاب نہیں۔',
+
+  // Scheduled webhook briefings
+  'webhook.title': '{city} · روزانہ بریفنگ',
+  'webhook.sentFor': '{time} ({timeZone}) کے لیے بھیجا گیا',
+
+  // WMO weather codes
+  'condition.0': 'صاف آسمان',
+  'condition.1': 'زیادہ تر صاف',
+  'condition.2': 'جزوی ابر آلود',
+  'condition.3': 'گہرے بادل',
+  'condition.45': 'دھند',
+  'condition.48': 'کہر جمانے والی دھند',
+  'condition.51': 'ہلکی پھوار',
+  'condition.53': 'درمیانی پھوار',
+  'condition.55': 'گھنی پھوار',
+  'condition.56': 'ہلکی جمنے والی پھوار',
+  'condition.57': 'گھنی جمنے والی پھوار',
+  'condition.61': 'ہلکی بارش',
+  'condition.63': 'درمیانی بارش',
+  'condition.65': 'تیز بارش',
+  'condition.66': 'ہلکی جمنے والی بارش',
+  'condition.67': 'تیز جمنے والی بارش',
+  'condition.71': 'ہلکی برف باری',
+  'condition.73': 'درمیانی برف باری',
+  'condition.75': 'شدید برف باری',
+  'condition.77': 'برف کے دانے',
+  'condition.80': 'ہلکی بوچھاڑ',
+  'condition.81': 'درمیانی بوچھاڑ',
+  'condition.82': 'شدید بوچھاڑ',
+  'condition.85': 'ہلکی برفانی بوچھاڑ',
+  'condition.86': 'شدید برفانی بوچھاڑ',
+  'condition.95': 'گرج چمک کے ساتھ طوفان',
+  'condition.96': 'ہلکے اولوں کے ساتھ طوفان',
+  'condition.99': 'شدید اولوں کے ساتھ طوفان',
+  'condition.unknown': 'غیر درجہ بند حالات (WMO {code})',
+};
@@ -0,0 +1,108 @@
+import type { AiBriefing } from './lib/briefing.ts';
+
+// Hourly series from Open-Meteo, one entry per hour; times are unix seconds
+export interface HourlyForecast {
+  time: number[];
+  temperature: number[];
+  precipitationProbability: number[];
+  windSpeed: number[];
+  windGusts: number[];
+  weatherCode: number[];
+  // 1 during daylight, 0 at night
+  isDay: number[];
+}
+
+// Daily series from Open-Meteo, one entry per local calendar day; times are unix seconds at local midnight
+export interface DailyForecast {
+  time: number[];
+  weatherCode: number[];
+  temperatureMax: number[];
+  temperatureMin: number[];
+  precipitationProbabilityMax: number[];
+  windSpeedMax: number[];
+  uvIndexMax: number[];
+  // Unix seconds; NaN during polar day or night
+  sunrise: number[];
+  sunset: number[];
+}
+
+// Daily series from the Open-Meteo archive; values are null (NaN here) for days the reanalysis has not reached yet
+export interface DailyHistory {
+  time: number[];
+  weatherCode: number[];
+  temperatureMax: number[];
+  temperatureMin: number[];
+  temperatureMean: number[];
+  precipitationSum: number[];
+  windSpeedMax: number[];
+}
+
+export type PollenType = 'alder' | 'birch' | 'grass' | 'mugwort' | 'olive' | 'ragweed';
+
+// Open-Meteo air quality; concentrations in µg/m³, pollen in grains/m³ (NaN outside Europe)
+export interface AirQuality {
+  europeanAqi: number;
+  usAqi: number;
+  pm25: number;
+  pm10: number;
+  ozone: number;
+  nitrogenDioxide: number;
+  pollen: Record<PollenType, number>;
+  hourly: {
+    time: number[];
+    europeanAqi: number[];
+    usAqi: number[];
+    pm25: number[];
+  };
+}
+
+// A place resolved from geocoding, reverse geocoding or raw coordinates
+export interface GeoLocation {
+  id?: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  admin1?: string;
+  country?: string;
+  countryCode?: string;
+  population?: number;
+}
+
+// Types for weather data
+export interface WeatherData {
+  city: string;
+  latitude: number;
+  longitude: number;
+  // True only when the user picked an unambiguous geocoding result
+  verified: boolean;
+  temp: number;
+  feelsLike: number;
+  condition: string;
+  weatherCode: number;
+  humidity: number;
+  windSpeed: number;
+  windGusts: number;
+  pressure: number;
+  uvIndex: number;
+  precipitation: number;
+  isDay: boolean;
+  // Null when the air-quality service had no data for the location
+  airQuality: AirQuality | null;
+  // Null until the first streamed fragment of the briefing arrives
+  aiAnalysis: AiBriefing | null;
+  // IANA zone of the location, used for every forecast timestamp
+  timezone: string;
+  hourly: HourlyForecast;
+  daily: DailyForecast;
+}
+
+// Telemetry before the AI briefing has been attached
+export type WeatherSnapshot = Omit<WeatherData, 'aiAnalysis'>;
+
+// A favourite site; `label` is the user's own name for it
+export interface SavedLocation {
+  id: string;
+  label: string;
+  location: GeoLocation;
+  verified: boolean;
+}